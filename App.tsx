@@ -1,19 +1,168 @@
-import React, { useState } from 'react';
-import { AppStatus, EngineeredPrompt, UserInput } from './types';
-import { engineerPrompt, generatePosterImage } from './services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppStatus, EngineeredPrompt, UserInput, HistoryEntry, InputSnapshot, ImageVariant, TextRenderMode, StylePreset, LayoutTemplateId, PosterRevision, ImageGenerationOptions, LivingPoster, LivingPosterInput, LivingPosterRender, ReferenceImage, PromptTemplateId, PromptTemplateRecord, Experiment, ExperimentVote } from './types';
+import { getProvider } from './services/providers';
+import { saveHistoryEntry, listHistoryEntries, deleteHistoryEntry } from './services/historyService';
+import { BUILT_IN_STYLE_PRESETS, listCustomStylePresets, saveCustomStylePreset, deleteCustomStylePreset } from './services/stylePresets';
 import InputSection from './components/InputSection';
 import PromptDisplay from './components/PromptDisplay';
 import ImageResult from './components/ImageResult';
-import { Sparkles, AlertCircle, KeyRound } from 'lucide-react';
+import HistoryGallery from './components/HistoryGallery';
+import { isSamePromptText } from './utils/promptValidation';
+import { runWithConcurrency } from './utils/concurrency';
+import { DEFAULT_TYPOGRAPHY, TypographySettings } from './utils/typography';
+import { isAbortError } from './utils/abort';
+import { blendMaskedRegion, toModelMask } from './utils/mask';
+import { GenerationError, toGenerationError } from './services/errors';
+import ErrorPanel from './components/ErrorPanel';
+import StylePresetManager from './components/StylePresetManager';
+import { getLayoutTemplate, hasTextZones } from './services/layoutTemplates';
+import { getEntryReferences } from './services/referenceRoles';
+import { promptCacheKey, readThrough } from './services/responseCache';
+import { shouldGroundWithSearch } from './services/liveDataIntent';
+import { classifyForSearch } from './services/pipeline';
+import { checkLivingPoster, createLivingPoster, deleteLivingPoster, isLivingPosterDue, listLivingPosters, saveLivingPoster } from './services/livingPosters';
+import LivingPosterPanel from './components/LivingPosterPanel';
+import { buildProvenance, readProvenanceFile } from './services/provenance';
+import {
+  activateTemplateVersion, exportTemplateSet, getTemplateVersions, listPromptTemplateRecords, parseTemplateImport, resolveTemplateSet, saveTemplateVersion,
+} from './services/promptTemplates';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import { downloadBlob } from './utils/download';
+import { createExperiment, deleteExperiment, listExperiments, pickNextInput, runExperimentTrial, saveExperiment } from './services/experiments';
+import ExperimentPanel from './components/ExperimentPanel';
+import { ApiKeySource, KEY_SOURCE_LABELS, clearUserApiKey, detectKeyProxy, getActiveKeySource, readUserApiKey, saveUserApiKey } from './services/apiKeys';
+import ApiKeySettings from './components/ApiKeySettings';
+import { Sparkles, AlertCircle, KeyRound, Radio, FileUp, FileCode, FlaskConical } from 'lucide-react';
+
+// Upper bound on simultaneous image requests in a batch run
+const MAX_CONCURRENT_GENERATIONS = 3;
+
+// How often pinned living posters are tested for being due
+const LIVING_POSTER_TICK_MS = 30_000;
+
+const provider = getProvider();
+
+type ResultContext = Omit<HistoryEntry, 'id' | 'createdAt' | 'completedAt' | 'imageBase64'>;
+
+// Context of a result rebuilt from replayable inputs (living posters, imported projects)
+const toResultContext = (input: LivingPosterInput, promptData: EngineeredPrompt): ResultContext => ({
+  inputText: input.text,
+  referenceImageBase64: null,
+  references: input.references,
+  promptData,
+  aspectRatio: input.aspectRatio,
+  imageSize: input.imageSize,
+  textRenderMode: input.textRenderMode,
+  stylePreset: input.stylePreset,
+  layoutId: input.layoutId,
+  language: input.language,
+  searchMode: input.searchMode,
+});
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
   const [promptData, setPromptData] = useState<EngineeredPrompt | null>(null);
-  const [resultImage, setResultImage] = useState<string | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // Untouched output of the engineer model; promptData diverges from it when the user edits
+  const [originalPromptData, setOriginalPromptData] = useState<EngineeredPrompt | null>(null);
+  const [variants, setVariants] = useState<ImageVariant[]>([]);
+  // Text render mode of the displayed result, and the client-side typography used for 'composite'
+  const [textRenderMode, setTextRenderMode] = useState<TextRenderMode>('model');
+  const [typography, setTypography] = useState<TypographySettings>(DEFAULT_TYPOGRAPHY);
+  // Layout of the displayed result; positions the composited text
+  const [resultLayoutId, setResultLayoutId] = useState<LayoutTemplateId | undefined>(undefined);
+  const [error, setError] = useState<GenerationError | null>(null);
   
-  // Track parameters of the last successful prompt engineering to enable skipping step 1 on retries
-  const [lastAnalysisParams, setLastAnalysisParams] = useState<{text: string, imageBase64: string | null} | null>(null);
+  // Cache key of the inputs behind the current prompt, to skip step 1 when they are unchanged
+  const [lastAnalysisKey, setLastAnalysisKey] = useState<string | null>(null);
+  const [promptFromCache, setPromptFromCache] = useState(false);
+
+  // Persistent generation history (IndexedDB)
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [restoreSnapshot, setRestoreSnapshot] = useState<InputSnapshot | null>(null);
+
+  // User-defined style presets (IndexedDB), listed after the built-ins
+  const [customStyles, setCustomStyles] = useState<StylePreset[]>([]);
+  const [isStyleManagerOpen, setIsStyleManagerOpen] = useState(false);
+
+  // Saved prompt-template versions (IndexedDB); ids without a record use the built-in text
+  const [templateRecords, setTemplateRecords] = useState<PromptTemplateRecord[]>([]);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+
+  // Image-to-image refinement of the displayed result
+  const [revisions, setRevisions] = useState<PosterRevision[]>([]);
+  const [activeRevisionId, setActiveRevisionId] = useState<string | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+
+  // Pinned data-driven queries (IndexedDB), re-checked in the background while the app is open
+  const [livingPosters, setLivingPosters] = useState<LivingPoster[]>([]);
+  const [isLivingPanelOpen, setIsLivingPanelOpen] = useState(false);
+  const [checkingLivingId, setCheckingLivingId] = useState<string | null>(null);
+
+  // A/B experiments
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [isExperimentPanelOpen, setIsExperimentPanelOpen] = useState(false);
+  const [runningExperimentId, setRunningExperimentId] = useState<string | null>(null);
+
+  // Where Gemini calls get their key (services/apiKeys.ts)
+  const [keySource, setKeySource] = useState<ApiKeySource | null>(getActiveKeySource);
+  const [userApiKey, setUserApiKey] = useState(readUserApiKey);
+  const [proxyAvailable, setProxyAvailable] = useState(false);
+  const [isKeySettingsOpen, setIsKeySettingsOpen] = useState(false);
+
+  // Each run gets an id; responses from a cancelled or superseded run are dropped
+  const runIdRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+  // Last submitted input, replayed by the error panel's retry actions
+  const lastInputRef = useRef<UserInput | null>(null);
+  // Inputs and prompt behind the displayed result; refinements are saved with the same context
+  const resultContextRef = useRef<ResultContext | null>(null);
+  // Living-poster checks run one at a time, independently of the foreground run
+  const livingAbortRef = useRef<AbortController | null>(null);
+  const livingPostersRef = useRef<LivingPoster[]>([]);
+  livingPostersRef.current = livingPosters;
+  const experimentAbortRef = useRef<AbortController | null>(null);
+  const experimentsRef = useRef<Experiment[]>([]);
+  experimentsRef.current = experiments;
+
+  const promptTemplates = resolveTemplateSet(templateRecords);
+  // Read by the living-poster timer, which outlives renders
+  const promptTemplatesRef = useRef(promptTemplates);
+  promptTemplatesRef.current = promptTemplates;
+
+  const isPromptEdited = !!promptData && !isSamePromptText(promptData, originalPromptData);
+  const resultLayout = getLayoutTemplate(resultLayoutId);
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setHistory)
+      .catch(e => console.error("Failed to load history", e));
+    listCustomStylePresets()
+      .then(setCustomStyles)
+      .catch(e => console.error("Failed to load style presets", e));
+    listLivingPosters()
+      .then(setLivingPosters)
+      .catch(e => console.error("Failed to load living posters", e));
+    listPromptTemplateRecords()
+      .then(setTemplateRecords)
+      .catch(e => console.error("Failed to load prompt templates", e));
+    listExperiments()
+      .then(setExperiments)
+      .catch(e => console.error("Failed to load experiments", e));
+    recheckKeyProxy();
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      const due = livingPostersRef.current.find(p => isLivingPosterDue(p, Date.now()));
+      if (due) runLivingCheck(due);
+    }, LIVING_POSTER_TICK_MS);
+    return () => {
+      window.clearInterval(timer);
+      livingAbortRef.current?.abort();
+    };
+  }, []);
 
   const checkApiKey = async () => {
     try {
@@ -32,31 +181,77 @@ const App: React.FC = () => {
   };
 
   const handleGenerate = async (input: UserInput) => {
-    await checkApiKey();
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const runId = ++runIdRef.current;
+    const isCurrentRun = () => runIdRef.current === runId;
+    const { signal } = controller;
+    lastInputRef.current = input;
 
-    setErrorMsg(null);
-    setResultImage(null);
+    if (provider.id === 'gemini') {
+      await checkApiKey();
+    }
+    if (!isCurrentRun()) return;
 
-    // Determine if we need to re-run Step 1 (Prompt Engineering)
-    // We only re-run if inputs have changed significantly, if we don't have previous data, OR if forced.
-    const inputsChanged = !lastAnalysisParams || 
-                          lastAnalysisParams.text !== input.text || 
-                          lastAnalysisParams.imageBase64 !== input.imageBase64;
+    setError(null);
+    setVariants([]);
+    setTextRenderMode(input.textRenderMode ?? 'model');
+    setResultLayoutId(input.layoutId);
+    setActiveHistoryId(null);
+    resetRevisions();
+    const layout = getLayoutTemplate(input.layoutId);
+    const templates = promptTemplates;
+    const startedAt = Date.now();
 
     let currentPromptData = promptData;
 
     try {
-      if (input.forceAnalysis || inputsChanged || !currentPromptData) {
+      // Determine if we need to re-run Step 1 (Prompt Engineering)
+      // We only re-run if inputs have changed, if we don't have previous data, OR if forced.
+      // Manual edits are authoritative: an edited prompt is never replaced unless analysis is forced.
+      const userLocale = navigator.language;
+      const promptKey = await promptCacheKey({
+        providerId: provider.id,
+        text: input.text,
+        references: input.references,
+        locale: userLocale,
+        style: input.stylePreset,
+        layoutId: input.layoutId,
+        language: input.language,
+        searchMode: input.searchMode,
+        templates,
+      });
+      if (!isCurrentRun()) return;
+      const inputsChanged = promptKey !== lastAnalysisKey;
+
+      if (input.forceAnalysis || (inputsChanged && !isPromptEdited) || !currentPromptData) {
         // STEP 1: Engineer Prompt (Analysis)
         setStatus(AppStatus.ANALYZING);
         setPromptData(null); 
+        setOriginalPromptData(null);
+        setPromptFromCache(false);
         
-        const userLocale = navigator.language;
-        const engineeredData = await engineerPrompt(input.text, input.imageBase64, userLocale);
+        // Forcing analysis asks the model again, so it also skips the cache.
+        // Live data goes stale, so search-grounded prompts are never cached.
+        const { value: engineeredData, fromCache } = await readThrough(
+          'prompt',
+          promptKey,
+          async () => {
+            const intent = await classifyForSearch(provider, input.text, input.searchMode, signal);
+            const liveData = { intent, search: shouldGroundWithSearch(intent, input.searchMode) };
+            return provider.engineerPrompt(input.text, input.references, userLocale, { style: input.stylePreset, layout, language: input.language, liveData, templates, signal });
+          },
+          input.bypassCache || input.forceAnalysis,
+          prompt => !prompt.liveData?.grounded
+        );
+        if (!isCurrentRun()) return;
         
         setPromptData(engineeredData);
+        setOriginalPromptData(engineeredData);
+        setPromptFromCache(fromCache);
         currentPromptData = engineeredData;
-        setLastAnalysisParams({ text: input.text, imageBase64: input.imageBase64 });
+        setLastAnalysisKey(promptKey);
       }
 
       // STEP 2: Generate Image
@@ -66,38 +261,522 @@ const App: React.FC = () => {
       }
 
       setStatus(AppStatus.GENERATING_IMAGE);
-      const imageUrl = await generatePosterImage(
-          currentPromptData.visualPrompt, 
-          input.aspectRatio, 
-          input.imageSize,
-          input.imageBase64
-      );
-      
-      setResultImage(imageUrl);
+      const promptForRun = currentPromptData;
+      const context: ResultContext = {
+        inputText: input.text,
+        referenceImageBase64: null,
+        references: input.references,
+        promptData: promptForRun,
+        aspectRatio: input.aspectRatio,
+        imageSize: input.imageSize,
+        textRenderMode: input.textRenderMode,
+        stylePreset: input.stylePreset,
+        layoutId: input.layoutId,
+        language: input.language,
+        searchMode: input.searchMode,
+        templateVersions: getTemplateVersions(templates),
+      };
+      resultContextRef.current = context;
+      const variantCount = Math.min(8, Math.max(1, input.variantCount ?? 1));
+      const batch: ImageVariant[] = Array.from({ length: variantCount }, (_, i) => ({
+        id: `${startedAt}-${i}`,
+        status: 'PENDING',
+        imageBase64: null,
+      }));
+      setVariants(batch);
+
+      const updateVariant = (id: string, patch: Partial<ImageVariant>) => {
+        if (!isCurrentRun()) return;
+        setVariants(prev => prev.map(v => v.id === id ? { ...v, ...patch } : v));
+      };
+
+      // Fan out all variants from the same prompt, bounded so we don't hammer the quota
+      const results = await runWithConcurrency(batch.map(variant => async () => {
+        if (signal.aborted) throw new Error("Cancelled");
+        updateVariant(variant.id, { status: 'GENERATING' });
+        try {
+          // Images are not cached: Generate is expected to roll new ones every time
+          const imageUrl = await provider.generatePosterImage(
+              promptForRun.visualPrompt, 
+              input.aspectRatio, 
+              input.imageSize,
+              input.references,
+              { textRenderMode: input.textRenderMode, style: input.stylePreset, layout, templates, signal }
+          );
+          if (!isCurrentRun()) return imageUrl;
+          updateVariant(variant.id, { status: 'SUCCESS', imageBase64: imageUrl });
+          const entry = await persistRun({ ...context, imageBase64: imageUrl, createdAt: startedAt, completedAt: Date.now() });
+          if (entry) updateVariant(variant.id, { historyId: entry.id });
+          return imageUrl;
+        } catch (err: any) {
+          updateVariant(variant.id, { status: 'ERROR', error: err?.message || "Generation failed." });
+          throw err;
+        }
+      }), MAX_CONCURRENT_GENERATIONS);
+      if (!isCurrentRun()) return;
+
+      // The run only fails as a whole if no variant produced an image
+      const firstFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (!results.some(r => r.status === 'fulfilled') && firstFailure) {
+          throw firstFailure.reason;
+      }
+
       setStatus(AppStatus.SUCCESS);
 
     } catch (err: any) {
+      // Cancellation is reported by handleCancel; stale runs must not touch newer state
+      if (!isCurrentRun() || isAbortError(err)) return;
       console.error(err);
       setStatus(AppStatus.ERROR);
-      
-      const message = err.message || "An unexpected error occurred.";
-      setErrorMsg(message);
-
-      if (message.includes("403") || message.includes("permission")) {
-         if (window.aistudio && window.aistudio.openSelectKey) {
-             setErrorMsg("Permission Denied. Please select a valid paid API key.");
-             await window.aistudio.openSelectKey();
-         }
+      const classified = toGenerationError(err) as GenerationError;
+      setError(classified);
+
+      if (classified.kind === 'AUTH') {
+         await openKeySelection();
+      }
+    } finally {
+      if (isCurrentRun()) abortRef.current = null;
+    }
+  };
+
+  const resetRevisions = () => {
+    setRevisions([]);
+    setActiveRevisionId(null);
+    setRefineError(null);
+  };
+
+  const showRevision = (revision: PosterRevision) => {
+    setActiveRevisionId(revision.id);
+    setVariants([{ id: revision.id, status: 'SUCCESS', imageBase64: revision.imageBase64, historyId: revision.historyId }]);
+    setActiveHistoryId(revision.historyId ?? null);
+  };
+
+  // Produces a new revision from the active one (or the displayed image, which
+  // becomes the root). A failed edit keeps the current image on screen and
+  // reports inline instead of replacing it.
+  const runRevision = async (
+    instruction: string,
+    produce: (parentImage: string, context: ResultContext, options: ImageGenerationOptions) => Promise<string>
+  ) => {
+    const context = resultContextRef.current;
+    const current = variants[0];
+    if (!context || !current?.imageBase64) return;
+
+    let source = revisions.find(r => r.id === activeRevisionId);
+    if (!source) {
+      source = {
+        id: current.id,
+        parentId: null,
+        imageBase64: current.imageBase64,
+        instruction: null,
+        createdAt: Date.now(),
+        historyId: current.historyId,
+      };
+      setRevisions([source]);
+      setActiveRevisionId(source.id);
+    }
+    const parent = source;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const runId = ++runIdRef.current;
+    const isCurrentRun = () => runIdRef.current === runId;
+    const startedAt = Date.now();
+
+    setRefineError(null);
+    setIsRefining(true);
+    setStatus(AppStatus.GENERATING_IMAGE);
+
+    try {
+      const imageUrl = await produce(parent.imageBase64, context, {
+        textRenderMode: context.textRenderMode,
+        style: context.stylePreset,
+        layout: getLayoutTemplate(context.layoutId),
+        signal: controller.signal,
+      });
+      if (!isCurrentRun()) return;
+
+      const entry = await persistRun({
+        ...context,
+        imageBase64: imageUrl,
+        createdAt: startedAt,
+        completedAt: Date.now(),
+        parentId: parent.historyId,
+        refinementInstruction: instruction,
+      });
+      const revision: PosterRevision = {
+        id: entry?.id ?? `revision-${startedAt}`,
+        parentId: parent.id,
+        imageBase64: imageUrl,
+        instruction,
+        createdAt: startedAt,
+        historyId: entry?.id,
+      };
+      setRevisions(prev => [...prev, revision]);
+      showRevision(revision);
+      setStatus(AppStatus.SUCCESS);
+    } catch (err: any) {
+      if (!isCurrentRun() || isAbortError(err)) return;
+      console.error(err);
+      const classified = toGenerationError(err, 'image') as GenerationError;
+      setRefineError(classified.message);
+      setStatus(AppStatus.SUCCESS);
+
+      if (classified.kind === 'AUTH') {
+         await openKeySelection();
       }
+    } finally {
+      if (isCurrentRun()) {
+        abortRef.current = null;
+        setIsRefining(false);
+      }
+    }
+  };
+
+  const handleRefine = (instruction: string) =>
+    runRevision(instruction, (parentImage, context, options) =>
+      provider.refinePosterImage(parentImage, instruction, context.aspectRatio, context.imageSize, options)
+    );
+
+  // Only the painted region is taken from the model's answer; every other pixel
+  // is copied from the parent revision unchanged
+  const handleInpaint = (maskDataUrl: string, instruction: string) =>
+    runRevision(`Region: ${instruction}`, async (parentImage, context, options) => {
+      const modelMask = await toModelMask(maskDataUrl);
+      const edited = await provider.inpaintPosterImage(parentImage, modelMask, instruction, context.aspectRatio, context.imageSize, options);
+      return blendMaskedRegion(parentImage, edited, maskDataUrl);
+    });
+
+  // Narrow a batch down to one variant and start refining from it
+  const handleRefineVariant = (id: string) => {
+    const variant = variants.find(v => v.id === id);
+    if (!variant?.imageBase64) return;
+    resetRevisions();
+    setVariants([variant]);
+    setActiveHistoryId(variant.historyId ?? null);
+  };
+
+  const handleRetry = (forceAnalysis = false) => {
+    if (lastInputRef.current) {
+      handleGenerate({ ...lastInputRef.current, forceAnalysis });
+    }
+  };
+
+  const handleCancel = () => {
+    if (!abortRef.current) return;
+    abortRef.current.abort();
+    abortRef.current = null;
+    // Invalidate the run so late responses are ignored
+    runIdRef.current++;
+
+    setVariants(prev => prev.map(v =>
+      v.status === 'PENDING' || v.status === 'GENERATING'
+        ? { ...v, status: 'ERROR', error: 'Cancelled' }
+        : v
+    ));
+    setIsRefining(false);
+    setStatus(AppStatus.CANCELLED);
+  };
+
+  // Persist a generated image; a storage failure must not hide the freshly generated poster
+  const persistRun = async (run: Omit<HistoryEntry, 'id'>): Promise<HistoryEntry | null> => {
+    try {
+      const entry = await saveHistoryEntry(run);
+      setHistory(prev => [entry, ...prev]);
+      setActiveHistoryId(entry.id);
+      return entry;
+    } catch (e) {
+      console.error("Failed to save history entry", e);
+      return null;
+    }
+  };
+
+  const handleToggleStar = (id: string) =>
+    setVariants(prev => prev.map(v => v.id === id ? { ...v, starred: !v.starred } : v));
+
+  // Show a stored image and the inputs behind it in the result and prompt panels.
+  // Without an image (e.g. an imported project file) only the prompt is shown.
+  const showStoredResult = (id: string, context: ResultContext, imageBase64: string | null, historyId?: string) => {
+    setError(null);
+    setVariants(imageBase64 ? [{ id, status: 'SUCCESS', imageBase64, historyId }] : []);
+    setTextRenderMode(context.textRenderMode ?? 'model');
+    setResultLayoutId(context.layoutId);
+    setPromptData(context.promptData);
+    setOriginalPromptData(context.promptData);
+    setPromptFromCache(false);
+    setActiveHistoryId(historyId ?? null);
+    resetRevisions();
+    resultContextRef.current = context;
+    setStatus(imageBase64 ? AppStatus.SUCCESS : AppStatus.IDLE);
+  };
+
+  // Show a past run in the result and prompt panels
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    const { id, createdAt, completedAt, imageBase64, ...context } = entry;
+    showStoredResult(id, context, imageBase64, id);
+  };
+
+  // Additionally push the run's inputs back into InputSection. The restored prompt
+  // is treated as the result of analysing those inputs, so Generate skips Step 1.
+  const handleRestoreHistory = (entry: HistoryEntry) => {
+    handleOpenHistory(entry);
+    restoreInputs(entry, getEntryReferences(entry));
+  };
+
+  const restoreInputs = (context: ResultContext, references: ReferenceImage[]) => {
+    setRestoreSnapshot({
+      text: context.inputText,
+      references,
+      aspectRatio: context.aspectRatio,
+      imageSize: context.imageSize,
+      stylePresetId: context.stylePreset?.id,
+      layoutId: context.layoutId,
+      language: context.language,
+      searchMode: context.searchMode,
+    });
+    promptCacheKey({
+      providerId: provider.id,
+      text: context.inputText,
+      references,
+      locale: navigator.language,
+      style: context.stylePreset,
+      layoutId: context.layoutId,
+      language: context.language,
+      searchMode: context.searchMode,
+      templates: promptTemplates,
+    })
+      .then(setLastAnalysisKey)
+      .catch(e => console.error("Failed to hash restored inputs", e));
+  };
+
+  // Load an exported PNG or .json project file like a restored history entry.
+  // PNGs carry no reference images; project files do.
+  const handleImportPoster = async (file: File) => {
+    try {
+      const { provenance, imageDataUrl } = await readProvenanceFile(file);
+      const { input } = provenance;
+      const references = input.references ?? [];
+      // A custom preset from another browser is added so the snapshot can select it
+      if (input.stylePreset && !input.stylePreset.builtIn && !customStyles.some(p => p.id === input.stylePreset?.id)) {
+        await handleSaveStyle(input.stylePreset);
+      }
+      const context = { ...toResultContext({ ...input, references }, provenance.prompt), templateVersions: provenance.templateVersions };
+      // A flattened export already shows its text; overlaying it again would double it
+      const shown = provenance.textFlattened ? { ...context, textRenderMode: 'model' as const } : context;
+      showStoredResult(`import-${Date.now()}`, shown, imageDataUrl);
+      restoreInputs(context, references);
+    } catch (e: any) {
+      console.error("Failed to import poster", e);
+      setError(new GenerationError('PARSE', e?.message || 'Failed to import poster.'));
+    }
+  };
+
+  const handleDeleteHistory = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      setHistory(prev => prev.filter(e => e.id !== entry.id));
+      if (activeHistoryId === entry.id) setActiveHistoryId(null);
+    } catch (e) {
+      console.error("Failed to delete history entry", e);
     }
   };
 
+  // Storage failures are logged; the in-memory poster keeps running for this session
+  const persistLivingPoster = (poster: LivingPoster) => {
+    setLivingPosters(prev => prev.map(p => p.id === poster.id ? poster : p));
+    saveLivingPoster(poster).catch(e => console.error("Failed to save living poster", e));
+  };
+
+  const runLivingCheck = async (poster: LivingPoster) => {
+    if (livingAbortRef.current) return;
+    const controller = new AbortController();
+    livingAbortRef.current = controller;
+    setCheckingLivingId(poster.id);
+
+    let checked: LivingPoster;
+    try {
+      checked = await checkLivingPoster(provider, poster, navigator.language, {
+        templates: promptTemplatesRef.current,
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Living poster check failed", err);
+      checked = { ...poster, lastCheckedAt: Date.now(), lastError: (toGenerationError(err) as GenerationError).message };
+    } finally {
+      livingAbortRef.current = null;
+      setCheckingLivingId(null);
+    }
+
+    // Keep interval/pause changes made while the check was running; drop the result if the poster was unpinned
+    const latest = livingPostersRef.current.find(p => p.id === poster.id);
+    if (!latest) return;
+    persistLivingPoster({ ...latest, lastCheckedAt: checked.lastCheckedAt, lastError: checked.lastError, renders: checked.renders });
+  };
+
+  // Pin the displayed result; its image becomes the first render to diff against
+  const handlePinLivingPoster = async () => {
+    const context = resultContextRef.current;
+    if (!context?.promptData.liveData?.grounded) return;
+    const imageBase64 = variants.find(v => v.imageBase64)?.imageBase64;
+    try {
+      const poster = await createLivingPoster(
+        {
+          text: context.inputText,
+          references: context.references ?? [],
+          aspectRatio: context.aspectRatio,
+          imageSize: context.imageSize,
+          textRenderMode: context.textRenderMode,
+          stylePreset: context.stylePreset,
+          layoutId: context.layoutId,
+          language: context.language,
+          searchMode: 'on',
+        },
+        imageBase64 ? { createdAt: Date.now(), promptData: context.promptData, imageBase64 } : undefined
+      );
+      setLivingPosters(prev => [poster, ...prev]);
+    } catch (e) {
+      console.error("Failed to pin living poster", e);
+    }
+  };
+
+  const handleUpdateLivingPoster = (poster: LivingPoster, patch: Partial<Pick<LivingPoster, 'intervalMinutes' | 'enabled'>>) =>
+    persistLivingPoster({ ...poster, ...patch });
+
+  const handleDeleteLivingPoster = async (poster: LivingPoster) => {
+    if (checkingLivingId === poster.id) livingAbortRef.current?.abort();
+    try {
+      await deleteLivingPoster(poster.id);
+      setLivingPosters(prev => prev.filter(p => p.id !== poster.id));
+    } catch (e) {
+      console.error("Failed to delete living poster", e);
+    }
+  };
+
+  const handleOpenLivingRender = (poster: LivingPoster, render: LivingPosterRender) => {
+    const context = { ...toResultContext(poster.input, render.promptData), templateVersions: render.templateVersions };
+    showStoredResult(render.id, context, render.imageBase64);
+    setIsLivingPanelOpen(false);
+  };
+
+  const replaceTemplateRecord = (record: PromptTemplateRecord) =>
+    setTemplateRecords(prev => [...prev.filter(r => r.id !== record.id), record]);
+
+  const handleSaveTemplate = async (id: PromptTemplateId, body: string) =>
+    replaceTemplateRecord(await saveTemplateVersion(id, body, templateRecords.find(r => r.id === id)));
+
+  const handleActivateTemplate = async (id: PromptTemplateId, version: number) =>
+    replaceTemplateRecord(await activateTemplateVersion(id, version, templateRecords.find(r => r.id === id)));
+
+  // Imported bodies become new versions; identical ones are skipped
+  const handleImportTemplates = async (file: File) => {
+    const bodies = parseTemplateImport(await file.text());
+    let records = templateRecords;
+    for (const [id, body] of Object.entries(bodies) as [PromptTemplateId, string][]) {
+      if (promptTemplates[id].body === body) continue;
+      const record = await saveTemplateVersion(id, body, records.find(r => r.id === id));
+      records = [...records.filter(r => r.id !== id), record];
+    }
+    setTemplateRecords(records);
+  };
+
+  const handleExportTemplates = () =>
+    downloadBlob(new Blob([exportTemplateSet(promptTemplates)], { type: 'application/json' }), `miniature-templates-${Date.now()}.json`);
+
+  // Storage failures are logged; the in-memory experiment keeps its trials for this session
+  const persistExperiment = (experiment: Experiment) => {
+    setExperiments(prev => prev.map(e => e.id === experiment.id ? experiment : e));
+    saveExperiment(experiment).catch(e => console.error("Failed to save experiment", e));
+  };
+
+  const handleCreateExperiment = async () => {
+    try {
+      const experiment = await createExperiment(`Experiment ${experiments.length + 1}`);
+      setExperiments(prev => [experiment, ...prev]);
+      return experiment;
+    } catch (e) {
+      console.error("Failed to create experiment", e);
+    }
+  };
+
+  const handleDeleteExperiment = async (experiment: Experiment) => {
+    if (runningExperimentId === experiment.id) experimentAbortRef.current?.abort();
+    try {
+      await deleteExperiment(experiment.id);
+      setExperiments(prev => prev.filter(e => e.id !== experiment.id));
+    } catch (e) {
+      console.error("Failed to delete experiment", e);
+    }
+  };
+
+  const handleRunExperimentTrial = async (experiment: Experiment) => {
+    if (experimentAbortRef.current || experiment.inputs.length === 0) return;
+    const controller = new AbortController();
+    experimentAbortRef.current = controller;
+    setRunningExperimentId(experiment.id);
+    try {
+      const trial = await runExperimentTrial(provider, experiment, pickNextInput(experiment), templateRecords, navigator.language, {
+        signal: controller.signal,
+      });
+      // Drop the trial if the experiment was deleted meanwhile
+      const latest = experimentsRef.current.find(e => e.id === experiment.id);
+      if (latest) persistExperiment({ ...latest, trials: [...latest.trials, trial] });
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Experiment trial failed", err);
+    } finally {
+      experimentAbortRef.current = null;
+      setRunningExperimentId(null);
+    }
+  };
+
+  const handleVoteExperimentTrial = (experiment: Experiment, trialId: string, vote: ExperimentVote) =>
+    persistExperiment({ ...experiment, trials: experiment.trials.map(t => t.id === trialId ? { ...t, vote } : t) });
+
+  const handleSaveStyle = async (preset: Omit<StylePreset, 'id' | 'builtIn'> & { id?: string }) => {
+    const saved = await saveCustomStylePreset(preset);
+    setCustomStyles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    return saved;
+  };
+
+  const handleDeleteStyle = async (preset: StylePreset) => {
+    try {
+      await deleteCustomStylePreset(preset.id);
+      setCustomStyles(prev => prev.filter(p => p.id !== preset.id));
+    } catch (e) {
+      console.error("Failed to delete style preset", e);
+    }
+  };
+
+  // AI Studio has its own picker; elsewhere the key settings offer the user key and the proxy
   const openKeySelection = async () => {
       if (window.aistudio && window.aistudio.openSelectKey) {
           await window.aistudio.openSelectKey();
+          setKeySource(getActiveKeySource());
+      } else {
+          setIsKeySettingsOpen(true);
       }
   };
 
+  const recheckKeyProxy = async () => {
+    const available = await detectKeyProxy();
+    setProxyAvailable(available);
+    setKeySource(getActiveKeySource());
+    return available;
+  };
+
+  const handleSaveUserKey = (key: string) => {
+    saveUserApiKey(key);
+    setUserApiKey(readUserApiKey());
+    setKeySource(getActiveKeySource());
+  };
+
+  const handleClearUserKey = () => {
+    clearUserApiKey();
+    setUserApiKey(undefined);
+    setKeySource(getActiveKeySource());
+  };
+
   return (
     <div className="h-screen w-full bg-[#0d1117] text-gray-200 selection:bg-blue-500/30 flex flex-col relative overflow-hidden">
       {/* Background Ambience */}
@@ -115,23 +794,65 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-2xl font-bold tracking-tight text-white">Miniature World Generator</h1>
-              <p className="text-xs text-blue-300/80 font-medium tracking-wide uppercase">Powered by Gemini 3 Pro & Nano Banana Pro</p>
+              <p className="text-xs text-blue-300/80 font-medium tracking-wide uppercase">
+                {provider.id === 'gemini' ? 'Powered by Gemini 3 Pro & Nano Banana Pro' : `Provider: ${provider.label} (offline)`}
+              </p>
             </div>
           </div>
           
           <div className="flex items-center gap-4 self-end md:self-auto">
+             <button
+                onClick={() => setIsLivingPanelOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-800 hover:bg-gray-700 text-xs text-gray-400 hover:text-white transition-colors border border-gray-700"
+             >
+                <Radio size={12} className={checkingLivingId ? 'text-blue-400 animate-pulse' : undefined} />
+                <span>Living{livingPosters.length > 0 ? ` (${livingPosters.length})` : ''}</span>
+             </button>
+
+             <button
+                onClick={() => setIsExperimentPanelOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-800 hover:bg-gray-700 text-xs text-gray-400 hover:text-white transition-colors border border-gray-700"
+             >
+                <FlaskConical size={12} className={runningExperimentId ? 'text-blue-400 animate-pulse' : undefined} />
+                <span>Experiments</span>
+             </button>
+
+             <button
+                onClick={() => setIsTemplateEditorOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-800 hover:bg-gray-700 text-xs text-gray-400 hover:text-white transition-colors border border-gray-700"
+             >
+                <FileCode size={12} />
+                <span>Templates</span>
+             </button>
+
+             <label className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-800 hover:bg-gray-700 text-xs text-gray-400 hover:text-white transition-colors border border-gray-700 cursor-pointer" title="Open an exported poster (.png) or project file (.json)">
+                <FileUp size={12} />
+                <span>Import</span>
+                <input
+                  type="file"
+                  accept=".png,.json,image/png,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleImportPoster(file);
+                  }}
+                />
+             </label>
+
              <button 
-                onClick={openKeySelection}
+                onClick={() => setIsKeySettingsOpen(true)}
                 className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-gray-800 hover:bg-gray-700 text-xs text-gray-400 hover:text-white transition-colors border border-gray-700"
+                title={keySource ? `Using: ${KEY_SOURCE_LABELS[keySource]}` : 'No API key set'}
              >
-                <KeyRound size={12} />
+                <KeyRound size={12} className={!keySource && provider.id === 'gemini' ? 'text-yellow-400' : undefined} />
                 <span>API Key</span>
              </button>
 
-            {errorMsg && (
-                <div className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/30 text-red-400 rounded-lg text-sm animate-fade-in">
-                <AlertCircle size={16} />
-                {errorMsg}
+            {error && (
+                <div className="flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/30 text-red-400 rounded-lg text-sm animate-fade-in max-w-md">
+                <AlertCircle size={16} className="flex-shrink-0" />
+                <span className="truncate">{error.message}</span>
                 </div>
             )}
           </div>
@@ -146,22 +867,144 @@ const App: React.FC = () => {
             <InputSection 
                 status={status} 
                 onSubmit={handleGenerate} 
+                onCancel={handleCancel}
                 hasEngineeredPrompt={!!promptData}
+                hasEditedPrompt={isPromptEdited}
+                restoreSnapshot={restoreSnapshot}
+                stylePresets={[...BUILT_IN_STYLE_PRESETS, ...customStyles]}
+                onManageStyles={() => setIsStyleManagerOpen(true)}
             />
           </div>
 
           {/* Column 2: Prompt Engineering */}
           <div className="flex flex-col h-[400px] lg:h-full min-h-0 overflow-hidden">
-            <PromptDisplay status={status} promptData={promptData} />
+            <PromptDisplay
+                status={status}
+                promptData={promptData}
+                originalPromptData={originalPromptData}
+                onPromptChange={setPromptData}
+                fromCache={promptFromCache}
+            />
           </div>
 
-          {/* Column 3: Result */}
-          <div className="flex flex-col h-[400px] lg:h-full min-h-0 overflow-hidden">
-            <ImageResult status={status} imageBase64={resultImage} />
+          {/* Column 3: Result + History */}
+          <div className="flex flex-col gap-4 h-auto lg:h-full min-h-0 overflow-hidden">
+            <div className="h-[400px] lg:h-auto lg:flex-grow min-h-0">
+              {status === AppStatus.ERROR && error ? (
+                <ErrorPanel
+                  key={runIdRef.current}
+                  error={error}
+                  onRetry={handleRetry}
+                  onSelectKey={openKeySelection}
+                />
+              ) : (
+                <ImageResult
+                  status={status}
+                  variants={variants}
+                  onToggleStar={handleToggleStar}
+                  overlayText={textRenderMode === 'composite' && promptData && hasTextZones(resultLayout)
+                    ? {
+                        title: promptData.posterTitle,
+                        subtitle: promptData.posterSubtitle,
+                        zones: resultLayout,
+                        secondaryTitle: promptData.secondaryTitle,
+                        secondarySubtitle: promptData.secondarySubtitle,
+                      }
+                    : null}
+                  typography={typography}
+                  onTypographyChange={setTypography}
+                  revisions={revisions}
+                  activeRevisionId={activeRevisionId}
+                  onSelectRevision={showRevision}
+                  onRefine={handleRefine}
+                  onInpaint={handleInpaint}
+                  onRefineVariant={handleRefineVariant}
+                  isRefining={isRefining}
+                  refineError={refineError}
+                  provenance={resultContextRef.current && variants.some(v => v.imageBase64)
+                    ? buildProvenance(provider, resultContextRef.current)
+                    : null}
+                />
+              )}
+            </div>
+            <div className="h-[140px] flex-shrink-0">
+              <HistoryGallery
+                entries={history}
+                activeId={activeHistoryId}
+                onOpen={handleOpenHistory}
+                onRestore={handleRestoreHistory}
+                onDelete={handleDeleteHistory}
+              />
+            </div>
           </div>
 
         </main>
       </div>
+
+      {isStyleManagerOpen && (
+        <StylePresetManager
+          presets={[...BUILT_IN_STYLE_PRESETS, ...customStyles]}
+          onSave={handleSaveStyle}
+          onDelete={handleDeleteStyle}
+          onClose={() => setIsStyleManagerOpen(false)}
+        />
+      )}
+
+      {isTemplateEditorOpen && (
+        <PromptTemplateEditor
+          templates={promptTemplates}
+          records={templateRecords}
+          onSaveVersion={handleSaveTemplate}
+          onActivate={handleActivateTemplate}
+          onImport={handleImportTemplates}
+          onExport={handleExportTemplates}
+          onClose={() => setIsTemplateEditorOpen(false)}
+        />
+      )}
+
+      {isLivingPanelOpen && (
+        <LivingPosterPanel
+          posters={livingPosters}
+          checkingId={checkingLivingId}
+          canPin={!!promptData?.liveData?.grounded && variants.some(v => v.imageBase64)}
+          onPin={handlePinLivingPoster}
+          onUpdate={handleUpdateLivingPoster}
+          onCheckNow={runLivingCheck}
+          onDelete={handleDeleteLivingPoster}
+          onOpenRender={handleOpenLivingRender}
+          onClose={() => setIsLivingPanelOpen(false)}
+        />
+      )}
+
+      {isExperimentPanelOpen && (
+        <ExperimentPanel
+          experiments={experiments}
+          runningId={runningExperimentId}
+          templateRecords={templateRecords}
+          styles={[...BUILT_IN_STYLE_PRESETS, ...customStyles]}
+          models={provider.models}
+          onCreate={handleCreateExperiment}
+          onSave={persistExperiment}
+          onDelete={handleDeleteExperiment}
+          onRunTrial={handleRunExperimentTrial}
+          onVote={handleVoteExperimentTrial}
+          onClose={() => setIsExperimentPanelOpen(false)}
+        />
+      )}
+
+      {isKeySettingsOpen && (
+        <ApiKeySettings
+          source={keySource}
+          userKey={userApiKey}
+          proxyAvailable={proxyAvailable}
+          isAiStudio={!!window.aistudio}
+          onSaveKey={handleSaveUserKey}
+          onClearKey={handleClearUserKey}
+          onRecheckProxy={recheckKeyProxy}
+          onOpenAiStudio={openKeySelection}
+          onClose={() => setIsKeySettingsOpen(false)}
+        />
+      )}
     </div>
   );
 };
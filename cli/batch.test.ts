@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile, readdir, rename } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { runBatch, readBatchResults } from "./batch";
+import { BatchRow } from "./manifest";
+import { GenerationProvider } from "../types";
+
+vi.mock("node:fs/promises", async importOriginal => {
+  const actual = await importOriginal<typeof import("node:fs/promises")>();
+  return { ...actual, rename: vi.fn(actual.rename) };
+});
+
+const row = (id: string, text = `Poster ${id}`): BatchRow =>
+  ({ id, text, aspectRatio: "1:1", imageSize: "1K", locale: "en-US" });
+
+const fakeProvider = (failImageFor: string[] = []): GenerationProvider => ({
+  id: "mock",
+  label: "Fake",
+  models: { text: "fake-text", image: "fake-image" },
+  classifyIntent: vi.fn(async () => ({ category: "none" as const, entities: [] })),
+  engineerPrompt: vi.fn(async (text: string) => ({
+    posterTitle: `Title of ${text}`,
+    posterSubtitle: "Sub",
+    visualPrompt: text,
+    groundingSources: [{ title: "Source", uri: "https://example.com" }],
+  })),
+  generatePosterImage: vi.fn(async (prompt: string) => {
+    if (failImageFor.includes(prompt)) throw new Error("image failed");
+    return "data:image/png;base64,iVBORw==";
+  }),
+  refinePosterImage: vi.fn(),
+  inpaintPosterImage: vi.fn(),
+});
+
+describe("runBatch", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "batch-test-"));
+  });
+
+  afterEach(async () => {
+    vi.mocked(rename).mockReset();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("writes images and a results manifest with titles and sources", async () => {
+    await writeFile(path.join(dir, "ref.jpg"), Buffer.from([1, 2, 3]));
+    const provider = fakeProvider();
+    const summary = await runBatch(provider, [row("a"), { ...row("b"), reference: "ref.jpg" }], { outDir: path.join(dir, "out"), manifestDir: dir, concurrency: 2 });
+
+    expect(summary).toEqual({ done: 2, engineered: 0, failed: 0, skipped: 0 });
+    expect((await readdir(path.join(dir, "out"))).sort()).toEqual(["a.png", "b.png", "results.json"]);
+    const results = await readBatchResults(path.join(dir, "out"));
+    expect(results[0]).toMatchObject({ id: "a", status: "done", image: "a.png", posterTitle: "Title of Poster a", groundingSources: [{ title: "Source", uri: "https://example.com" }] });
+    expect(vi.mocked(provider.engineerPrompt).mock.calls[1][1]).toEqual([{ id: "b-reference", dataUrl: "data:image/jpeg;base64,AQID", role: "subject" }]);
+  });
+
+  it("only engineers prompts in a dry run", async () => {
+    const provider = fakeProvider();
+    const summary = await runBatch(provider, [row("a")], { outDir: dir, manifestDir: dir, concurrency: 1, dryRun: true });
+
+    expect(summary.engineered).toBe(1);
+    expect(provider.generatePosterImage).not.toHaveBeenCalled();
+    expect((await readBatchResults(dir))[0]).toMatchObject({ status: "engineered", posterTitle: "Title of Poster a" });
+  });
+
+  it("resumes: skips finished rows and reuses prompts of failed images", async () => {
+    const rows = [row("a"), row("b")];
+    const first = await runBatch(fakeProvider(["Poster b"]), rows, { outDir: dir, manifestDir: dir, concurrency: 1 });
+    expect(first).toEqual({ done: 1, engineered: 0, failed: 1, skipped: 0 });
+    expect((await readBatchResults(dir))[1]).toMatchObject({ status: "failed", error: "image failed", prompt: { posterTitle: "Title of Poster b" } });
+
+    const provider = fakeProvider();
+    const second = await runBatch(provider, rows, { outDir: dir, manifestDir: dir, concurrency: 1 });
+    expect(second).toEqual({ done: 1, engineered: 0, failed: 0, skipped: 1 });
+    expect(provider.engineerPrompt).not.toHaveBeenCalled();
+    expect(provider.generatePosterImage).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(await readFile(path.join(dir, "results.json"), "utf8")).rows.map((r: any) => r.status)).toEqual(["done", "done"]);
+  });
+
+  it("re-runs a row whose inputs changed", async () => {
+    await runBatch(fakeProvider(), [row("a")], { outDir: dir, manifestDir: dir, concurrency: 1 });
+    const provider = fakeProvider();
+    await runBatch(provider, [row("a", "Something else")], { outDir: dir, manifestDir: dir, concurrency: 1 });
+    expect(provider.engineerPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps going when a results write fails", async () => {
+    vi.mocked(rename).mockRejectedValueOnce(new Error("EBUSY"));
+    const log = vi.fn();
+    const summary = await runBatch(fakeProvider(), [row("a"), row("b")], { outDir: dir, manifestDir: dir, concurrency: 1, log });
+
+    expect(summary.done).toBe(2);
+    expect(log).toHaveBeenCalledWith("Could not update results.json: EBUSY");
+    expect((await readBatchResults(dir)).map(r => r.status)).toEqual(["done", "done"]);
+  });
+
+  it("fails after the run when the last results write fails", async () => {
+    vi.mocked(rename).mockRejectedValue(new Error("EACCES"));
+    const provider = fakeProvider();
+
+    await expect(runBatch(provider, [row("a"), row("b")], { outDir: dir, manifestDir: dir, concurrency: 1 })).rejects.toThrow("EACCES");
+    expect(provider.generatePosterImage).toHaveBeenCalledTimes(2);
+  });
+
+  it("records a missing reference as a failed row", async () => {
+    const summary = await runBatch(fakeProvider(), [{ ...row("a"), reference: "missing.png" }], { outDir: dir, manifestDir: dir, concurrency: 1 });
+    expect(summary.failed).toBe(1);
+    expect((await readBatchResults(dir))[0]).toMatchObject({ status: "failed", error: "Reference image not found: missing.png" });
+  });
+});
@@ -0,0 +1,240 @@
+import { mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { EngineeredPrompt, GenerationProvider, ProviderId, ProviderModels, ReferenceImage } from "../types";
+import { BatchRow } from "./manifest";
+import { engineerForInput, generateForInput, PipelineInput } from "../services/pipeline";
+import { getBuiltInStyle } from "../services/stylePresets";
+import { GenerationError, GenerationErrorKind, toGenerationError } from "../services/errors";
+import { runWithConcurrency } from "../utils/concurrency";
+import { isAbortError } from "../utils/abort";
+
+// ============================================================================
+// BATCH RUNNER
+// Processes manifest rows through the two-stage pipeline and records each row
+// in <outDir>/results.json as soon as it settles, so an interrupted or partly
+// failed run can be resumed: finished rows are skipped and rows whose prompt
+// was already engineered go straight to image generation.
+// ============================================================================
+
+export const RESULTS_FILE = "results.json";
+
+// 'engineered': prompt only (dry run). Failed rows keep their prompt when the image step failed.
+export type BatchRowStatus = "engineered" | "done" | "failed";
+
+export interface BatchRowResult {
+  id: string;
+  status: BatchRowStatus;
+  // The row as it was run; a changed row is re-run from scratch
+  input: BatchRow;
+  posterTitle?: string;
+  posterSubtitle?: string;
+  groundingSources?: { title: string; uri: string }[];
+  prompt?: EngineeredPrompt;
+  // Image file name inside the output directory
+  image?: string;
+  error?: string;
+  errorKind?: GenerationErrorKind;
+  completedAt: number;
+}
+
+export interface BatchResults {
+  provider: ProviderId;
+  models: ProviderModels;
+  updatedAt: number;
+  rows: BatchRowResult[];
+}
+
+export interface BatchOptions {
+  outDir: string;
+  // Reference paths are resolved against it
+  manifestDir: string;
+  concurrency: number;
+  // Only run prompt engineering
+  dryRun?: boolean;
+  // Ignore results of an earlier run
+  fresh?: boolean;
+  signal?: AbortSignal;
+  log?: (message: string) => void;
+}
+
+export interface BatchSummary {
+  done: number;
+  engineered: number;
+  failed: number;
+  skipped: number;
+}
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+};
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+const fileExists = (file: string) => stat(file).then(() => true, () => false);
+
+// References are sent as-is; the browser's downscaling needs a canvas
+const readReference = async (row: BatchRow, manifestDir: string): Promise<ReferenceImage[]> => {
+  if (!row.reference) return [];
+  const file = path.resolve(manifestDir, row.reference);
+  const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) throw new Error(`Unsupported reference image type: ${row.reference}`);
+  const data = await readFile(file).catch(() => {
+    throw new Error(`Reference image not found: ${row.reference}`);
+  });
+  return [{ id: `${row.id}-reference`, dataUrl: `data:${mimeType};base64,${data.toString("base64")}`, role: "subject" }];
+};
+
+const writeImage = async (outDir: string, id: string, dataUrl: string): Promise<string> => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) throw new Error("The provider returned an image that is not a base64 data URL.");
+  const name = `${id}.${EXTENSIONS[match[1]] ?? "png"}`;
+  await writeFile(path.join(outDir, name), Buffer.from(match[2], "base64"));
+  return name;
+};
+
+export const readBatchResults = async (outDir: string): Promise<BatchRowResult[]> => {
+  try {
+    const parsed = JSON.parse(await readFile(path.join(outDir, RESULTS_FILE), "utf8")) as BatchResults;
+    return Array.isArray(parsed.rows) ? parsed.rows : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const sameInput = (a: BatchRow, b: BatchRow) => JSON.stringify(a) === JSON.stringify(b);
+
+const toPipelineInput = (row: BatchRow, references: ReferenceImage[]): PipelineInput => ({
+  text: row.text,
+  references,
+  aspectRatio: row.aspectRatio,
+  imageSize: row.imageSize,
+  stylePreset: row.styleId ? getBuiltInStyle(row.styleId) : undefined,
+  searchMode: row.searchMode,
+});
+
+// ============================================================================
+// RUN
+// ============================================================================
+
+export const runBatch = async (
+  provider: GenerationProvider,
+  rows: BatchRow[],
+  options: BatchOptions
+): Promise<BatchSummary> => {
+  const { outDir, manifestDir, concurrency, dryRun = false, fresh = false, signal, log = () => {} } = options;
+  await mkdir(outDir, { recursive: true });
+
+  const previous = new Map((fresh ? [] : await readBatchResults(outDir)).map(r => [r.id, r]));
+  const results = new Map(previous);
+  const summary: BatchSummary = { done: 0, engineered: 0, failed: 0, skipped: 0 };
+
+  // Rows settle concurrently; writes are chained so results.json is never half-written.
+  // Each write holds every result so far, so a failed write is repaired by the next one;
+  // only a failure of the last write fails the run, once all rows are done.
+  let writing = Promise.resolve();
+  let writeError: unknown;
+  const record = (result: BatchRowResult) => {
+    results.set(result.id, result);
+    const snapshot: BatchResults = {
+      provider: provider.id,
+      models: provider.models,
+      updatedAt: Date.now(),
+      // Manifest order first, then rows from earlier runs that are no longer in the manifest
+      rows: [...rows.map(r => results.get(r.id)), ...[...results.values()].filter(r => !rows.some(row => row.id === r.id))]
+        .filter((r): r is BatchRowResult => !!r),
+    };
+    const file = path.join(outDir, RESULTS_FILE);
+    writing = writing.then(async () => {
+      try {
+        await writeFile(`${file}.tmp`, JSON.stringify(snapshot, null, 2));
+        await rename(`${file}.tmp`, file);
+        writeError = undefined;
+      } catch (err) {
+        writeError = err;
+        log(`Could not update ${RESULTS_FILE}: ${(err as Error)?.message ?? err}`);
+      }
+    });
+    return writing;
+  };
+
+  const processRow = async (row: BatchRow, index: number) => {
+    if (signal?.aborted) return;
+    const label = `[${index + 1}/${rows.length}] ${row.id}`;
+    const earlier = previous.get(row.id);
+    const reusable = earlier && sameInput(earlier.input, row) ? earlier : undefined;
+
+    if (reusable?.status === "done" && reusable.image && await fileExists(path.join(outDir, reusable.image))) {
+      summary.skipped++;
+      log(`${label}: already done`);
+      return;
+    }
+    if (dryRun && reusable?.prompt) {
+      summary.skipped++;
+      log(`${label}: prompt already engineered`);
+      return;
+    }
+
+    let prompt = reusable?.prompt;
+    try {
+      const input = toPipelineInput(row, await readReference(row, manifestDir));
+      if (!prompt) {
+        log(`${label}: engineering prompt`);
+        prompt = await engineerForInput(provider, input, row.locale, { signal });
+      }
+      const engineered = {
+        id: row.id,
+        input: row,
+        posterTitle: prompt.posterTitle,
+        posterSubtitle: prompt.posterSubtitle,
+        groundingSources: prompt.groundingSources,
+        prompt,
+      };
+      if (dryRun) {
+        summary.engineered++;
+        log(`${label}: "${prompt.posterTitle}"`);
+        await record({ ...engineered, status: "engineered", completedAt: Date.now() });
+        return;
+      }
+
+      log(`${label}: generating image`);
+      try {
+        const image = await writeImage(outDir, row.id, await generateForInput(provider, prompt, input, { signal }));
+        summary.done++;
+        log(`${label}: saved ${image}`);
+        await record({ ...engineered, status: "done", image, completedAt: Date.now() });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        // Keep the prompt so a resumed run only retries the image
+        const classified = toGenerationError(err) as GenerationError;
+        summary.failed++;
+        log(`${label}: failed: ${classified.message}`);
+        await record({ ...engineered, status: "failed", error: classified.message, errorKind: classified.kind, completedAt: Date.now() });
+      }
+    } catch (err) {
+      // A cancelled row is simply not recorded; resuming picks it up again
+      if (isAbortError(err)) return;
+      const classified = toGenerationError(err) as GenerationError;
+      summary.failed++;
+      log(`${label}: failed: ${classified.message}`);
+      await record({ id: row.id, status: "failed", input: row, error: classified.message, errorKind: classified.kind, completedAt: Date.now() });
+    }
+  };
+
+  await runWithConcurrency(rows.map((row, index) => () => processRow(row, index)), concurrency);
+  await writing;
+  if (writeError) throw writeError;
+  return summary;
+};
@@ -0,0 +1,101 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { GoogleGenAI } from "@google/genai";
+import { loadEnv } from "vite";
+import { setAiClientFactory } from "../services/geminiService";
+import { getProvider } from "../services/providers";
+import { parseManifest, ManifestError } from "./manifest";
+import { runBatch, RESULTS_FILE } from "./batch";
+
+// ============================================================================
+// BATCH CLI
+//   npm run batch -- <manifest.csv|json> [--out dir] [--concurrency n] [--dry-run] [--fresh] [--locale xx-YY]
+// Reads GEMINI_API_KEY (or API_KEY) from the environment or .env.local.
+// ============================================================================
+
+const USAGE = `Usage: npm run batch -- <manifest.csv|manifest.json> [options]
+
+Options:
+  -o, --out <dir>          Output directory (default: batch-output next to the manifest)
+  -c, --concurrency <n>    Rows processed at once (default: 2)
+      --dry-run            Only engineer prompts; no images are generated
+      --fresh              Ignore results from an earlier run instead of resuming
+      --locale <locale>    Locale for rows without one (default: en-US)
+  -h, --help               Show this help
+
+Manifest columns: text (required), id, reference, aspectRatio, imageSize, locale, search, style`;
+
+const DEFAULT_CONCURRENCY = 2;
+
+// Same files the Vite dev server reads; the process environment wins
+const readEnv = (name: string): string | undefined => loadEnv("development", process.cwd(), "")[name]?.trim() || undefined;
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o" },
+      concurrency: { type: "string", short: "c" },
+      "dry-run": { type: "boolean" },
+      fresh: { type: "boolean" },
+      locale: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const concurrency = values.concurrency ? Number(values.concurrency) : DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error(`--concurrency must be a positive integer, got "${values.concurrency}".`);
+    return 1;
+  }
+
+  const apiKey = readEnv("GEMINI_API_KEY") ?? readEnv("API_KEY");
+  if (!apiKey) {
+    console.error("Set GEMINI_API_KEY in the environment or .env.local to run the batch.");
+    return 1;
+  }
+  setAiClientFactory(() => new GoogleGenAI({ apiKey }));
+
+  const manifestPath = path.resolve(positionals[0]);
+  const format = path.extname(manifestPath).toLowerCase() === ".json" ? "json" : "csv";
+  const rows = parseManifest(await readFile(manifestPath, "utf8"), format, { locale: values.locale ?? "en-US" });
+  const outDir = path.resolve(values.out ?? path.join(path.dirname(manifestPath), "batch-output"));
+
+  // First Ctrl+C stops after the rows in flight are cancelled; the results so far stay resumable
+  const controller = new AbortController();
+  process.once("SIGINT", () => {
+    console.log("\nCancelling...");
+    controller.abort();
+  });
+
+  console.log(`${rows.length} rows → ${outDir}${values["dry-run"] ? " (dry run)" : ""}`);
+  const summary = await runBatch(getProvider("gemini"), rows, {
+    outDir,
+    manifestDir: path.dirname(manifestPath),
+    concurrency,
+    dryRun: values["dry-run"],
+    fresh: values.fresh,
+    signal: controller.signal,
+    log: message => console.log(message),
+  });
+
+  console.log(
+    `Done: ${summary.done} images, ${summary.engineered} prompts only, ${summary.failed} failed, ${summary.skipped} skipped. ` +
+    `Results in ${path.join(outDir, RESULTS_FILE)}`
+  );
+  return summary.failed > 0 || controller.signal.aborted ? 1 : 0;
+};
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(err instanceof ManifestError ? err.message : err);
+    process.exit(1);
+  }
+);
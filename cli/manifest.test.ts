@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, parseManifest, ManifestError } from "./manifest";
+
+const DEFAULTS = { locale: "en-US" };
+
+describe("parseCsv", () => {
+  it("handles quoted commas, newlines, escaped quotes and CRLF", () => {
+    expect(parseCsv('\uFEFFid,text\r\na,"one, ""two""\nthree"\r\n\r\nb,plain')).toEqual([
+      ["id", "text"],
+      ["a", 'one, "two"\nthree'],
+      ["b", "plain"],
+    ]);
+  });
+});
+
+describe("parseManifest", () => {
+  it("matches columns loosely and fills defaults", () => {
+    const rows = parseManifest("Text,Aspect Ratio,image_size,Search\nTokyo,16:9,2k,ON\nKyoto,,,", "csv", DEFAULTS);
+    expect(rows).toEqual([
+      { id: "row-1", text: "Tokyo", reference: undefined, aspectRatio: "16:9", imageSize: "2K", locale: "en-US", searchMode: "on", styleId: undefined },
+      { id: "row-2", text: "Kyoto", reference: undefined, aspectRatio: "9:16", imageSize: "1K", locale: "en-US", searchMode: undefined, styleId: undefined },
+    ]);
+  });
+
+  it("reads JSON arrays and { rows }", () => {
+    const row = { id: "a", text: "Harbor", reference: "refs/a.png", locale: "zh-CN", style: "voxel" };
+    expect(parseManifest(JSON.stringify([row]), "json", DEFAULTS)[0]).toMatchObject({ id: "a", reference: "refs/a.png", locale: "zh-CN", styleId: "voxel" });
+    expect(parseManifest(JSON.stringify({ rows: [row] }), "json", DEFAULTS)).toHaveLength(1);
+  });
+
+  it("reports every invalid row at once", () => {
+    const manifest = JSON.stringify([{ id: "a", text: "x" }, { id: "a", text: "" }, { text: "y", aspectRatio: "2:1", style: "oil" }]);
+    try {
+      parseManifest(manifest, "json", DEFAULTS);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ManifestError);
+      expect((e as ManifestError).issues).toEqual([
+        'Row 2: duplicate id "a".',
+        "Row 2: text is empty.",
+        expect.stringContaining('Row 3: aspect ratio "2:1"'),
+        expect.stringContaining('Row 3: style "oil"'),
+      ]);
+    }
+  });
+});
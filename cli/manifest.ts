@@ -0,0 +1,179 @@
+import { AspectRatio, ImageSize, SearchMode } from "../types";
+import { BUILT_IN_STYLE_PRESETS } from "../services/stylePresets";
+
+// ============================================================================
+// BATCH MANIFEST
+// One poster per row, from CSV (with a header row) or JSON (an array of rows,
+// or { "rows": [...] }). Only `text` is required; the rest falls back to the
+// UI defaults or the CLI flags.
+// ============================================================================
+
+export interface BatchRow {
+  // Names the output files and matches rows on resume
+  id: string;
+  text: string;
+  // Reference image path, relative to the manifest
+  reference?: string;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  locale: string;
+  searchMode?: SearchMode;
+  // Built-in style preset id
+  styleId?: string;
+}
+
+export class ManifestError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n  ${issues.join("\n  ")}` : message);
+    this.name = "ManifestError";
+  }
+}
+
+const ASPECT_RATIOS: AspectRatio[] = ["1:1", "3:4", "4:3", "9:16", "16:9"];
+const IMAGE_SIZES: ImageSize[] = ["1K", "2K", "4K"];
+const SEARCH_MODES: SearchMode[] = ["auto", "on", "off"];
+
+const DEFAULT_ASPECT_RATIO: AspectRatio = "9:16";
+const DEFAULT_IMAGE_SIZE: ImageSize = "1K";
+
+// Ids become file names
+const ID_PATTERN = /^[\w.-]+$/;
+
+// Column names are matched loosely: "Aspect Ratio", "aspect_ratio" and "aspectRatio" are the same
+const COLUMN_ALIASES: Record<string, keyof BatchRow> = {
+  id: "id",
+  text: "text",
+  prompt: "text",
+  reference: "reference",
+  image: "reference",
+  aspectratio: "aspectRatio",
+  aspect: "aspectRatio",
+  imagesize: "imageSize",
+  size: "imageSize",
+  locale: "locale",
+  search: "searchMode",
+  searchmode: "searchMode",
+  style: "styleId",
+  styleid: "styleId",
+};
+
+const normalizeColumn = (name: string) => name.toLowerCase().replace(/[\s_-]/g, "");
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+// RFC 4180: quoted fields may hold commas, newlines and "" for a quote
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no row
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const csvToRecords = (content: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  return rows.map(cells => Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ""])));
+};
+
+const jsonToRecords = (content: string): Record<string, unknown>[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    throw new ManifestError("The manifest is not valid JSON.");
+  }
+  const rows = Array.isArray(parsed) ? parsed : parsed?.rows;
+  if (!Array.isArray(rows)) throw new ManifestError('A JSON manifest must be an array of rows or { "rows": [...] }.');
+  return rows;
+};
+
+const padId = (index: number, count: number) => `row-${String(index + 1).padStart(String(count).length, "0")}`;
+
+// Validates every row and reports all problems at once
+export const parseManifest = (
+  content: string,
+  format: "csv" | "json",
+  defaults: { locale: string }
+): BatchRow[] => {
+  const records = format === "csv" ? csvToRecords(content) : jsonToRecords(content);
+  const issues: string[] = [];
+  const seen = new Set<string>();
+
+  const rows = records.map((record, index) => {
+    const fields: Partial<Record<keyof BatchRow, string>> = {};
+    if (record && typeof record === "object") {
+      Object.entries(record).forEach(([name, value]) => {
+        const column = COLUMN_ALIASES[normalizeColumn(name)];
+        if (column && value !== undefined && value !== null && String(value).trim()) fields[column] = String(value).trim();
+      });
+    }
+    const problem = (message: string) => issues.push(`Row ${index + 1}: ${message}`);
+
+    const id = fields.id || padId(index, records.length);
+    if (!ID_PATTERN.test(id)) problem(`id "${id}" may only contain letters, digits, ".", "_" and "-".`);
+    else if (seen.has(id)) problem(`duplicate id "${id}".`);
+    seen.add(id);
+
+    if (!fields.text) problem("text is empty.");
+    const aspectRatio = (fields.aspectRatio || DEFAULT_ASPECT_RATIO) as AspectRatio;
+    if (!ASPECT_RATIOS.includes(aspectRatio)) problem(`aspect ratio "${aspectRatio}" is not one of ${ASPECT_RATIOS.join(", ")}.`);
+    const imageSize = (fields.imageSize || DEFAULT_IMAGE_SIZE).toUpperCase() as ImageSize;
+    if (!IMAGE_SIZES.includes(imageSize)) problem(`image size "${fields.imageSize}" is not one of ${IMAGE_SIZES.join(", ")}.`);
+    const searchMode = fields.searchMode?.toLowerCase() as SearchMode | undefined;
+    if (searchMode && !SEARCH_MODES.includes(searchMode)) problem(`search "${fields.searchMode}" is not one of ${SEARCH_MODES.join(", ")}.`);
+    if (fields.styleId && !BUILT_IN_STYLE_PRESETS.some(p => p.id === fields.styleId)) {
+      problem(`style "${fields.styleId}" is not one of ${BUILT_IN_STYLE_PRESETS.map(p => p.id).join(", ")}.`);
+    }
+
+    return {
+      id,
+      text: fields.text ?? "",
+      reference: fields.reference,
+      aspectRatio,
+      imageSize,
+      locale: fields.locale || defaults.locale,
+      searchMode,
+      styleId: fields.styleId,
+    };
+  });
+
+  if (rows.length === 0) throw new ManifestError("The manifest has no rows.");
+  if (issues.length > 0) throw new ManifestError("The manifest has invalid rows:", issues);
+  return rows;
+};
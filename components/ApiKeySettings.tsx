@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { ApiKeySource, KEY_SOURCE_LABELS, KeyCheckResult, maskApiKey, validateApiKey, validateKeyProxy } from '../services/apiKeys';
+import { X, KeyRound, CheckCircle2, AlertCircle, Loader2, Trash2, Server, RefreshCw, ExternalLink } from 'lucide-react';
+
+interface ApiKeySettingsProps {
+  // Source Gemini calls currently use; null when there is none
+  source: ApiKeySource | null;
+  userKey: string | undefined;
+  proxyAvailable: boolean;
+  // Running inside AI Studio, which has its own key picker
+  isAiStudio: boolean;
+  onSaveKey: (key: string) => void;
+  onClearKey: () => void;
+  // Resolves with whether the proxy is up
+  onRecheckProxy: () => Promise<boolean>;
+  onOpenAiStudio: () => void;
+  onClose: () => void;
+}
+
+const CheckMessage: React.FC<{ result: KeyCheckResult | null; okText: string }> = ({ result, okText }) => {
+  if (!result) return null;
+  return result.ok ? (
+    <p className="flex items-center gap-1.5 text-emerald-400"><CheckCircle2 size={12} />{okText}</p>
+  ) : (
+    <p className="flex items-center gap-1.5 text-red-400"><AlertCircle size={12} />{result.message}</p>
+  );
+};
+
+const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({
+  source, userKey, proxyAvailable, isAiStudio, onSaveKey, onClearKey, onRecheckProxy, onOpenAiStudio, onClose
+}) => {
+  const [draft, setDraft] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [keyCheck, setKeyCheck] = useState<KeyCheckResult | null>(null);
+  const [proxyCheck, setProxyCheck] = useState<KeyCheckResult | null>(null);
+
+  // The key is only stored once Google accepts it
+  const handleSave = async () => {
+    setIsChecking(true);
+    const result = await validateApiKey(draft);
+    setIsChecking(false);
+    setKeyCheck(result);
+    if (result.ok) {
+      onSaveKey(draft.trim());
+      setDraft('');
+    }
+  };
+
+  const handleTestStored = async () => {
+    if (!userKey) return;
+    setIsChecking(true);
+    setKeyCheck(await validateApiKey(userKey));
+    setIsChecking(false);
+  };
+
+  const handleTestProxy = async () => {
+    setIsChecking(true);
+    const available = await onRecheckProxy();
+    setProxyCheck(available ? await validateKeyProxy() : { ok: false, message: 'The local proxy is not running.' });
+    setIsChecking(false);
+  };
+
+  const rowClass = 'rounded-lg border p-3 space-y-2';
+  const rowStateClass = (rowSource: ApiKeySource) =>
+    source === rowSource ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800/40 border-gray-700/50';
+  const activeBadge = (rowSource: ApiKeySource) => source === rowSource && (
+    <span className="ml-auto text-[10px] uppercase tracking-wide text-blue-300">In use</span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-2xl w-full max-w-lg max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-gray-700/50">
+          <div className="flex items-center gap-2 text-gray-200">
+            <KeyRound size={18} className="text-blue-400" />
+            <h2 className="font-bold">API Key</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md hover:bg-white/10 text-gray-400 hover:text-white" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-grow min-h-0 overflow-y-auto custom-scrollbar p-4 space-y-3 text-xs text-gray-400">
+          <p>
+            {source
+              ? <>Gemini calls use <span className="text-gray-200">{KEY_SOURCE_LABELS[source]}</span>. Sources are tried in the order below.</>
+              : <span className="text-yellow-400">No key is available. Enter your own key or start the local proxy.</span>}
+          </p>
+
+          {isAiStudio && (
+            <div className={`${rowClass} ${rowStateClass('aistudio')}`}>
+              <div className="flex items-center gap-2 text-sm text-white">
+                <ExternalLink size={14} />
+                <span>{KEY_SOURCE_LABELS.aistudio}</span>
+                {activeBadge('aistudio')}
+              </div>
+              <button onClick={onOpenAiStudio} className="px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+                Choose key in AI Studio
+              </button>
+            </div>
+          )}
+
+          <div className={`${rowClass} ${rowStateClass('user')}`}>
+            <div className="flex items-center gap-2 text-sm text-white">
+              <KeyRound size={14} />
+              <span>{KEY_SOURCE_LABELS.user}</span>
+              {activeBadge('user')}
+            </div>
+            <p>Stored only in this browser profile and sent straight to Google.</p>
+            {userKey && (
+              <div className="flex items-center gap-2">
+                <code className="px-2 py-1 rounded bg-black/30 border border-gray-700 text-gray-200">{maskApiKey(userKey)}</code>
+                <button onClick={handleTestStored} disabled={isChecking} className="px-2 py-1 rounded-md hover:bg-white/10 text-gray-300 disabled:opacity-40">
+                  Test
+                </button>
+                <button
+                  onClick={() => { onClearKey(); setKeyCheck(null); }}
+                  className="ml-auto flex items-center gap-1 px-2 py-1 rounded-md hover:bg-red-500/20 text-gray-300 hover:text-red-400"
+                >
+                  <Trash2 size={12} />
+                  <span>Clear</span>
+                </button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={draft}
+                onChange={(e) => { setDraft(e.target.value); setKeyCheck(null); }}
+                placeholder={userKey ? 'Replace with another key' : 'Paste a Gemini API key'}
+                autoComplete="off"
+                spellCheck={false}
+                className="flex-grow bg-black/30 rounded-md px-2 py-1.5 text-sm text-gray-200 outline-none border border-gray-700 focus:border-blue-500/60"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!draft.trim() || isChecking}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+              >
+                {isChecking && <Loader2 size={12} className="animate-spin" />}
+                <span>Validate & save</span>
+              </button>
+            </div>
+            <CheckMessage result={keyCheck} okText="The key works." />
+          </div>
+
+          <div className={`${rowClass} ${rowStateClass('proxy')}`}>
+            <div className="flex items-center gap-2 text-sm text-white">
+              <Server size={14} />
+              <span>{KEY_SOURCE_LABELS.proxy}</span>
+              {activeBadge('proxy')}
+            </div>
+            <p>
+              {proxyAvailable
+                ? 'The local API server holds a key and forwards the app\'s requests.'
+                : <>Not running. Start it with <code className="text-gray-300">npm run server</code> and GEMINI_API_KEY in .env.local.</>}
+            </p>
+            <button onClick={handleTestProxy} disabled={isChecking} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40">
+              <RefreshCw size={12} />
+              <span>{proxyAvailable ? 'Test' : 'Check again'}</span>
+            </button>
+            <CheckMessage result={proxyCheck} okText="The proxy's key works." />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, KeyRound, Clock, ShieldAlert, RefreshCw, WifiOff, FileWarning, ImageOff } from 'lucide-react';
+import { GenerationError, QuotaError, SafetyBlockError } from '../services/errors';
+import { PromptSchemaError } from '../services/promptSchema';
+
+interface ErrorPanelProps {
+  error: GenerationError;
+  onRetry: (forceAnalysis?: boolean) => void;
+  onSelectKey: () => void;
+}
+
+const STAGE_LABELS = { engineer: 'Prompt analysis', image: 'Image generation' };
+
+const useCountdown = (durationMs: number) => {
+  const [deadline] = useState(() => Date.now() + durationMs);
+  const [remaining, setRemaining] = useState(durationMs);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const left = Math.max(0, deadline - Date.now());
+      setRemaining(left);
+      if (left === 0) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return Math.ceil(remaining / 1000);
+};
+
+const QuotaPanel: React.FC<{ error: QuotaError; onRetry: () => void }> = ({ error, onRetry }) => {
+  const seconds = useCountdown(error.retryAfterMs);
+  return (
+    <>
+      <p className="text-sm text-gray-400">
+        The API is rate limiting this key. Requests will be accepted again shortly; batch runs with many variants use quota fastest.
+      </p>
+      <button
+        onClick={onRetry}
+        disabled={seconds > 0}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm transition-colors"
+      >
+        {seconds > 0 ? <Clock size={16} /> : <RefreshCw size={16} />}
+        <span>{seconds > 0 ? `Retry in ${seconds}s` : 'Retry now'}</span>
+      </button>
+    </>
+  );
+};
+
+const RetryButton: React.FC<{ label?: string; onClick: () => void }> = ({ label = 'Try again', onClick }) => (
+  <button
+    onClick={onClick}
+    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-200 text-sm border border-gray-700 transition-colors"
+  >
+    <RefreshCw size={16} />
+    <span>{label}</span>
+  </button>
+);
+
+// Kind-specific recovery guidance for a failed run
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, onRetry, onSelectKey }) => {
+  const stage = error.stage ? STAGE_LABELS[error.stage] : 'Generation';
+
+  let icon = <AlertCircle size={28} />;
+  let title = `${stage} failed`;
+  let body: React.ReactNode;
+
+  switch (error.kind) {
+    case 'AUTH':
+      icon = <KeyRound size={28} />;
+      title = 'API key problem';
+      body = (
+        <>
+          <p className="text-sm text-gray-400">
+            The key was rejected or does not have access to this model. The image model requires a key from a paid Google Cloud project.
+          </p>
+          <button
+            onClick={onSelectKey}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm transition-colors"
+          >
+            <KeyRound size={16} />
+            <span>Select API Key</span>
+          </button>
+        </>
+      );
+      break;
+
+    case 'QUOTA':
+      icon = <Clock size={28} />;
+      title = 'Rate limit reached';
+      body = <QuotaPanel error={error as QuotaError} onRetry={() => onRetry()} />;
+      break;
+
+    case 'SAFETY':
+      icon = <ShieldAlert size={28} />;
+      title = 'Blocked by safety filters';
+      body = (
+        <>
+          <p className="text-sm text-gray-400">
+            {stage} stopped with reason <span className="font-mono text-yellow-400">{(error as SafetyBlockError).finishReason}</span>. Try:
+          </p>
+          <ul className="text-sm text-gray-400 list-disc pl-5 space-y-1 text-left">
+            <li>Rephrasing the idea without real people, brands or violent terms</li>
+            <li>Using a different reference image</li>
+            <li>Editing the visual description and generating from your edits</li>
+          </ul>
+          <RetryButton onClick={() => onRetry()} />
+        </>
+      );
+      break;
+
+    case 'PARSE':
+      icon = <FileWarning size={28} />;
+      title = 'Unusable prompt from the model';
+      body = (
+        <>
+          <p className="text-sm text-gray-400">
+            The engineered prompt did not match the expected format
+            {error instanceof PromptSchemaError && error.field ? <> (field <span className="font-mono text-yellow-400">{error.field}</span>)</> : null}.
+            Running the analysis again usually fixes this.
+          </p>
+          <RetryButton label="Re-run analysis" onClick={() => onRetry(true)} />
+        </>
+      );
+      break;
+
+    case 'EMPTY_RESPONSE':
+      title = 'Empty response';
+      body = (
+        <>
+          <p className="text-sm text-gray-400">The model returned nothing. Simplify the idea or try a different reference image.</p>
+          <RetryButton onClick={() => onRetry()} />
+        </>
+      );
+      break;
+
+    case 'NO_IMAGE':
+      icon = <ImageOff size={28} />;
+      title = 'No image returned';
+      body = (
+        <>
+          <p className="text-sm text-gray-400">The image model answered with text only. Retrying or shortening the visual description usually helps.</p>
+          <RetryButton onClick={() => onRetry()} />
+        </>
+      );
+      break;
+
+    case 'NETWORK':
+      icon = <WifiOff size={28} />;
+      title = 'Connection problem';
+      body = (
+        <>
+          <p className="text-sm text-gray-400">The AI service could not be reached. Check your network connection.</p>
+          <RetryButton onClick={() => onRetry()} />
+        </>
+      );
+      break;
+
+    default:
+      body = (
+        <>
+          <p className="text-sm text-gray-400 break-words">{error.message}</p>
+          <RetryButton onClick={() => onRetry()} />
+        </>
+      );
+  }
+
+  return (
+    <div className="h-full w-full glass-panel rounded-2xl flex flex-col items-center justify-center p-8 text-center overflow-y-auto custom-scrollbar">
+      <div className="w-14 h-14 rounded-full bg-red-500/10 border border-red-500/30 text-red-400 flex items-center justify-center mb-4 flex-shrink-0">
+        {icon}
+      </div>
+      <h3 className="text-lg font-bold text-white mb-3">{title}</h3>
+      <div className="flex flex-col items-center gap-4 max-w-sm">{body}</div>
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import { AspectRatio, Experiment, ExperimentConfig, ExperimentResult, ExperimentVote, ImageSize, LayoutTemplateId, ProviderModels, PromptTemplateRecord, StylePreset } from '../types';
+import { PROMPT_TEMPLATES, BUILT_IN_TEMPLATE_VERSION, formatTemplateVersion } from '../services/promptTemplates';
+import { LAYOUT_TEMPLATES } from '../services/layoutTemplates';
+import { aggregateWinRates, ConfigScore } from '../services/experiments';
+import { X, FlaskConical, Plus, Trash2, Play, Loader2, AlertCircle, Save, RotateCcw } from 'lucide-react';
+
+interface ExperimentPanelProps {
+  experiments: Experiment[];
+  // Experiment whose trial is rendering, if any
+  runningId: string | null;
+  templateRecords: PromptTemplateRecord[];
+  styles: StylePreset[];
+  models: ProviderModels;
+  onCreate: () => Promise<Experiment | undefined>;
+  onSave: (experiment: Experiment) => void;
+  onDelete: (experiment: Experiment) => void;
+  onRunTrial: (experiment: Experiment) => void;
+  onVote: (experiment: Experiment, trialId: string, vote: ExperimentVote) => void;
+  onClose: () => void;
+}
+
+type Tab = 'setup' | 'rate' | 'results';
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+
+const FIELD_CLASS = 'w-full bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none focus:border-blue-500/60 disabled:opacity-50';
+
+const formatRate = (score: ConfigScore) => score.winRate === null ? '—' : `${Math.round(score.winRate * 100)}%`;
+
+const ConfigEditor: React.FC<{
+  config: ExperimentConfig;
+  records: PromptTemplateRecord[];
+  models: ProviderModels;
+  disabled: boolean;
+  onChange: (config: ExperimentConfig) => void;
+}> = ({ config, records, models, disabled, onChange }) => (
+  <div className="rounded-lg border border-gray-700/50 bg-gray-800/40 p-3 space-y-2">
+    <input value={config.name} disabled={disabled} onChange={(e) => onChange({ ...config, name: e.target.value })} className={`${FIELD_CLASS} font-medium`} />
+    {PROMPT_TEMPLATES.map(template => (
+      <label key={template.id} className="flex items-center justify-between gap-2">
+        <span className="truncate">{template.name}</span>
+        <select
+          value={config.templateVersions[template.id] ?? BUILT_IN_TEMPLATE_VERSION}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...config, templateVersions: { ...config.templateVersions, [template.id]: Number(e.target.value) } })}
+          className="bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none disabled:opacity-50"
+        >
+          <option value={BUILT_IN_TEMPLATE_VERSION}>Built-in</option>
+          {(records.find(r => r.id === template.id)?.versions ?? []).map(v => (
+            <option key={v.version} value={v.version}>{formatTemplateVersion(v.version)}</option>
+          ))}
+        </select>
+      </label>
+    ))}
+    <input value={config.textModel ?? ''} disabled={disabled} placeholder={`Text model (${models.text})`} onChange={(e) => onChange({ ...config, textModel: e.target.value.trim() || undefined })} className={FIELD_CLASS} />
+    <input value={config.imageModel ?? ''} disabled={disabled} placeholder={`Image model (${models.image})`} onChange={(e) => onChange({ ...config, imageModel: e.target.value.trim() || undefined })} className={FIELD_CLASS} />
+    <textarea
+      value={(config.styleModifiers ?? []).join('\n')}
+      disabled={disabled}
+      placeholder="Style modifiers, one per line (the style's own when empty)"
+      rows={3}
+      onChange={(e) => {
+        const lines = e.target.value.split('\n');
+        onChange({ ...config, styleModifiers: lines.some(l => l.trim()) ? lines : undefined });
+      }}
+      className={`${FIELD_CLASS} resize-none custom-scrollbar`}
+    />
+  </div>
+);
+
+const ResultImage: React.FC<{ result: ExperimentResult; label: string }> = ({ result, label }) => (
+  <div className="flex flex-col gap-2 min-h-0">
+    <div className="flex-grow min-h-0 rounded-lg border border-gray-700/50 bg-black/30 flex items-center justify-center overflow-hidden">
+      {result.imageBase64 ? (
+        <img src={result.imageBase64} alt={label} className="max-w-full max-h-full object-contain" />
+      ) : (
+        <p className="flex items-center gap-1.5 p-4 text-red-400"><AlertCircle size={14} />{result.error || 'No image'}</p>
+      )}
+    </div>
+    <p className="text-center text-gray-300">{label}</p>
+  </div>
+);
+
+const ExperimentPanel: React.FC<ExperimentPanelProps> = ({
+  experiments, runningId, templateRecords, styles, models, onCreate, onSave, onDelete, onRunTrial, onVote, onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(experiments[0]?.id ?? null);
+  const [tab, setTab] = useState<Tab>('setup');
+  const [draft, setDraft] = useState<Experiment | null>(null);
+  const [inputsText, setInputsText] = useState('');
+  // Trial whose config names are shown after voting
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+
+  const selected = experiments.find(e => e.id === selectedId) ?? experiments[0];
+
+  // Switching experiments discards the draft
+  useEffect(() => {
+    setDraft(selected ?? null);
+    setInputsText(selected?.inputs.join('\n') ?? '');
+    setRevealedId(null);
+  }, [selected?.id]);
+
+  const handleCreate = async () => {
+    const experiment = await onCreate();
+    if (experiment) {
+      setSelectedId(experiment.id);
+      setTab('setup');
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !selected) return;
+    // Trials may have been added since the draft was taken
+    onSave({ ...draft, trials: selected.trials, inputs: inputsText.split('\n').map(line => line.trim()).filter(Boolean) });
+  };
+
+  const isRunning = runningId === selected?.id;
+  const hasTrials = !!selected && selected.trials.length > 0;
+  const pending = selected?.trials.find(t => t.vote === undefined);
+  const revealed = selected?.trials.find(t => t.id === revealedId);
+  const shown = pending ?? revealed;
+  const scores = selected ? aggregateWinRates(selected) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-gray-700/50">
+          <div className="flex items-center gap-2 text-gray-200">
+            <FlaskConical size={18} className="text-blue-400" />
+            <h2 className="font-bold">Experiments</h2>
+            <span className="text-xs text-gray-500">Blind A/B rating of two prompt configurations</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={handleCreate} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-xs text-white">
+              <Plus size={12} />
+              <span>New experiment</span>
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-md hover:bg-white/10 text-gray-400 hover:text-white" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {!selected || !draft ? (
+          <div className="p-10 text-center text-sm text-gray-500">
+            Create an experiment to compare two template versions, models or style modifiers on the same test inputs.
+          </div>
+        ) : (
+          <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4 p-4 overflow-hidden">
+            {/* Experiment list */}
+            <div className="min-h-0 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+              {experiments.map(experiment => (
+                <div
+                  key={experiment.id}
+                  onClick={() => setSelectedId(experiment.id)}
+                  className={`rounded-lg border p-3 cursor-pointer ${experiment.id === selected.id ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800/40 border-gray-700/50 hover:border-gray-600'}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-white truncate">{experiment.name}</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onDelete(experiment); }}
+                      className="p-1 rounded text-gray-400 hover:bg-red-500/20 hover:text-red-400 flex-shrink-0"
+                      title="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {experiment.inputs.length} inputs · {experiment.trials.filter(t => t.vote !== undefined).length} votes
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="min-h-0 flex flex-col gap-3 text-xs text-gray-400">
+              <div className="flex items-center gap-1">
+                {(['setup', 'rate', 'results'] as Tab[]).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => setTab(t)}
+                    className={`px-3 py-1.5 rounded-md capitalize ${tab === t ? 'bg-blue-600 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+                  >
+                    {t}
+                  </button>
+                ))}
+              </div>
+
+              {tab === 'setup' && (
+                <div className="flex-grow min-h-0 overflow-y-auto custom-scrollbar space-y-3 pr-1">
+                  {hasTrials && (
+                    <p className="flex items-center gap-2 text-yellow-400">
+                      <AlertCircle size={12} />
+                      <span>Configurations are locked once trials exist, so votes keep meaning the same thing.</span>
+                      <button
+                        onClick={() => onSave({ ...selected, trials: [] })}
+                        className="ml-auto flex items-center gap-1 px-2 py-1 rounded-md hover:bg-white/10 text-gray-300"
+                      >
+                        <RotateCcw size={12} />
+                        <span>Clear trials</span>
+                      </button>
+                    </p>
+                  )}
+                  <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${FIELD_CLASS} text-sm font-medium`} />
+                  <textarea
+                    value={inputsText}
+                    disabled={hasTrials}
+                    onChange={(e) => setInputsText(e.target.value)}
+                    placeholder="Test inputs, one per line"
+                    rows={5}
+                    className={`${FIELD_CLASS} resize-none custom-scrollbar`}
+                  />
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <select value={draft.aspectRatio} disabled={hasTrials} onChange={(e) => setDraft({ ...draft, aspectRatio: e.target.value as AspectRatio })} className={FIELD_CLASS}>
+                      {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                    </select>
+                    <select value={draft.imageSize} disabled={hasTrials} onChange={(e) => setDraft({ ...draft, imageSize: e.target.value as ImageSize })} className={FIELD_CLASS}>
+                      {IMAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                    </select>
+                    <select
+                      value={draft.stylePreset?.id ?? ''}
+                      disabled={hasTrials}
+                      onChange={(e) => setDraft({ ...draft, stylePreset: styles.find(s => s.id === e.target.value) })}
+                      className={FIELD_CLASS}
+                    >
+                      <option value="">No style</option>
+                      {styles.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                    </select>
+                    <select
+                      value={draft.layoutId ?? ''}
+                      disabled={hasTrials}
+                      onChange={(e) => setDraft({ ...draft, layoutId: (e.target.value || undefined) as LayoutTemplateId | undefined })}
+                      className={FIELD_CLASS}
+                    >
+                      <option value="">Default layout</option>
+                      {LAYOUT_TEMPLATES.map(layout => <option key={layout.id} value={layout.id}>{layout.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {draft.configs.map((config, index) => (
+                      <ConfigEditor
+                        key={index}
+                        config={config}
+                        records={templateRecords}
+                        models={models}
+                        disabled={hasTrials}
+                        onChange={(next) => setDraft({
+                          ...draft,
+                          configs: index === 0 ? [next, draft.configs[1]] : [draft.configs[0], next],
+                        })}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-end">
+                    <button onClick={handleSave} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white">
+                      <Save size={12} />
+                      <span>Save</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {tab === 'rate' && (
+                <div className="flex-grow min-h-0 flex flex-col gap-3">
+                  {shown ? (
+                    <>
+                      <p className="text-sm text-gray-200 truncate">“{selected.inputs[shown.inputIndex]}”</p>
+                      <div className="flex-grow min-h-0 grid grid-cols-2 gap-3">
+                        {([shown.leftConfig, 1 - shown.leftConfig] as (0 | 1)[]).map((configIndex, side) => (
+                          <ResultImage
+                            key={side}
+                            result={shown.results[configIndex]}
+                            label={shown.vote === undefined ? (side === 0 ? 'Left' : 'Right') : selected.configs[configIndex].name}
+                          />
+                        ))}
+                      </div>
+                      {shown.vote === undefined ? (
+                        <div className="flex justify-center gap-2">
+                          {([['Left is better', shown.leftConfig], ['Tie', 'tie'], ['Right is better', 1 - shown.leftConfig]] as [string, ExperimentVote][]).map(([label, vote]) => (
+                            <button
+                              key={label}
+                              onClick={() => { onVote(selected, shown.id, vote); setRevealedId(shown.id); }}
+                              className="px-4 py-2 rounded-md bg-gray-800 hover:bg-blue-600 border border-gray-700 text-gray-200 hover:text-white"
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="flex justify-center">
+                          <button
+                            onClick={() => { setRevealedId(null); onRunTrial(selected); }}
+                            disabled={!!runningId}
+                            className="flex items-center gap-1.5 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+                          >
+                            <Play size={12} />
+                            <span>Next trial</span>
+                          </button>
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="flex-grow flex flex-col items-center justify-center gap-3 text-sm text-gray-500">
+                      {isRunning ? (
+                        <p className="flex items-center gap-2"><Loader2 size={16} className="animate-spin" />Rendering both configurations...</p>
+                      ) : (
+                        <>
+                          <p>{selected.inputs.length === 0 ? 'Add test inputs in Setup first.' : 'Each trial renders one test input with both configurations.'}</p>
+                          <button
+                            onClick={() => onRunTrial(selected)}
+                            disabled={!!runningId || selected.inputs.length === 0}
+                            className="flex items-center gap-1.5 px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-xs text-white"
+                          >
+                            <Play size={12} />
+                            <span>Run trial</span>
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {tab === 'results' && scores && (
+                <div className="flex-grow min-h-0 overflow-y-auto custom-scrollbar space-y-4 pr-1">
+                  <div className="grid grid-cols-2 gap-3">
+                    {scores.overall.map((score, index) => (
+                      <div key={index} className="rounded-lg border border-gray-700/50 bg-gray-800/40 p-3">
+                        <p className="text-sm font-medium text-white truncate">{selected.configs[index].name}</p>
+                        <p className="text-2xl font-bold text-blue-300 mt-1">{formatRate(score)}</p>
+                        <p className="mt-1">{score.wins} wins · {score.losses} losses · {score.ties} ties</p>
+                      </div>
+                    ))}
+                  </div>
+                  <table className="w-full text-left">
+                    <thead className="text-gray-500">
+                      <tr>
+                        <th className="py-1 font-normal">Input</th>
+                        <th className="py-1 font-normal w-28">{selected.configs[0].name}</th>
+                        <th className="py-1 font-normal w-28">{selected.configs[1].name}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selected.inputs.map((input, index) => (
+                        <tr key={index} className="border-t border-gray-800">
+                          <td className="py-1 pr-2 text-gray-300 truncate max-w-0 w-full">{input}</td>
+                          <td className="py-1">{formatRate(scores.byInput[index][0])}</td>
+                          <td className="py-1">{formatRate(scores.byInput[index][1])}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-gray-500">Win rate counts ties as half a win.</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentPanel;
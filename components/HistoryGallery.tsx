@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../types';
+import { History, Download, Trash2, RotateCcw, Columns2, X } from 'lucide-react';
+import { downloadDataUrl } from '../utils/download';
+import { describeTemplateVersions } from '../services/promptTemplates';
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[];
+  activeId: string | null;
+  onOpen: (entry: HistoryEntry) => void;
+  onRestore: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+}
+
+const formatTimestamp = (ts: number) =>
+  new Date(ts).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ entries, activeId, onOpen, onRestore, onDelete }) => {
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const compareEntries = compareIds
+    .map(id => entries.find(e => e.id === id))
+    .filter((e): e is HistoryEntry => !!e);
+
+  const toggleCompareMode = () => {
+    setCompareMode(!compareMode);
+    setCompareIds([]);
+  };
+
+  const handleThumbnailClick = (entry: HistoryEntry) => {
+    if (!compareMode) {
+      onOpen(entry);
+      return;
+    }
+    // Keep at most two selections, dropping the oldest
+    setCompareIds(prev =>
+      prev.includes(entry.id)
+        ? prev.filter(id => id !== entry.id)
+        : [...prev, entry.id].slice(-2)
+    );
+  };
+
+  const handleDownload = (entry: HistoryEntry) => {
+    downloadDataUrl(entry.imageBase64, `gemini-miniature-${entry.completedAt}.png`);
+  };
+
+  return (
+    <div className="h-full w-full glass-panel rounded-2xl p-3 flex flex-col min-h-0">
+      <div className="flex-shrink-0 flex items-center justify-between mb-2 text-gray-400">
+        <div className="flex items-center gap-2">
+          <History size={14} />
+          <span className="text-xs font-medium uppercase tracking-wider">History ({entries.length})</span>
+        </div>
+        {entries.length > 1 && (
+          <button
+            onClick={toggleCompareMode}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-colors ${compareMode ? 'bg-blue-600 text-white' : 'hover:bg-white/10'}`}
+            title="Select two runs to compare"
+          >
+            <Columns2 size={12} />
+            <span>{compareMode ? `Compare ${compareIds.length}/2` : 'Compare'}</span>
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex-grow flex items-center justify-center text-xs text-gray-600">
+          Past generations will be kept here
+        </div>
+      ) : (
+        <div className="flex-grow min-h-0 flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+          {entries.map(entry => {
+            const isActive = entry.id === activeId;
+            const isCompared = compareIds.includes(entry.id);
+            return (
+              <div
+                key={entry.id}
+                className={`group relative flex-shrink-0 h-full aspect-square rounded-lg overflow-hidden bg-black/40 border-2 cursor-pointer transition-colors
+                  ${isCompared ? 'border-blue-500' : isActive ? 'border-purple-500/70' : 'border-transparent hover:border-gray-600'}
+                `}
+                onClick={() => handleThumbnailClick(entry)}
+                title={`${entry.promptData.posterTitle} — ${formatTimestamp(entry.completedAt)}`}
+              >
+                <img src={entry.imageBase64} alt={entry.promptData.posterTitle} className="w-full h-full object-cover" />
+
+                {!compareMode && (
+                  <div className="absolute inset-0 bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-between p-1.5">
+                    <div className="text-[10px] leading-tight text-white truncate">{entry.promptData.posterTitle}</div>
+                    <div className="flex justify-between">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onRestore(entry); }}
+                        className="p-1 rounded bg-white/10 hover:bg-white/20 text-white"
+                        title="Restore inputs and prompt"
+                      >
+                        <RotateCcw size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDownload(entry); }}
+                        className="p-1 rounded bg-white/10 hover:bg-white/20 text-white"
+                        title="Download"
+                      >
+                        <Download size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onDelete(entry); }}
+                        className="p-1 rounded bg-white/10 hover:bg-red-500/40 text-white"
+                        title="Delete"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Side-by-side comparison overlay */}
+      {compareMode && compareEntries.length === 2 && (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setCompareIds([])}>
+          <div className="w-full max-w-6xl h-full max-h-[90vh] grid grid-cols-2 gap-4" onClick={(e) => e.stopPropagation()}>
+            {compareEntries.map(entry => (
+              <div key={entry.id} className="glass-panel rounded-2xl p-3 flex flex-col min-h-0">
+                <div className="flex-grow min-h-0 flex items-center justify-center bg-black/50 rounded-xl overflow-hidden">
+                  <img src={entry.imageBase64} alt={entry.promptData.posterTitle} className="max-h-full max-w-full object-contain" />
+                </div>
+                <div className="flex-shrink-0 pt-3 space-y-1">
+                  <div className="text-sm font-serif text-white truncate">{entry.promptData.posterTitle}</div>
+                  <div className="text-xs font-mono text-yellow-400 truncate">{entry.promptData.posterSubtitle}</div>
+                  <div className="text-[11px] text-gray-500">
+                    {entry.aspectRatio} · {entry.imageSize} · {formatTimestamp(entry.completedAt)}
+                  </div>
+                  <div className="text-[11px] text-gray-600 truncate">{describeTemplateVersions(entry.templateVersions)}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setCompareIds([])}
+            className="absolute top-4 right-4 p-2 rounded-full bg-white/10 hover:bg-white/20 text-white"
+            title="Close comparison"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryGallery;
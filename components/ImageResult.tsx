@@ -1,25 +1,67 @@
-import React from 'react';
-import { AppStatus } from '../types';
-import { Image as ImageIcon, Download, Maximize2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { AppStatus, ImageVariant, PosterProvenance, PosterRevision } from '../types';
+import { Image as ImageIcon, Download, Maximize2, Star, AlertCircle, X, Type, Wand2, FileJson } from 'lucide-react';
+import { downloadBlob, downloadDataUrl } from '../utils/download';
+import { embedProvenance, posterFilename, toProjectFile } from '../services/provenance';
+import { TypographySettings, TextZones } from '../utils/typography';
+import TypographyEditor from './TypographyEditor';
+import RevisionTimeline from './RevisionTimeline';
+import InpaintEditor from './InpaintEditor';
 
 interface ImageResultProps {
-  imageBase64: string | null;
+  variants: ImageVariant[];
   status: AppStatus;
+  onToggleStar: (id: string) => void;
+  // Set when the run was rendered text-free; the title is then composited client-side
+  overlayText?: { title: string; subtitle: string; zones?: TextZones; secondaryTitle?: string; secondarySubtitle?: string } | null;
+  typography: TypographySettings;
+  onTypographyChange: (settings: TypographySettings) => void;
+  // Image-to-image refinement of the single result
+  revisions?: PosterRevision[];
+  activeRevisionId?: string | null;
+  onSelectRevision?: (revision: PosterRevision) => void;
+  onRefine?: (instruction: string) => void;
+  // Masked edit: the painted mask (alpha = edit) plus what to change there
+  onInpaint?: (maskDataUrl: string, instruction: string) => void;
+  // Picks one batch variant as the starting point for refinement
+  onRefineVariant?: (id: string) => void;
+  isRefining?: boolean;
+  refineError?: string | null;
+  // How the displayed result was made; embedded in downloads when set
+  provenance?: PosterProvenance | null;
 }
 
-const ImageResult: React.FC<ImageResultProps> = ({ imageBase64, status }) => {
-  const handleDownload = () => {
-    if (imageBase64) {
-      const link = document.createElement('a');
-      link.href = imageBase64;
-      link.download = `gemini-miniature-${Date.now()}.png`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    }
-  };
+// Falls back to the bare image if the metadata cannot be written
+const downloadVariant = async (variant: ImageVariant, index: number, provenance?: PosterProvenance | null) => {
+  if (!variant.imageBase64) return;
+  const exportedAt = Date.now();
+  const filename = posterFilename(exportedAt, 'png', index);
+  if (!provenance) {
+    downloadDataUrl(variant.imageBase64, filename);
+    return;
+  }
+  try {
+    downloadBlob(await embedProvenance(variant.imageBase64, { ...provenance, exportedAt }), filename);
+  } catch (e) {
+    console.error("Failed to embed poster metadata", e);
+    downloadDataUrl(variant.imageBase64, filename);
+  }
+};
+
+const ImageResult: React.FC<ImageResultProps> = ({
+  variants, status, onToggleStar, overlayText, typography, onTypographyChange,
+  revisions = [], activeRevisionId = null, onSelectRevision, onRefine, onInpaint, onRefineVariant, isRefining = false, refineError, provenance,
+}) => {
+  const [enlargedId, setEnlargedId] = useState<string | null>(null);
+  const [typesetId, setTypesetId] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState(false);
+  const enlarged = variants.find(v => v.id === enlargedId && v.imageBase64);
+  const typeset = variants.find(v => v.id === typesetId && v.imageBase64);
 
-  if (status === AppStatus.GENERATING_IMAGE) {
+  const isBatch = variants.length > 1;
+  const single = variants[0];
+
+  if (!isBatch && status === AppStatus.GENERATING_IMAGE && !isRefining) {
     return (
       <div className="h-full w-full glass-panel rounded-2xl flex flex-col items-center justify-center p-8 relative overflow-hidden">
         <div className="absolute inset-0 bg-gradient-to-b from-blue-500/10 to-purple-500/10 animate-pulse"></div>
@@ -34,7 +76,7 @@ const ImageResult: React.FC<ImageResultProps> = ({ imageBase64, status }) => {
     );
   }
 
-  if (!imageBase64) {
+  if (!isBatch && !single?.imageBase64) {
     return (
       <div className="h-full w-full glass-panel rounded-2xl flex flex-col items-center justify-center p-8 text-gray-500 border-2 border-dashed border-gray-800/50">
         <ImageIcon size={48} className="mb-4 opacity-30" />
@@ -43,35 +85,207 @@ const ImageResult: React.FC<ImageResultProps> = ({ imageBase64, status }) => {
     );
   }
 
-  return (
-    <div className="h-full w-full glass-panel rounded-2xl p-2 flex flex-col relative group overflow-hidden">
-      <div className="relative flex-grow min-h-0 rounded-xl overflow-hidden bg-black/50 flex items-center justify-center">
-        <img 
-          src={imageBase64} 
-          alt="Generated Miniature" 
-          className="max-h-full max-w-full object-contain shadow-2xl"
-        />
-        
-        {/* Overlay Actions */}
-        <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-end gap-3">
-            <button 
-                onClick={() => window.open(imageBase64, '_blank')}
-                className="p-2 bg-white/10 hover:bg-white/20 rounded-lg text-white backdrop-blur-md transition-colors"
-                title="Open Full Size"
-            >
-                <Maximize2 size={20} />
-            </button>
-            <button 
-                onClick={handleDownload}
-                className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white shadow-lg transition-colors flex items-center gap-2 px-4"
-            >
-                <Download size={20} />
-                <span className="font-medium text-sm">Download</span>
-            </button>
+  const timeline = onRefine && !isBatch && single?.imageBase64 ? (
+    <RevisionTimeline
+      revisions={revisions}
+      activeId={activeRevisionId}
+      onSelect={(revision) => onSelectRevision?.(revision)}
+      onRefine={onRefine}
+      onEditRegion={onInpaint ? () => setIsMasking(true) : undefined}
+      isRefining={isRefining}
+      disabled={status === AppStatus.ANALYZING || (status === AppStatus.GENERATING_IMAGE && !isRefining)}
+      error={refineError}
+    />
+  ) : null;
+
+  const refiningOverlay = isRefining ? (
+    <div className="absolute inset-0 z-10 bg-black/50 backdrop-blur-[2px] flex flex-col items-center justify-center gap-3">
+      <div className="w-12 h-12 border-4 border-purple-500/30 border-t-purple-500 rounded-full animate-spin"></div>
+      <p className="text-sm text-gray-300">Refining...</p>
+    </div>
+  ) : null;
+
+  if (isMasking && onInpaint && !isBatch && single?.imageBase64) {
+    return (
+      <InpaintEditor
+        imageBase64={single.imageBase64}
+        onSubmit={(mask, instruction) => { setIsMasking(false); onInpaint(mask, instruction); }}
+        onClose={() => setIsMasking(false)}
+      />
+    );
+  }
+
+  if (overlayText && (typeset || (!isBatch && single?.imageBase64))) {
+    const target = typeset || single;
+    const editor = (
+      <TypographyEditor
+        imageBase64={target.imageBase64 as string}
+        title={overlayText.title}
+        subtitle={overlayText.subtitle}
+        zones={overlayText.zones}
+        secondaryTitle={overlayText.secondaryTitle}
+        secondarySubtitle={overlayText.secondarySubtitle}
+        provenance={provenance}
+        settings={typography}
+        onSettingsChange={onTypographyChange}
+        onBack={typeset ? () => setTypesetId(null) : undefined}
+      />
+    );
+    if (typeset || !timeline) return editor;
+    return (
+      <div className="h-full w-full flex flex-col gap-2">
+        <div className="relative flex-grow min-h-0">
+          {editor}
+          {refiningOverlay}
         </div>
+        {timeline}
       </div>
+    );
+  }
+
+  if (!isBatch && single?.imageBase64) {
+    const imageBase64 = single.imageBase64;
+    return (
+      <div className="h-full w-full flex flex-col gap-2">
+        <div className="flex-grow min-h-0 glass-panel rounded-2xl p-2 flex flex-col relative group overflow-hidden">
+          <div className="relative flex-grow min-h-0 rounded-xl overflow-hidden bg-black/50 flex items-center justify-center">
+            <img
+              src={imageBase64}
+              alt="Generated Miniature"
+              className="max-h-full max-w-full object-contain shadow-2xl"
+            />
+            {refiningOverlay}
+
+            {/* Overlay Actions */}
+            <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-end gap-3">
+                <button
+                    onClick={() => window.open(imageBase64, '_blank')}
+                    className="p-2 bg-white/10 hover:bg-white/20 rounded-lg text-white backdrop-blur-md transition-colors"
+                    title="Open Full Size"
+                >
+                    <Maximize2 size={20} />
+                </button>
+                {provenance && (
+                  <button
+                      onClick={() => downloadBlob(toProjectFile({ ...provenance, exportedAt: Date.now() }), posterFilename(Date.now(), 'json'))}
+                      className="p-2 bg-white/10 hover:bg-white/20 rounded-lg text-white backdrop-blur-md transition-colors"
+                      title="Download project file (.json)"
+                  >
+                      <FileJson size={20} />
+                  </button>
+                )}
+                <button
+                    onClick={() => downloadVariant(single, 0, provenance)}
+                    className="p-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-white shadow-lg transition-colors flex items-center gap-2 px-4"
+                >
+                    <Download size={20} />
+                    <span className="font-medium text-sm">Download</span>
+                </button>
+            </div>
+          </div>
+        </div>
+        {timeline}
+      </div>
+    );
+  }
+
+  // Batch: comparison grid with per-variant state
+  const columns = variants.length <= 4 ? 'grid-cols-2' : 'grid-cols-3';
+  return (
+    <div className="h-full w-full glass-panel rounded-2xl p-2 flex flex-col overflow-hidden">
+      <div className={`flex-grow min-h-0 overflow-y-auto custom-scrollbar grid ${columns} auto-rows-fr gap-2`}>
+        {variants.map((variant, index) => (
+          <div
+            key={variant.id}
+            className={`relative group min-h-[120px] rounded-xl overflow-hidden bg-black/50 flex items-center justify-center border-2 transition-colors
+              ${variant.starred ? 'border-yellow-400/80' : 'border-transparent'}
+            `}
+          >
+            {variant.status === 'SUCCESS' && variant.imageBase64 ? (
+              <>
+                <img
+                  src={variant.imageBase64}
+                  alt={`Variant ${index + 1}`}
+                  className="max-h-full max-w-full object-contain cursor-zoom-in"
+                  onClick={() => setEnlargedId(variant.id)}
+                />
+                <div className="absolute top-0 left-0 right-0 p-2 flex justify-between items-start pointer-events-none">
+                  <span className="px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-gray-300">
+                    #{index + 1}
+                  </span>
+                  <button
+                    onClick={() => onToggleStar(variant.id)}
+                    className={`pointer-events-auto p-1 rounded-md backdrop-blur-md transition-colors ${variant.starred ? 'bg-yellow-400/20 text-yellow-400' : 'bg-black/40 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-yellow-400'}`}
+                    title={variant.starred ? 'Unstar' : 'Star'}
+                  >
+                    <Star size={14} fill={variant.starred ? 'currentColor' : 'none'} />
+                  </button>
+                </div>
+                <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-end gap-2">
+                  {onRefineVariant && (
+                    <button
+                      onClick={() => onRefineVariant(variant.id)}
+                      className="p-1.5 bg-white/10 hover:bg-white/20 rounded-md text-white backdrop-blur-md transition-colors"
+                      title="Refine this variant"
+                    >
+                      <Wand2 size={14} />
+                    </button>
+                  )}
+                  {overlayText && (
+                    <button
+                      onClick={() => setTypesetId(variant.id)}
+                      className="p-1.5 bg-white/10 hover:bg-white/20 rounded-md text-white backdrop-blur-md transition-colors"
+                      title="Typeset & export"
+                    >
+                      <Type size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setEnlargedId(variant.id)}
+                    className="p-1.5 bg-white/10 hover:bg-white/20 rounded-md text-white backdrop-blur-md transition-colors"
+                    title="Enlarge"
+                  >
+                    <Maximize2 size={14} />
+                  </button>
+                  <button
+                    onClick={() => downloadVariant(variant, index, provenance)}
+                    className="p-1.5 bg-blue-600 hover:bg-blue-500 rounded-md text-white transition-colors"
+                    title="Download"
+                  >
+                    <Download size={14} />
+                  </button>
+                </div>
+              </>
+            ) : variant.status === 'ERROR' ? (
+              <div className="flex flex-col items-center gap-2 p-3 text-center text-red-400">
+                <AlertCircle size={20} />
+                <p className="text-[11px] leading-snug line-clamp-3">{variant.error}</p>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-2 text-gray-500">
+                <div className={`w-8 h-8 border-2 rounded-full ${variant.status === 'GENERATING' ? 'border-blue-500/30 border-t-blue-500 animate-spin' : 'border-gray-700'}`}></div>
+                <span className="text-[11px] uppercase tracking-wider">{variant.status === 'GENERATING' ? 'Rendering' : 'Queued'}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Lightbox */}
+      {enlarged && enlarged.imageBase64 && (
+        <div className="fixed inset-0 z-50 bg-black/90 backdrop-blur-sm flex items-center justify-center p-6" onClick={() => setEnlargedId(null)}>
+          <img src={enlarged.imageBase64} alt="Enlarged variant" className="max-h-full max-w-full object-contain shadow-2xl" onClick={(e) => e.stopPropagation()} />
+          <button
+            onClick={() => setEnlargedId(null)}
+            className="absolute top-4 right-4 p-2 rounded-full bg-white/10 hover:bg-white/20 text-white"
+            title="Close"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      )}
     </div>
   );
 };
 
-export default ImageResult;
\ No newline at end of file
+export default ImageResult;
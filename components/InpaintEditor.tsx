@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Brush, Eraser, Trash2, X, Wand2 } from 'lucide-react';
+import { hasMaskedPixels } from '../utils/mask';
+import { loadImage } from '../utils/typography';
+
+interface InpaintEditorProps {
+  imageBase64: string;
+  onSubmit: (maskDataUrl: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+// Brush diameter as a fraction of the image's shorter side
+const BRUSH_SIZES = [0.02, 0.04, 0.08, 0.14];
+
+// Paint a mask over the poster and describe what should change inside it
+const InpaintEditor: React.FC<InpaintEditorProps> = ({ imageBase64, onSubmit, onClose }) => {
+  // Visible canvas shows the poster with the mask tinted on top; the mask itself
+  // lives on an offscreen canvas at the image's native resolution
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [brushIndex, setBrushIndex] = useState(1);
+  const [erasing, setErasing] = useState(false);
+  const [hasMask, setHasMask] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !imageRef.current || !maskRef.current) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(imageRef.current, 0, 0);
+    ctx.globalAlpha = 0.5;
+    ctx.drawImage(maskRef.current, 0, 0);
+    ctx.globalAlpha = 1;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageBase64)
+      .then((img) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        const mask = document.createElement('canvas');
+        mask.width = canvas.width = img.naturalWidth;
+        mask.height = canvas.height = img.naturalHeight;
+        imageRef.current = img;
+        maskRef.current = mask;
+        setHasMask(false);
+        redraw();
+      })
+      .catch(e => console.error("Failed to load image for masking", e));
+    return () => { cancelled = true; };
+  }, [imageBase64]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const mask = maskRef.current;
+    const ctx = mask?.getContext('2d');
+    if (!mask || !ctx) return;
+    const from = lastPointRef.current || point;
+    ctx.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ff3b6b';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = Math.min(mask.width, mask.height) * BRUSH_SIZES[brushIndex];
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+    redraw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    if (maskRef.current) setHasMask(hasMaskedPixels(maskRef.current));
+  };
+
+  const clearMask = () => {
+    const mask = maskRef.current;
+    mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+    setHasMask(false);
+    redraw();
+  };
+
+  const submit = () => {
+    const mask = maskRef.current;
+    if (!mask || !hasMask || !instruction.trim()) return;
+    onSubmit(mask.toDataURL('image/png'), instruction.trim());
+  };
+
+  const toolClass = (active: boolean) =>
+    `p-1.5 rounded-md transition-colors ${active ? 'bg-purple-500/30 text-purple-300' : 'text-gray-400 hover:bg-white/10 hover:text-white'}`;
+
+  return (
+    <div className="h-full w-full glass-panel rounded-2xl p-2 flex flex-col gap-2 overflow-hidden">
+      <div className="flex-shrink-0 flex items-center justify-between gap-2 px-1">
+        <div className="flex items-center gap-1">
+          <button onClick={() => setErasing(false)} className={toolClass(!erasing)} title="Brush">
+            <Brush size={14} />
+          </button>
+          <button onClick={() => setErasing(true)} className={toolClass(erasing)} title="Eraser">
+            <Eraser size={14} />
+          </button>
+          <div className="w-px h-4 bg-gray-700 mx-1"></div>
+          {BRUSH_SIZES.map((size, index) => (
+            <button
+              key={size}
+              onClick={() => setBrushIndex(index)}
+              className={`w-6 h-6 rounded-md flex items-center justify-center ${index === brushIndex ? 'bg-white/15' : 'hover:bg-white/10'}`}
+              title={`Brush size ${index + 1}`}
+            >
+              <span className="rounded-full bg-gray-300" style={{ width: 4 + index * 3, height: 4 + index * 3 }}></span>
+            </button>
+          ))}
+          <div className="w-px h-4 bg-gray-700 mx-1"></div>
+          <button onClick={clearMask} className={toolClass(false)} title="Clear mask">
+            <Trash2 size={14} />
+          </button>
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:bg-white/10 hover:text-white" title="Close (Esc)">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="relative flex-grow min-h-0 rounded-xl overflow-hidden bg-black/50 flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="max-h-full max-w-full object-contain cursor-crosshair touch-none shadow-2xl"
+        />
+      </div>
+
+      <div className="flex-shrink-0 flex items-center gap-2">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          placeholder={hasMask ? 'What should change in the painted region?' : 'Paint over the part to fix first'}
+          className="flex-grow min-w-0 bg-black/30 rounded-md px-2 py-1.5 text-xs text-gray-200 placeholder-gray-600 outline-none border border-gray-700 focus:border-purple-500/60"
+        />
+        <button
+          onClick={submit}
+          disabled={!hasMask || !instruction.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-purple-600 hover:bg-purple-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-xs transition-colors"
+        >
+          <Wand2 size={12} />
+          <span>Edit Region</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InpaintEditor;
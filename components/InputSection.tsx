@@ -1,22 +1,70 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Upload, X, Type, Image as ImageIcon, Sparkles, Settings2, RefreshCw } from 'lucide-react';
-import { AppStatus, UserInput, AspectRatio, ImageSize } from '../types';
+import { Upload, X, Type, Image as ImageIcon, Sparkles, Settings2, RefreshCw, Layers, Baseline, Square, Palette, LayoutTemplate as LayoutIcon, Plus, Crop, SlidersHorizontal, Database, DatabaseZap, Languages, Globe } from 'lucide-react';
+import { AppStatus, UserInput, AspectRatio, ImageSize, InputSnapshot, TextRenderMode, StylePreset, LayoutTemplateId, ReferenceImage, ReferenceRole, CropRect, SearchMode } from '../types';
+import { DEFAULT_STYLE_ID } from '../services/stylePresets';
+import { LAYOUT_TEMPLATES, suggestLayoutId } from '../services/layoutTemplates';
+import { MAX_REFERENCES, REFERENCE_ROLES, REFERENCE_ROLE_ORDER, suggestReferenceRole } from '../services/referenceRoles';
+import { createId } from '../services/storage';
+import { OUTPUT_LANGUAGES } from '../services/languages';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, ReferenceEncoding, formatBytes, preprocessReference, readAsDataUrl } from '../utils/imagePreprocess';
+import ReferenceCropper from './ReferenceCropper';
 
 interface InputSectionProps {
   status: AppStatus;
   onSubmit: (input: UserInput) => void;
+  onCancel: () => void;
   hasEngineeredPrompt: boolean;
+  // True when the user has edited the engineered prompt; Generate then uses the edits as-is
+  hasEditedPrompt?: boolean;
+  restoreSnapshot?: InputSnapshot | null;
+  stylePresets: StylePreset[];
+  onManageStyles: () => void;
 }
 
-const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngineeredPrompt }) => {
+const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, onCancel, hasEngineeredPrompt, hasEditedPrompt, restoreSnapshot, stylePresets, onManageStyles }) => {
   const [text, setText] = useState('');
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageBase64, setImageBase64] = useState<string | null>(null);
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>('9:16');
   const [imageSize, setImageSize] = useState<ImageSize>('1K');
+  const [variantCount, setVariantCount] = useState(1);
+  const [textRenderMode, setTextRenderMode] = useState<TextRenderMode>('model');
+  const [stylePresetId, setStylePresetId] = useState(DEFAULT_STYLE_ID);
+  const [layoutId, setLayoutId] = useState<LayoutTemplateId>(suggestLayoutId('9:16'));
   const [isDragOver, setIsDragOver] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  // '' = automatic language / no second language
+  const [outputLanguage, setOutputLanguage] = useState('');
+  const [secondaryLanguage, setSecondaryLanguage] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('auto');
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [showPreprocess, setShowPreprocess] = useState(false);
+  const [cropping, setCropping] = useState<{ id: string; url: string; initialCrop?: CropRect } | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Originals of the references, kept so re-cropping or new settings start from full quality
+  const sourcesRef = useRef(new Map<string, Blob>());
+  // The paste listener is registered once, so it reads the current settings through a ref
+  const preprocessRef = useRef(preprocess);
+  preprocessRef.current = preprocess;
+
+  // Apply inputs restored from elsewhere (e.g. the history gallery)
+  useEffect(() => {
+    if (!restoreSnapshot) return;
+    setText(restoreSnapshot.text);
+    setReferences(restoreSnapshot.references);
+    sourcesRef.current.clear();
+    setAspectRatio(restoreSnapshot.aspectRatio);
+    setImageSize(restoreSnapshot.imageSize);
+    if (restoreSnapshot.stylePresetId) setStylePresetId(restoreSnapshot.stylePresetId);
+    setLayoutId(restoreSnapshot.layoutId || suggestLayoutId(restoreSnapshot.aspectRatio));
+    setOutputLanguage(restoreSnapshot.language?.primary || '');
+    setSecondaryLanguage(restoreSnapshot.language?.secondary || '');
+    setSearchMode(restoreSnapshot.searchMode || 'auto');
+  }, [restoreSnapshot]);
+
+  // A deleted (or missing) custom preset falls back to the default style
+  const selectedStyle = stylePresets.find(p => p.id === stylePresetId)
+    || stylePresets.find(p => p.id === DEFAULT_STYLE_ID);
 
   // Handle Paste Event Globally within the component
   useEffect(() => {
@@ -44,35 +92,125 @@ const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngine
     return () => window.removeEventListener('paste', handlePaste);
   }, []);
 
-  const handleFileSelect = (file: File) => {
+  const handleFileSelect = async (file: File) => {
     // Safety check for file existence and type
     if (!file || typeof file.type !== 'string' || !file.type.startsWith('image/')) return;
     
-    setImageFile(file);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setImageBase64(e.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    const id = createId();
+    let reference: Omit<ReferenceImage, 'role'>;
+    try {
+      const { dataUrl, preprocessing } = await preprocessReference(file, preprocessRef.current);
+      reference = { id, dataUrl, preprocessing };
+      sourcesRef.current.set(id, file);
+    } catch (e) {
+      // e.g. a format the browser can read as a file but not decode; send it unchanged
+      console.warn("Reference preprocessing failed, sending the original", e);
+      reference = { id, dataUrl: await readAsDataUrl(file) };
+    }
+    setReferences(prev => prev.length >= MAX_REFERENCES
+      ? prev
+      : [...prev, { ...reference, role: suggestReferenceRole(prev) }]);
+  };
+
+  // Sequential, so references keep the order they were picked in
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    for (const file of Array.from(files).slice(0, MAX_REFERENCES)) {
+      await handleFileSelect(file);
+    }
+  };
+
+  const setReferenceRole = (id: string, role: ReferenceRole) =>
+    setReferences(prev => prev.map(r => r.id === id ? { ...r, role } : r));
+
+  const removeReference = (id: string) => {
+    sourcesRef.current.delete(id);
+    setReferences(prev => prev.filter(r => r.id !== id));
+  };
+
+  const clearReferences = () => {
+    sourcesRef.current.clear();
+    setReferences([]);
+  };
+
+  // Restored references have no original; the sent image becomes the source from then on
+  const getSource = async (reference: ReferenceImage): Promise<Blob> => {
+    const existing = sourcesRef.current.get(reference.id);
+    if (existing) return existing;
+    const blob = await (await fetch(reference.dataUrl)).blob();
+    sourcesRef.current.set(reference.id, blob);
+    return blob;
+  };
+
+  const reprocessReference = async (id: string, options: PreprocessOptions, crop?: CropRect) => {
+    const source = sourcesRef.current.get(id);
+    if (!source) return;
+    try {
+      const { dataUrl, preprocessing } = await preprocessReference(source, options, crop);
+      setReferences(prev => prev.map(r => r.id === id ? { ...r, dataUrl, preprocessing } : r));
+    } catch (e) {
+      console.error("Failed to reprocess reference", e);
+    }
+  };
+
+  // New settings apply to every reference we still hold the original of
+  const updatePreprocess = (changes: Partial<PreprocessOptions>) => {
+    const next = { ...preprocess, ...changes };
+    setPreprocess(next);
+    references.forEach(r => reprocessReference(r.id, next, r.preprocessing?.crop));
+  };
+
+  const openCropper = async (reference: ReferenceImage) => {
+    const hadOriginal = sourcesRef.current.has(reference.id);
+    const source = await getSource(reference);
+    setCropping({
+      id: reference.id,
+      url: URL.createObjectURL(source),
+      // A restored crop refers to an original we no longer have
+      initialCrop: hadOriginal ? reference.preprocessing?.crop : undefined,
+    });
+  };
+
+  const closeCropper = () => {
+    if (cropping) URL.revokeObjectURL(cropping.url);
+    setCropping(null);
+  };
+
+  const applyCrop = (crop: CropRect | null) => {
+    if (cropping) reprocessReference(cropping.id, preprocess, crop || undefined);
+    closeCropper();
   };
 
   const onDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileSelect(e.dataTransfer.files[0]);
-    }
+    handleFiles(e.dataTransfer.files);
+  };
+
+  // Picking a canvas shape switches to the layout that suits it; the user can override afterwards
+  const handleAspectRatioChange = (ratio: AspectRatio) => {
+    setAspectRatio(ratio);
+    setLayoutId(suggestLayoutId(ratio));
   };
 
   const handleSubmit = (forceAnalysis = false) => {
-    if (!text && !imageBase64) return;
+    if (!text && references.length === 0) return;
     onSubmit({
       text,
-      image: imageFile,
-      imageBase64,
+      references,
       aspectRatio,
       imageSize,
-      forceAnalysis
+      variantCount,
+      textRenderMode,
+      stylePreset: selectedStyle,
+      layoutId,
+      language: {
+        primary: outputLanguage || undefined,
+        secondary: secondaryLanguage && secondaryLanguage !== outputLanguage ? secondaryLanguage : undefined,
+      },
+      searchMode,
+      forceAnalysis,
+      bypassCache
     });
   };
 
@@ -99,56 +237,162 @@ const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngine
           />
         </div>
 
-        {/* 2. Image Input */}
+        {/* 2. Reference Images, each tagged with a role */}
         <div 
           className={`flex-1 min-h-[100px] glass-panel rounded-xl p-4 flex flex-col relative transition-all duration-200
             ${isDragOver ? 'border-blue-500 bg-blue-500/10' : ''}
-            ${!imageBase64 ? 'hover:bg-white/5 cursor-pointer' : ''}
+            ${references.length === 0 ? 'hover:bg-white/5 cursor-pointer' : ''}
           `}
           onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
           onDragLeave={() => setIsDragOver(false)}
           onDrop={onDrop}
-          onClick={() => !imageBase64 && fileInputRef.current?.click()}
+          onClick={() => references.length === 0 && fileInputRef.current?.click()}
         >
           <div className="flex items-center justify-between mb-2 text-gray-400 z-10">
             <div className="flex items-center gap-2">
               <ImageIcon size={16} />
-              <span className="text-xs font-medium uppercase tracking-wider">Reference (Optional)</span>
+              <span className="text-xs font-medium uppercase tracking-wider">References (Optional)</span>
             </div>
-            {imageBase64 && (
-              <button 
-                onClick={(e) => { e.stopPropagation(); setImageBase64(null); setImageFile(null); }}
-                className="p-1 hover:bg-red-500/20 hover:text-red-400 rounded-md transition-colors"
+            <div className="flex items-center gap-1">
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowPreprocess(v => !v); }}
+                className={`p-1 rounded-md transition-colors ${showPreprocess ? 'bg-white/10 text-white' : 'hover:bg-white/10 hover:text-white'}`}
+                title="Upload settings"
               >
-                <X size={14} />
+                <SlidersHorizontal size={14} />
               </button>
-            )}
+              {references.length > 0 && (
+                <button 
+                  onClick={(e) => { e.stopPropagation(); clearReferences(); }}
+                  className="p-1 hover:bg-red-500/20 hover:text-red-400 rounded-md transition-colors"
+                  title="Remove all references"
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
           </div>
 
-          <div className="flex-grow flex items-center justify-center relative overflow-hidden rounded-lg bg-black/20 border border-gray-800/50 border-dashed">
-            {imageBase64 ? (
-              <img 
-                src={imageBase64} 
-                alt="Reference" 
-                className="w-full h-full object-contain" 
-              />
-            ) : (
+          {showPreprocess && (
+            <div className="flex flex-wrap items-center gap-3 mb-2 px-2 py-1.5 rounded-lg bg-black/30 text-[11px] text-gray-400" onClick={(e) => e.stopPropagation()}>
+              <label className="flex items-center gap-1">
+                <span>Max</span>
+                <select
+                  value={preprocess.maxDimension}
+                  onChange={(e) => updatePreprocess({ maxDimension: Number(e.target.value) })}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer hover:text-white"
+                  disabled={isLoading}
+                >
+                  {[768, 1024, 1536, 2048].map(px => (
+                    <option key={px} value={px} className="bg-gray-800 text-gray-200">{px}px</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                <span>Format</span>
+                <select
+                  value={preprocess.mimeType}
+                  onChange={(e) => updatePreprocess({ mimeType: e.target.value as ReferenceEncoding })}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer hover:text-white"
+                  disabled={isLoading}
+                >
+                  <option value="image/webp" className="bg-gray-800 text-gray-200">WebP</option>
+                  <option value="image/jpeg" className="bg-gray-800 text-gray-200">JPEG</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                <span>Budget</span>
+                <select
+                  value={preprocess.maxBytes}
+                  onChange={(e) => updatePreprocess({ maxBytes: Number(e.target.value) })}
+                  className="bg-transparent text-gray-300 outline-none cursor-pointer hover:text-white"
+                  disabled={isLoading}
+                >
+                  {[300 * 1024, 600 * 1024, 1536 * 1024].map(bytes => (
+                    <option key={bytes} value={bytes} className="bg-gray-800 text-gray-200">{formatBytes(bytes)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {references.length > 0 ? (
+            <div className="flex-grow min-h-0 grid grid-cols-2 auto-rows-fr gap-2 overflow-y-auto custom-scrollbar">
+              {references.map((ref, index) => (
+                <div key={ref.id} className="relative min-h-[80px] rounded-lg overflow-hidden bg-black/20 border border-gray-800/50">
+                  <img src={ref.dataUrl} alt={`Reference ${index + 1}`} className="w-full h-full object-contain" />
+                  <div className="absolute top-1 left-1 right-1 flex items-center justify-between gap-1">
+                    <select
+                      value={ref.role}
+                      onChange={(e) => setReferenceRole(ref.id, e.target.value as ReferenceRole)}
+                      className="min-w-0 bg-black/70 rounded px-1 py-0.5 text-[10px] text-gray-200 outline-none cursor-pointer"
+                      disabled={isLoading}
+                      title={REFERENCE_ROLES[ref.role].instruction}
+                    >
+                      {REFERENCE_ROLE_ORDER.map(role => (
+                        <option key={role} value={role} className="bg-gray-800 text-gray-200">
+                          {index + 1}. {REFERENCE_ROLES[role].label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => removeReference(ref.id)}
+                      className="p-0.5 rounded bg-black/70 text-gray-300 hover:text-red-400 flex-shrink-0"
+                      title="Remove"
+                      disabled={isLoading}
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                  <div className="absolute bottom-1 left-1 right-1 flex items-center justify-between gap-1">
+                    <button
+                      onClick={() => openCropper(ref)}
+                      className={`p-0.5 rounded bg-black/70 hover:text-white flex-shrink-0 ${ref.preprocessing?.crop ? 'text-blue-400' : 'text-gray-300'}`}
+                      title="Crop / focus region"
+                      disabled={isLoading}
+                    >
+                      <Crop size={12} />
+                    </button>
+                    {ref.preprocessing && (
+                      <span
+                        className="px-1 rounded bg-black/70 text-[9px] text-gray-300 truncate"
+                        title={`${ref.preprocessing.width}×${ref.preprocessing.height} ${ref.preprocessing.mimeType}${ref.preprocessing.orientation !== 1 ? `, rotated upright (EXIF ${ref.preprocessing.orientation})` : ''}`}
+                      >
+                        {formatBytes(ref.preprocessing.originalBytes)} → {formatBytes(ref.preprocessing.bytes)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {references.length < MAX_REFERENCES && (
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="min-h-[80px] rounded-lg border border-dashed border-gray-700 text-gray-500 hover:text-white hover:bg-white/5 flex flex-col items-center justify-center gap-1 text-[11px]"
+                  disabled={isLoading}
+                >
+                  <Plus size={16} />
+                  <span>Add reference</span>
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="flex-grow flex items-center justify-center relative overflow-hidden rounded-lg bg-black/20 border border-gray-800/50 border-dashed">
               <div className="text-center p-4">
                 <Upload size={24} className="mx-auto mb-3 text-gray-600" />
-                <p className="text-sm text-gray-400">Click or Paste Image</p>
-                <p className="text-xs text-gray-600 mt-1">Ctrl+V supported</p>
+                <p className="text-sm text-gray-400">Click or Paste Images</p>
+                <p className="text-xs text-gray-600 mt-1">Up to {MAX_REFERENCES}: subject, palette, architecture, style</p>
               </div>
-            )}
-          </div>
+            </div>
+          )}
           <input 
             type="file" 
             ref={fileInputRef} 
             className="hidden" 
             accept="image/*"
+            multiple
             onChange={(e) => {
-                if (e.target.files && e.target.files.length > 0) {
-                    handleFileSelect(e.target.files[0]);
-                }
+                handleFiles(e.target.files);
+                e.target.value = '';
             }}
           />
         </div>
@@ -163,7 +407,7 @@ const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngine
               <Settings2 size={14} className="text-gray-500" />
               <select 
                 value={aspectRatio}
-                onChange={(e) => setAspectRatio(e.target.value as AspectRatio)}
+                onChange={(e) => handleAspectRatioChange(e.target.value as AspectRatio)}
                 className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
                 disabled={isLoading}
               >
@@ -191,6 +435,149 @@ const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngine
                 <option value="4K" className="bg-gray-800 text-gray-200">4K</option>
               </select>
            </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Variants per run */}
+           <div className="flex items-center gap-2" title="Images generated from the same prompt">
+              <Layers size={14} className="text-gray-500" />
+              <select 
+                value={variantCount}
+                onChange={(e) => setVariantCount(Number(e.target.value))}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
+                disabled={isLoading}
+              >
+                {[1, 2, 3, 4, 5, 6, 7, 8].map(n => (
+                  <option key={n} value={n} className="bg-gray-800 text-gray-200">
+                    {n === 1 ? '1 Variant' : `${n} Variants`}
+                  </option>
+                ))}
+              </select>
+           </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Who renders the title text */}
+           <div className="flex items-center gap-2" title="Overlay renders title text in the browser for exact spelling">
+              <Baseline size={14} className="text-gray-500" />
+              <select 
+                value={textRenderMode}
+                onChange={(e) => setTextRenderMode(e.target.value as TextRenderMode)}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
+                disabled={isLoading}
+              >
+                <option value="model" className="bg-gray-800 text-gray-200">AI Text</option>
+                <option value="composite" className="bg-gray-800 text-gray-200">Overlay Text</option>
+              </select>
+           </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Layout template (suggested from the aspect ratio) */}
+           <div className="flex items-center gap-2" title="Where the diorama and the text are placed">
+              <LayoutIcon size={14} className="text-gray-500" />
+              <select 
+                value={layoutId}
+                onChange={(e) => setLayoutId(e.target.value as LayoutTemplateId)}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
+                disabled={isLoading}
+              >
+                {LAYOUT_TEMPLATES.map(layout => (
+                  <option key={layout.id} value={layout.id} className="bg-gray-800 text-gray-200">
+                    {layout.name}{layout.id === suggestLayoutId(aspectRatio) ? ' ★' : ''}
+                  </option>
+                ))}
+              </select>
+           </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Poster text language; the second select makes the poster bilingual */}
+           <div className="flex items-center gap-2" title="Language of the title and subtitle">
+              <Languages size={14} className="text-gray-500" />
+              <select 
+                value={outputLanguage}
+                onChange={(e) => {
+                  setOutputLanguage(e.target.value);
+                  if (e.target.value === secondaryLanguage) setSecondaryLanguage('');
+                }}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
+                disabled={isLoading}
+              >
+                <option value="" className="bg-gray-800 text-gray-200">Auto</option>
+                {OUTPUT_LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code} className="bg-gray-800 text-gray-200">{language.label}</option>
+                ))}
+              </select>
+              <select 
+                value={secondaryLanguage}
+                onChange={(e) => setSecondaryLanguage(e.target.value)}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
+                disabled={isLoading}
+                title="Bilingual: also put the title in this language"
+              >
+                <option value="" className="bg-gray-800 text-gray-200">+ None</option>
+                {OUTPUT_LANGUAGES.filter(language => language.code !== outputLanguage).map(language => (
+                  <option key={language.code} value={language.code} className="bg-gray-800 text-gray-200">+ {language.label}</option>
+                ))}
+              </select>
+           </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Art style preset */}
+           <div className="flex items-center gap-2" title={selectedStyle?.description}>
+              <button
+                onClick={onManageStyles}
+                className="text-gray-500 hover:text-white transition-colors disabled:hover:text-gray-500"
+                title="Manage style presets"
+                disabled={isLoading}
+              >
+                <Palette size={14} />
+              </button>
+              <select 
+                value={selectedStyle?.id || DEFAULT_STYLE_ID}
+                onChange={(e) => setStylePresetId(e.target.value)}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white max-w-[9rem]"
+                disabled={isLoading}
+              >
+                {stylePresets.map(preset => (
+                  <option key={preset.id} value={preset.id} className="bg-gray-800 text-gray-200">
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+           </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Live data: search grounding follows the detected intent unless forced */}
+           <div className="flex items-center gap-2" title="Ground the prompt with Google Search for live data (weather, prices, scores, news)">
+              <Globe size={14} className="text-gray-500" />
+              <select 
+                value={searchMode}
+                onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+                className="bg-transparent text-xs text-gray-300 outline-none cursor-pointer hover:text-white"
+                disabled={isLoading}
+              >
+                <option value="auto" className="bg-gray-800 text-gray-200">Search: Auto</option>
+                <option value="on" className="bg-gray-800 text-gray-200">Search: On</option>
+                <option value="off" className="bg-gray-800 text-gray-200">Search: Off</option>
+              </select>
+           </div>
+
+           <div className="w-px h-4 bg-gray-700"></div>
+
+           {/* Response cache */}
+           <button
+              onClick={() => setBypassCache(v => !v)}
+              className={`flex items-center gap-1.5 text-xs transition-colors ${bypassCache ? 'text-orange-400 hover:text-orange-300' : 'text-gray-500 hover:text-white'}`}
+              title={bypassCache ? 'Cache bypassed: every run calls the models' : 'Identical inputs reuse the cached prompt; images are always new'}
+              disabled={isLoading}
+           >
+              {bypassCache ? <DatabaseZap size={14} /> : <Database size={14} />}
+              <span>{bypassCache ? 'Fresh' : 'Cached'}</span>
+           </button>
         </div>
       </div>
 
@@ -210,7 +597,7 @@ const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngine
         {/* Main Generate Button */}
         <button
             onClick={() => handleSubmit(false)}
-            disabled={isLoading || (!text && !imageBase64)}
+            disabled={isLoading || (!text && references.length === 0)}
             className={`
             flex-grow py-4 rounded-xl font-semibold text-sm tracking-wide transition-all shadow-lg
             flex items-center justify-center gap-2
@@ -229,12 +616,32 @@ const InputSection: React.FC<InputSectionProps> = ({ status, onSubmit, hasEngine
             <>
                 <Sparkles size={18} />
                 <span>
-                    {hasEngineeredPrompt ? 'Generate Image' : 'Generate Miniature World'}
+                    {hasEditedPrompt ? 'Generate from Edits' : hasEngineeredPrompt ? 'Generate Image' : 'Generate Miniature World'}
                 </span>
             </>
             )}
         </button>
+
+        {/* Stop Button (Only visible while a run is in progress) */}
+        {isLoading && (
+            <button
+                onClick={onCancel}
+                className="px-4 py-4 rounded-xl font-semibold text-red-400 bg-red-500/10 hover:bg-red-500/20 hover:text-red-300 transition-all shadow-lg flex items-center justify-center gap-2 border border-red-500/30"
+                title="Stop generation"
+            >
+                <Square size={16} fill="currentColor" />
+                <span className="text-sm">Stop</span>
+            </button>
+        )}
       </div>
+      {cropping && (
+        <ReferenceCropper
+          imageUrl={cropping.url}
+          initialCrop={cropping.initialCrop}
+          onApply={applyCrop}
+          onClose={closeCropper}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { LivingPoster, LivingPosterRender } from '../types';
+import { LIVING_POSTER_INTERVALS } from '../services/livingPosters';
+import { X, Radio, Pin, RefreshCw, Trash2, Pause, Play, Loader2, AlertCircle, Link2 } from 'lucide-react';
+
+interface LivingPosterPanelProps {
+  posters: LivingPoster[];
+  // Poster whose check is running, if any
+  checkingId: string | null;
+  // Whether the displayed result is search-grounded and can be pinned
+  canPin: boolean;
+  onPin: () => void;
+  onUpdate: (poster: LivingPoster, patch: Partial<Pick<LivingPoster, 'intervalMinutes' | 'enabled'>>) => void;
+  onCheckNow: (poster: LivingPoster) => void;
+  onDelete: (poster: LivingPoster) => void;
+  onOpenRender: (poster: LivingPoster, render: LivingPosterRender) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const LivingPosterPanel: React.FC<LivingPosterPanelProps> = ({
+  posters, checkingId, canPin, onPin, onUpdate, onCheckNow, onDelete, onOpenRender, onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(posters[0]?.id ?? null);
+  const selected = posters.find(p => p.id === selectedId) ?? posters[0];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-2xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-gray-700/50">
+          <div className="flex items-center gap-2 text-gray-200">
+            <Radio size={18} className="text-blue-400" />
+            <h2 className="font-bold">Living Posters</h2>
+            <span className="text-xs text-gray-500">Re-checked while the app is open</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onPin}
+              disabled={!canPin}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-xs text-white"
+              title={canPin ? 'Pin the displayed result' : 'Generate a search-grounded poster first'}
+            >
+              <Pin size={12} />
+              <span>Pin current</span>
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-md hover:bg-white/10 text-gray-400 hover:text-white" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {posters.length === 0 ? (
+          <div className="p-10 text-center text-sm text-gray-500">
+            Pin a poster about weather, prices, scores or news to keep it up to date.
+            It is re-checked on its interval and only redrawn when the data changes.
+          </div>
+        ) : (
+          <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-[280px_1fr] gap-4 p-4 overflow-hidden">
+            {/* Pinned queries */}
+            <div className="min-h-0 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+              {posters.map(poster => {
+                const isChecking = checkingId === poster.id;
+                return (
+                  <div
+                    key={poster.id}
+                    onClick={() => setSelectedId(poster.id)}
+                    className={`rounded-lg border p-3 cursor-pointer ${poster.id === selected?.id ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800/40 border-gray-700/50 hover:border-gray-600'}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm font-medium truncate ${poster.enabled ? 'text-white' : 'text-gray-500'}`}>{poster.name}</span>
+                      <div className="flex items-center gap-1 text-gray-400 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                        <button onClick={() => onUpdate(poster, { enabled: !poster.enabled })} className="p-1 rounded hover:bg-white/10 hover:text-white" title={poster.enabled ? 'Pause' : 'Resume'}>
+                          {poster.enabled ? <Pause size={14} /> : <Play size={14} />}
+                        </button>
+                        <button onClick={() => onCheckNow(poster)} disabled={!!checkingId} className="p-1 rounded hover:bg-white/10 hover:text-white disabled:opacity-40" title="Check now">
+                          {isChecking ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                        </button>
+                        <button onClick={() => onDelete(poster)} className="p-1 rounded hover:bg-red-500/20 hover:text-red-400" title="Unpin">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="mt-2 flex items-center justify-between gap-2 text-[11px] text-gray-500" onClick={(e) => e.stopPropagation()}>
+                      <select
+                        value={poster.intervalMinutes}
+                        onChange={(e) => onUpdate(poster, { intervalMinutes: Number(e.target.value) })}
+                        className="bg-black/30 border border-gray-700 rounded px-1 py-0.5 text-gray-300 outline-none"
+                      >
+                        {LIVING_POSTER_INTERVALS.map(option => (
+                          <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                        ))}
+                      </select>
+                      <span>{poster.lastCheckedAt ? `Checked ${formatTime(poster.lastCheckedAt)}` : 'Not checked yet'}</span>
+                    </div>
+                    {poster.lastError && (
+                      <p className="mt-2 flex items-start gap-1 text-[11px] text-red-400">
+                        <AlertCircle size={12} className="flex-shrink-0 mt-0.5" />
+                        <span>{poster.lastError}</span>
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Render timeline of the selected poster, newest first */}
+            <div className="min-h-0 overflow-y-auto custom-scrollbar space-y-3 pr-1">
+              {selected && selected.renders.length === 0 && (
+                <div className="h-full flex items-center justify-center text-sm text-gray-500">No renders yet.</div>
+              )}
+              {selected && [...selected.renders].reverse().map((render, index) => (
+                <div key={render.id} className="flex gap-3 rounded-lg bg-gray-800/40 border border-gray-700/50 p-3">
+                  <button onClick={() => onOpenRender(selected, render)} className="flex-shrink-0" title="Show in result panel">
+                    <img src={render.imageBase64} alt={render.promptData.posterTitle} className="w-24 h-24 object-cover rounded-md border border-gray-700 hover:border-blue-500/60" />
+                  </button>
+                  <div className="min-w-0 flex-grow space-y-1.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-white truncate">{render.promptData.posterTitle}</span>
+                      <span className="text-[11px] text-gray-500 flex-shrink-0">
+                        {index === 0 && <span className="text-blue-400 mr-1">Latest ·</span>}
+                        {formatTime(render.createdAt)}
+                      </span>
+                    </div>
+                    {render.promptData.posterSubtitle && (
+                      <p className="text-xs text-gray-400 truncate">{render.promptData.posterSubtitle}</p>
+                    )}
+                    {render.changedValues.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {render.changedValues.map((value, i) => (
+                          <span key={i} className="px-1.5 py-0.5 rounded bg-emerald-500/10 border border-emerald-500/30 text-[11px] text-emerald-300">{value}</span>
+                        ))}
+                      </div>
+                    )}
+                    {render.promptData.groundingSources && render.promptData.groundingSources.length > 0 && (
+                      <ul className="space-y-0.5">
+                        {render.promptData.groundingSources.map((source, i) => (
+                          <li key={i}>
+                            <a href={source.uri} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-[11px] text-blue-400 hover:text-blue-300 truncate">
+                              <Link2 size={10} className="flex-shrink-0" />
+                              <span className="truncate">{source.title}</span>
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LivingPosterPanel;
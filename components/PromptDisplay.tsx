@@ -1,13 +1,93 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { EngineeredPrompt, AppStatus } from '../types';
-import { Terminal, Wand2, Link2 } from 'lucide-react';
+import { Terminal, Wand2, Link2, Pencil, Check, X, Undo2, RotateCcw, Radio } from 'lucide-react';
+import { LIVE_DATA_CATEGORIES } from '../services/liveDataIntent';
+import { validatePromptEdits, isSamePromptText, PromptValidationErrors } from '../utils/promptValidation';
 
 interface PromptDisplayProps {
   promptData: EngineeredPrompt | null;
+  // The prompt as produced by the engineer model, used for "revert to original"
+  originalPromptData: EngineeredPrompt | null;
   status: AppStatus;
+  onPromptChange: (prompt: EngineeredPrompt) => void;
+  // The prompt was served from the response cache
+  fromCache?: boolean;
 }
 
-const PromptDisplay: React.FC<PromptDisplayProps> = ({ promptData, status }) => {
+const PromptDisplay: React.FC<PromptDisplayProps> = ({ promptData, originalPromptData, status, onPromptChange, fromCache }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<EngineeredPrompt | null>(null);
+  const [errors, setErrors] = useState<PromptValidationErrors>({});
+  // Previously committed versions, most recent last
+  const [undoStack, setUndoStack] = useState<EngineeredPrompt[]>([]);
+
+  // A fresh analysis starts a new edit session
+  useEffect(() => {
+    setIsEditing(false);
+    setDraft(null);
+    setErrors({});
+    setUndoStack([]);
+  }, [originalPromptData]);
+
+  const isLoading = status === AppStatus.ANALYZING || status === AppStatus.GENERATING_IMAGE;
+  const isEdited = !!promptData && !!originalPromptData && !isSamePromptText(promptData, originalPromptData);
+
+  const commit = (next: EngineeredPrompt) => {
+    if (!promptData || isSamePromptText(next, promptData)) return;
+    setUndoStack(prev => [...prev, promptData]);
+    onPromptChange(next);
+  };
+
+  const startEditing = () => {
+    if (!promptData) return;
+    setDraft({ ...promptData });
+    setErrors({});
+    setIsEditing(true);
+  };
+
+  const updateDraft = (field: 'posterTitle' | 'posterSubtitle' | 'visualPrompt' | 'secondaryTitle' | 'secondarySubtitle', value: string) => {
+    if (!draft) return;
+    const next = { ...draft, [field]: value };
+    setDraft(next);
+    // Only re-validate fields that already failed, so typing isn't noisy
+    if (field in errors) setErrors(validatePromptEdits(next, promptData ?? undefined));
+  };
+
+  const saveEdits = () => {
+    if (!draft) return;
+    const validation = validatePromptEdits(draft, promptData ?? undefined);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+    commit({
+      ...draft,
+      posterTitle: draft.posterTitle.trim(),
+      posterSubtitle: draft.posterSubtitle.trim(),
+      visualPrompt: draft.visualPrompt.trim(),
+      secondaryTitle: draft.secondaryTitle?.trim(),
+      secondarySubtitle: draft.secondarySubtitle?.trim(),
+    });
+    setIsEditing(false);
+    setDraft(null);
+  };
+
+  const cancelEdits = () => {
+    setIsEditing(false);
+    setDraft(null);
+    setErrors({});
+  };
+
+  const undo = () => {
+    const previous = undoStack[undoStack.length - 1];
+    if (!previous) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    onPromptChange(previous);
+  };
+
+  const revertToOriginal = () => {
+    if (originalPromptData) commit(originalPromptData);
+    cancelEdits();
+  };
+
   // Skeleton loader for when analyzing
   if (status === AppStatus.ANALYZING) {
     return (
@@ -39,9 +119,46 @@ const PromptDisplay: React.FC<PromptDisplayProps> = ({ promptData, status }) =>
 
   return (
     <div className="h-full flex flex-col p-6 glass-panel rounded-2xl overflow-hidden">
-      <div className="flex-shrink-0 flex items-center gap-2 mb-4">
-        <Terminal size={20} className="text-blue-400" />
-        <h2 className="text-xl font-bold text-gray-200">Engineered Prompt</h2>
+      <div className="flex-shrink-0 flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Terminal size={20} className="text-blue-400" />
+          <h2 className="text-xl font-bold text-gray-200">Engineered Prompt</h2>
+          {isEdited && (
+            <span className="px-2 py-0.5 rounded-full bg-yellow-500/10 border border-yellow-500/30 text-[10px] uppercase tracking-wider text-yellow-400">
+              Edited
+            </span>
+          )}
+          {fromCache && (
+            <span className="px-2 py-0.5 rounded-full bg-emerald-500/10 border border-emerald-500/30 text-[10px] uppercase tracking-wider text-emerald-400" title="Served from cache; generate with the cache bypassed for a fresh prompt">
+              Cached
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 text-gray-400">
+          {isEditing ? (
+            <>
+              <button onClick={saveEdits} className="p-1.5 rounded-md hover:bg-green-500/20 hover:text-green-400 transition-colors" title="Save edits">
+                <Check size={16} />
+              </button>
+              <button onClick={cancelEdits} className="p-1.5 rounded-md hover:bg-white/10 hover:text-white transition-colors" title="Cancel">
+                <X size={16} />
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={undo} disabled={isLoading || undoStack.length === 0} className="p-1.5 rounded-md hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none" title="Undo last edit">
+                <Undo2 size={16} />
+              </button>
+              <button onClick={revertToOriginal} disabled={isLoading || !isEdited} className="p-1.5 rounded-md hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none" title="Revert to AI original">
+                <RotateCcw size={16} />
+              </button>
+              <button onClick={startEditing} disabled={isLoading} className="p-1.5 rounded-md hover:bg-white/10 hover:text-white transition-colors disabled:opacity-30 disabled:pointer-events-none" title="Edit prompt">
+                <Pencil size={16} />
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       <div className="flex-grow flex flex-col min-h-0 gap-4">
@@ -53,15 +170,78 @@ const PromptDisplay: React.FC<PromptDisplayProps> = ({ promptData, status }) =>
             <div className="grid grid-cols-1 gap-4">
                 <div>
                 <label className="block text-xs text-gray-400 mb-1">Title</label>
-                <div className="text-lg font-serif text-white">{promptData.posterTitle}</div>
+                {isEditing && draft ? (
+                  <>
+                    <input
+                      value={draft.posterTitle}
+                      onChange={(e) => updateDraft('posterTitle', e.target.value)}
+                      className={`w-full bg-black/30 rounded-md px-2 py-1 text-lg font-serif text-white outline-none border ${errors.posterTitle ? 'border-red-500/60' : 'border-gray-700 focus:border-blue-500/60'}`}
+                    />
+                    {errors.posterTitle && <p className="text-xs text-red-400 mt-1">{errors.posterTitle}</p>}
+                  </>
+                ) : (
+                  <div className="text-lg font-serif text-white">{promptData.posterTitle}</div>
+                )}
+                {promptData.secondaryTitle !== undefined && (isEditing && draft ? (
+                  <input
+                    value={draft.secondaryTitle ?? ''}
+                    onChange={(e) => updateDraft('secondaryTitle', e.target.value)}
+                    className="w-full mt-1 bg-black/30 rounded-md px-2 py-1 text-sm font-serif text-gray-300 outline-none border border-gray-700 focus:border-blue-500/60"
+                  />
+                ) : (
+                  <div className="text-sm font-serif text-gray-300 mt-0.5">{promptData.secondaryTitle}</div>
+                ))}
                 </div>
                 <div>
                 <label className="block text-xs text-gray-400 mb-1">Subtitle / Context</label>
-                <div className="text-sm font-mono text-yellow-400">{promptData.posterSubtitle}</div>
+                {isEditing && draft ? (
+                  <>
+                    <input
+                      value={draft.posterSubtitle}
+                      onChange={(e) => updateDraft('posterSubtitle', e.target.value)}
+                      className={`w-full bg-black/30 rounded-md px-2 py-1 text-sm font-mono text-yellow-400 outline-none border ${errors.posterSubtitle ? 'border-red-500/60' : 'border-gray-700 focus:border-blue-500/60'}`}
+                    />
+                    {errors.posterSubtitle && <p className="text-xs text-red-400 mt-1">{errors.posterSubtitle}</p>}
+                  </>
+                ) : (
+                  <div className="text-sm font-mono text-yellow-400">{promptData.posterSubtitle}</div>
+                )}
+                {promptData.secondarySubtitle !== undefined && (isEditing && draft ? (
+                  <input
+                    value={draft.secondarySubtitle ?? ''}
+                    onChange={(e) => updateDraft('secondarySubtitle', e.target.value)}
+                    className="w-full mt-1 bg-black/30 rounded-md px-2 py-1 text-xs font-mono text-yellow-400/70 outline-none border border-gray-700 focus:border-blue-500/60"
+                  />
+                ) : (
+                  <div className="text-xs font-mono text-yellow-400/70 mt-0.5">{promptData.secondarySubtitle}</div>
+                ))}
                 </div>
             </div>
             </div>
 
+            {/* Detected live-data intent and when the data was fetched */}
+            {promptData.liveData && (
+            <div className="bg-gray-800/40 rounded-lg p-4 border border-gray-700/50">
+                <div className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-3 flex items-center gap-2">
+                <Radio size={12} />
+                <span>Live Data</span>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="px-2 py-0.5 rounded-full bg-blue-500/10 border border-blue-500/30 text-blue-300">
+                    {LIVE_DATA_CATEGORIES[promptData.liveData.category]}
+                </span>
+                {promptData.liveData.entities.map(entity => (
+                    <span key={entity} className="px-2 py-0.5 rounded-full bg-gray-700/60 text-gray-300">{entity}</span>
+                ))}
+                </div>
+                <p className="text-[11px] text-gray-500 mt-2">
+                {promptData.liveData.grounded
+                    ? `Searched ${new Date(promptData.liveData.retrievedAt).toLocaleString()}`
+                    : 'Not grounded with search'}
+                </p>
+            </div>
+            )}
+
             {/* Grounding Sources (if available) */}
             {promptData.groundingSources && promptData.groundingSources.length > 0 && (
             <div className="bg-gray-800/40 rounded-lg p-4 border border-gray-700/50">
@@ -91,9 +271,20 @@ const PromptDisplay: React.FC<PromptDisplayProps> = ({ promptData, status }) =>
         {/* The Visual Prompt - Takes remaining space and scrolls internally */}
         <div className="flex-grow flex flex-col min-h-0 space-y-2">
             <div className="flex-shrink-0 text-xs uppercase tracking-wider text-gray-500 font-bold">Visual Description</div>
-            <div className="flex-grow overflow-y-auto custom-scrollbar p-4 bg-black/30 rounded-lg border border-gray-800 text-gray-300 text-sm leading-relaxed font-mono whitespace-pre-wrap">
-                {promptData.visualPrompt}
-            </div>
+            {isEditing && draft ? (
+              <>
+                <textarea
+                    value={draft.visualPrompt}
+                    onChange={(e) => updateDraft('visualPrompt', e.target.value)}
+                    className={`flex-grow resize-none custom-scrollbar p-4 bg-black/30 rounded-lg border text-gray-300 text-sm leading-relaxed font-mono outline-none ${errors.visualPrompt ? 'border-red-500/60' : 'border-gray-800 focus:border-blue-500/60'}`}
+                />
+                {errors.visualPrompt && <p className="flex-shrink-0 text-xs text-red-400">{errors.visualPrompt}</p>}
+              </>
+            ) : (
+              <div className="flex-grow overflow-y-auto custom-scrollbar p-4 bg-black/30 rounded-lg border border-gray-800 text-gray-300 text-sm leading-relaxed font-mono whitespace-pre-wrap">
+                  {promptData.visualPrompt}
+              </div>
+            )}
         </div>
       </div>
     </div>
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { PromptTemplateId, PromptTemplateRecord, PromptTemplateSet } from '../types';
+import {
+  PROMPT_TEMPLATES, BUILT_IN_TEMPLATE_VERSION, getTemplateDefinition, findUnknownVariables, formatTemplateVersion,
+} from '../services/promptTemplates';
+import { diffLines } from '../utils/lineDiff';
+import { X, FileCode, Download, Upload, GitCompare, AlertTriangle } from 'lucide-react';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplateSet;
+  records: PromptTemplateRecord[];
+  onSaveVersion: (id: PromptTemplateId, body: string) => Promise<void>;
+  onActivate: (id: PromptTemplateId, version: number) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const DIFF_CLASSES = {
+  same: 'text-gray-400',
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300 line-through',
+};
+
+const DIFF_MARKS = { same: ' ', added: '+', removed: '-' };
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+  templates, records, onSaveVersion, onActivate, onImport, onExport, onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATES[0].id);
+  const [draft, setDraft] = useState(templates[selectedId].body);
+  const [showDiff, setShowDiff] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const definition = getTemplateDefinition(selectedId);
+  const active = templates[selectedId];
+  const record = records.find(r => r.id === selectedId);
+  const unknown = findUnknownVariables(selectedId, draft);
+  const isDirty = draft !== active.body;
+
+  // Switching templates or versions discards the draft
+  useEffect(() => {
+    setDraft(active.body);
+    setError(null);
+  }, [selectedId, active.version, active.body]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (e: any) {
+      setError(e?.message || 'Something went wrong.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-gray-700/50">
+          <div className="flex items-center gap-2 text-gray-200">
+            <FileCode size={18} className="text-blue-400" />
+            <h2 className="font-bold">Prompt Templates</h2>
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-md hover:bg-white/10 text-gray-300 cursor-pointer">
+              <Upload size={12} />
+              <span>Import</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) run(() => onImport(file));
+                }}
+              />
+            </label>
+            <button onClick={onExport} className="flex items-center gap-1.5 px-3 py-1.5 rounded-md hover:bg-white/10 text-gray-300">
+              <Download size={12} />
+              <span>Export</span>
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-md hover:bg-white/10 text-gray-400 hover:text-white" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-[240px_1fr] gap-4 p-4 overflow-hidden">
+          {/* Template list */}
+          <div className="min-h-0 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+            {PROMPT_TEMPLATES.map(template => (
+              <button
+                key={template.id}
+                onClick={() => setSelectedId(template.id)}
+                className={`w-full text-left rounded-lg border p-3 ${template.id === selectedId ? 'bg-blue-500/10 border-blue-500/40' : 'bg-gray-800/40 border-gray-700/50 hover:border-gray-600'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-white truncate">{template.name}</span>
+                  <span className={`text-[10px] flex-shrink-0 ${templates[template.id].version === BUILT_IN_TEMPLATE_VERSION ? 'text-gray-500' : 'text-blue-300'}`}>
+                    {formatTemplateVersion(templates[template.id].version)}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{template.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="min-h-0 flex flex-col gap-3 text-xs text-gray-400">
+            <div className="flex flex-wrap items-center gap-2">
+              <span>Active version</span>
+              <select
+                value={active.version}
+                onChange={(e) => run(() => onActivate(selectedId, Number(e.target.value)))}
+                className="bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none"
+              >
+                <option value={BUILT_IN_TEMPLATE_VERSION}>Built-in</option>
+                {[...(record?.versions ?? [])].reverse().map(v => (
+                  <option key={v.version} value={v.version}>
+                    {formatTemplateVersion(v.version)} · {new Date(v.createdAt).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowDiff(!showDiff)}
+                className={`ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md ${showDiff ? 'bg-blue-600 text-white' : 'hover:bg-white/10 text-gray-300'}`}
+              >
+                <GitCompare size={12} />
+                <span>Diff vs built-in</span>
+              </button>
+            </div>
+
+            {showDiff ? (
+              <pre className="flex-grow min-h-0 overflow-auto custom-scrollbar bg-black/30 rounded-md border border-gray-700 p-2 font-mono text-[11px] leading-relaxed">
+                {diffLines(definition.body, draft).map((line, i) => (
+                  <div key={i} className={DIFF_CLASSES[line.kind]}>{DIFF_MARKS[line.kind]} {line.text || ' '}</div>
+                ))}
+              </pre>
+            ) : (
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                className="flex-grow min-h-0 w-full bg-black/30 rounded-md p-2 font-mono text-[11px] leading-relaxed text-gray-200 outline-none border border-gray-700 focus:border-blue-500/60 resize-none custom-scrollbar"
+              />
+            )}
+
+            <div className="flex flex-wrap gap-1.5">
+              {definition.variables.map(variable => (
+                <span key={variable.name} className="px-1.5 py-0.5 rounded bg-gray-800 border border-gray-700 font-mono text-[10px] text-gray-300" title={variable.description}>
+                  {`{{${variable.name}}}`}
+                </span>
+              ))}
+            </div>
+            {unknown.length > 0 && (
+              <p className="flex items-center gap-1.5 text-yellow-400">
+                <AlertTriangle size={12} />
+                <span>Unknown variables are sent as-is: {unknown.map(name => `{{${name}}}`).join(', ')}</span>
+              </p>
+            )}
+            {error && <p className="text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setDraft(active.body)} disabled={!isDirty} className="px-3 py-1.5 rounded-md hover:bg-white/10 text-gray-300 disabled:opacity-40">
+                Discard changes
+              </button>
+              <button onClick={() => setDraft(definition.body)} disabled={draft === definition.body} className="px-3 py-1.5 rounded-md hover:bg-white/10 text-gray-300 disabled:opacity-40">
+                Load built-in
+              </button>
+              <button
+                onClick={() => run(() => onSaveVersion(selectedId, draft))}
+                disabled={!isDirty || !draft.trim()}
+                className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:text-gray-500 text-white"
+              >
+                Save as new version
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -0,0 +1,119 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Crop, RotateCcw, X } from 'lucide-react';
+import { CropRect } from '../types';
+
+interface ReferenceCropperProps {
+  imageUrl: string;
+  initialCrop?: CropRect;
+  // null = use the whole image
+  onApply: (crop: CropRect | null) => void;
+  onClose: () => void;
+}
+
+// Crops smaller than this (in fractions) are treated as accidental clicks
+const MIN_CROP = 0.03;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Drag a rectangle over the reference to choose the region that is sent
+const ReferenceCropper: React.FC<ReferenceCropperProps> = ({ imageUrl, initialCrop, onApply, onClose }) => {
+  const [crop, setCrop] = useState<CropRect | null>(initialCrop || null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toPoint(e);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toPoint(e);
+    setCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    startRef.current = null;
+    setCrop(prev => prev && prev.width >= MIN_CROP && prev.height >= MIN_CROP ? prev : null);
+  };
+
+  const percent = (value: number) => `${value * 100}%`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-2xl p-3 flex flex-col gap-3 max-w-3xl w-full max-h-full" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-1">
+          <div className="flex items-center gap-2 text-gray-300">
+            <Crop size={16} />
+            <span className="text-sm font-medium">Crop / focus region</span>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md text-gray-400 hover:bg-white/10 hover:text-white" title="Close (Esc)">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-grow min-h-0 flex items-center justify-center bg-black/50 rounded-xl overflow-hidden">
+          <div
+            className="relative cursor-crosshair touch-none select-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={imageUrl} alt="Reference to crop" className="block max-w-full max-h-[65vh] object-contain pointer-events-none" draggable={false} />
+            {crop && (
+              <div
+                className="absolute border-2 border-blue-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                style={{ left: percent(crop.x), top: percent(crop.y), width: percent(crop.width), height: percent(crop.height) }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[11px] text-gray-500 px-1">
+            {crop ? `${Math.round(crop.width * 100)}% × ${Math.round(crop.height * 100)}% of the image` : 'Drag to select the region to send. No selection = whole image.'}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCrop(null)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs border border-gray-700"
+            >
+              <RotateCcw size={12} />
+              <span>Reset</span>
+            </button>
+            <button
+              onClick={() => onApply(crop)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white text-xs"
+            >
+              <Crop size={12} />
+              <span>Apply</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceCropper;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { PosterRevision } from '../types';
+import { Wand2, GitBranch, CornerDownRight, Brush } from 'lucide-react';
+
+interface RevisionTimelineProps {
+  revisions: PosterRevision[];
+  activeId: string | null;
+  onSelect: (revision: PosterRevision) => void;
+  onRefine: (instruction: string) => void;
+  // Opens the masked region editor
+  onEditRegion?: () => void;
+  isRefining: boolean;
+  disabled?: boolean;
+  error?: string | null;
+}
+
+const SUGGESTIONS = ['Make the sky sunset', 'Add a tiny cat on the roof', 'Fix the title spelling'];
+
+// Ids of the active revision and all of its ancestors
+const getActivePath = (revisions: PosterRevision[], activeId: string | null): Set<string> => {
+  const byId = new Map(revisions.map(r => [r.id, r]));
+  const path = new Set<string>();
+  let current = activeId ? byId.get(activeId) : undefined;
+  while (current && !path.has(current.id)) {
+    path.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// Refinement input plus the revision tree, flattened in creation order
+const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ revisions, activeId, onSelect, onRefine, onEditRegion, isRefining, disabled, error }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = () => {
+    const trimmed = instruction.trim();
+    if (!trimmed || isRefining || disabled) return;
+    onRefine(trimmed);
+    setInstruction('');
+  };
+
+  const activePath = getActivePath(revisions, activeId);
+  const indexOf = (id: string | null) => revisions.findIndex(r => r.id === id);
+  const active = revisions.find(r => r.id === activeId);
+  const isBranching = !!active && revisions.some(r => r.parentId === active.id);
+
+  return (
+    <div className="flex-shrink-0 glass-panel rounded-xl p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <Wand2 size={14} className="text-purple-400 flex-shrink-0" />
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          placeholder={isBranching ? 'Branch from this revision...' : 'Refine this poster, e.g. "make the sky sunset"'}
+          className="flex-grow min-w-0 bg-black/30 rounded-md px-2 py-1.5 text-xs text-gray-200 placeholder-gray-600 outline-none border border-gray-700 focus:border-purple-500/60"
+          disabled={isRefining || disabled}
+        />
+        <button
+          onClick={submit}
+          disabled={!instruction.trim() || isRefining || disabled}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-purple-600 hover:bg-purple-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-xs transition-colors"
+        >
+          {isRefining
+            ? <span className="w-3 h-3 border-2 border-gray-400 border-t-transparent rounded-full animate-spin"></span>
+            : isBranching ? <GitBranch size={12} /> : <Wand2 size={12} />}
+          <span>{isBranching ? 'Branch' : 'Refine'}</span>
+        </button>
+        {onEditRegion && (
+          <button
+            onClick={onEditRegion}
+            disabled={isRefining || disabled}
+            className="p-1.5 rounded-md bg-gray-800 hover:bg-gray-700 disabled:text-gray-600 text-gray-300 hover:text-white border border-gray-700 transition-colors"
+            title="Paint a region to edit"
+          >
+            <Brush size={14} />
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-[11px] text-red-400 px-1">{error}</p>}
+
+      {revisions.length === 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {SUGGESTIONS.map(s => (
+            <button
+              key={s}
+              onClick={() => setInstruction(s)}
+              className="px-2 py-0.5 rounded-full bg-gray-800 hover:bg-gray-700 text-[11px] text-gray-400 hover:text-white border border-gray-700"
+              disabled={isRefining || disabled}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto custom-scrollbar pb-1">
+          {revisions.map((revision, index) => {
+            const parentIndex = indexOf(revision.parentId);
+            // A revision whose parent is not its predecessor starts a new branch
+            const branched = parentIndex !== -1 && parentIndex !== index - 1;
+            return (
+              <button
+                key={revision.id}
+                onClick={() => onSelect(revision)}
+                disabled={isRefining}
+                title={revision.instruction || 'Original'}
+                className={`relative flex-shrink-0 w-16 rounded-md overflow-hidden border-2 transition-colors text-left
+                  ${revision.id === activeId ? 'border-purple-500' : activePath.has(revision.id) ? 'border-purple-500/40' : 'border-transparent hover:border-gray-600'}
+                `}
+              >
+                <img src={revision.imageBase64} alt={`Revision ${index + 1}`} className="w-full h-16 object-cover" />
+                <span className="absolute top-0.5 left-0.5 px-1 rounded bg-black/70 text-[9px] text-gray-200 flex items-center gap-0.5">
+                  {branched && <CornerDownRight size={8} />}
+                  R{index}{parentIndex !== -1 ? `←R${parentIndex}` : ''}
+                </span>
+                <span className="block px-1 py-0.5 bg-black/60 text-[9px] text-gray-400 truncate">
+                  {revision.instruction || 'Original'}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionTimeline;
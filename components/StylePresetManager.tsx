@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { StylePreset } from '../types';
+import { X, Plus, Trash2, Copy, Palette } from 'lucide-react';
+
+interface StylePresetManagerProps {
+  presets: StylePreset[];
+  onSave: (preset: Omit<StylePreset, 'id' | 'builtIn'> & { id?: string }) => Promise<StylePreset>;
+  onDelete: (preset: StylePreset) => Promise<void>;
+  onClose: () => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  description: string;
+  engineeringVisuals: string;
+  styleModifiers: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', description: '', engineeringVisuals: '', styleModifiers: '' };
+
+const toDraft = (preset: StylePreset, asCopy: boolean): Draft => ({
+  id: asCopy ? undefined : preset.id,
+  name: asCopy ? `${preset.name} (Copy)` : preset.name,
+  description: preset.description,
+  engineeringVisuals: preset.engineeringVisuals,
+  styleModifiers: preset.styleModifiers.join('\n'),
+});
+
+const StylePresetManager: React.FC<StylePresetManagerProps> = ({ presets, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const modifiers = draft.styleModifiers.split('\n').map(l => l.trim()).filter(Boolean);
+    if (!draft.name.trim() || !draft.engineeringVisuals.trim() || modifiers.length === 0) {
+      setError('Name, visual description and at least one style modifier are required.');
+      return;
+    }
+    try {
+      await onSave({
+        id: draft.id,
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        engineeringVisuals: draft.engineeringVisuals.trim(),
+        styleModifiers: modifiers,
+      });
+      setDraft(null);
+      setError(null);
+    } catch (e: any) {
+      setError(e?.message || 'Failed to save preset.');
+    }
+  };
+
+  const inputClass = 'w-full bg-black/30 rounded-md px-2 py-1.5 text-sm text-gray-200 outline-none border border-gray-700 focus:border-blue-500/60';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-gray-700/50">
+          <div className="flex items-center gap-2 text-gray-200">
+            <Palette size={18} className="text-blue-400" />
+            <h2 className="font-bold">Style Presets</h2>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md hover:bg-white/10 text-gray-400 hover:text-white" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 overflow-hidden">
+          {/* Preset list */}
+          <div className="min-h-0 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+            {presets.map(preset => (
+              <div key={preset.id} className="rounded-lg bg-gray-800/40 border border-gray-700/50 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-white truncate">{preset.name}</span>
+                  <div className="flex items-center gap-1 text-gray-400 flex-shrink-0">
+                    <button onClick={() => setDraft(toDraft(preset, true))} className="p-1 rounded hover:bg-white/10 hover:text-white" title="Duplicate as custom preset">
+                      <Copy size={14} />
+                    </button>
+                    {!preset.builtIn && (
+                      <>
+                        <button onClick={() => setDraft(toDraft(preset, false))} className="px-1.5 py-0.5 rounded text-xs hover:bg-white/10 hover:text-white">
+                          Edit
+                        </button>
+                        <button onClick={() => onDelete(preset)} className="p-1 rounded hover:bg-red-500/20 hover:text-red-400" title="Delete">
+                          <Trash2 size={14} />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{preset.builtIn ? 'Built-in · ' : 'Custom · '}{preset.description}</p>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...EMPTY_DRAFT })}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border border-dashed border-gray-700 text-sm text-gray-400 hover:text-white hover:bg-white/5"
+            >
+              <Plus size={14} />
+              <span>New preset</span>
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="min-h-0 overflow-y-auto custom-scrollbar">
+            {draft ? (
+              <div className="space-y-3 text-xs text-gray-400">
+                <label className="block space-y-1">
+                  <span>Name</span>
+                  <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                </label>
+                <label className="block space-y-1">
+                  <span>Description</span>
+                  <input className={inputClass} value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+                </label>
+                <label className="block space-y-1">
+                  <span>Visuals phrase (used by the prompt engineer)</span>
+                  <textarea rows={3} className={`${inputClass} resize-none`} value={draft.engineeringVisuals} onChange={(e) => setDraft({ ...draft, engineeringVisuals: e.target.value })} />
+                </label>
+                <label className="block space-y-1">
+                  <span>Style modifiers (one per line, added to the image prompt)</span>
+                  <textarea rows={5} className={`${inputClass} resize-none font-mono`} value={draft.styleModifiers} onChange={(e) => setDraft({ ...draft, styleModifiers: e.target.value })} />
+                </label>
+                {error && <p className="text-red-400">{error}</p>}
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => { setDraft(null); setError(null); }} className="px-3 py-1.5 rounded-md hover:bg-white/10 text-gray-300">Cancel</button>
+                  <button onClick={handleSave} className="px-3 py-1.5 rounded-md bg-blue-600 hover:bg-blue-500 text-white">Save preset</button>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-center text-sm text-gray-500 p-4">
+                Duplicate a built-in preset or create a new one to define your own style.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetManager;
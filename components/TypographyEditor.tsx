@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, SlidersHorizontal, AlignLeft, AlignCenter, AlignRight, ArrowLeft } from 'lucide-react';
+import {
+  TypographySettings, TextScript, TextAlign, FONT_OPTIONS, SCRIPT_LABELS, DEFAULT_TYPOGRAPHY,
+  TextZones, SecondaryText, detectScript, renderPoster, composePoster,
+} from '../utils/typography';
+import { PosterProvenance } from '../types';
+import { downloadBlob, downloadDataUrl } from '../utils/download';
+import { embedProvenance, posterFilename } from '../services/provenance';
+
+interface TypographyEditorProps {
+  imageBase64: string;
+  title: string;
+  subtitle: string;
+  // Text zones of the run's layout; defaults to the classic top/bottom bands
+  zones?: TextZones;
+  // Second-language lines of a bilingual poster
+  secondaryTitle?: string;
+  secondarySubtitle?: string;
+  // Embedded in the exported PNG when set
+  provenance?: PosterProvenance | null;
+  settings: TypographySettings;
+  onSettingsChange: (settings: TypographySettings) => void;
+  onBack?: () => void;
+}
+
+const ALIGN_ICONS: Record<TextAlign, React.ReactNode> = {
+  left: <AlignLeft size={14} />,
+  center: <AlignCenter size={14} />,
+  right: <AlignRight size={14} />,
+};
+
+const TypographyEditor: React.FC<TypographyEditorProps> = ({ imageBase64, title, subtitle, zones, secondaryTitle, secondarySubtitle, provenance, settings, onSettingsChange, onBack }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showControls, setShowControls] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const secondary: SecondaryText | undefined = secondaryTitle || secondarySubtitle
+    ? { title: secondaryTitle || '', subtitle: secondarySubtitle || '' }
+    : undefined;
+
+  // Live preview: re-render whenever the image, text or settings change
+  useEffect(() => {
+    let cancelled = false;
+    const offscreen = document.createElement('canvas');
+    renderPoster(offscreen, imageBase64, title, subtitle, settings, zones, secondary)
+      .then(() => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = offscreen.width;
+        canvas.height = offscreen.height;
+        canvas.getContext('2d')?.drawImage(offscreen, 0, 0);
+      })
+      .catch(e => console.error("Typography preview failed", e));
+    return () => { cancelled = true; };
+  }, [imageBase64, title, subtitle, zones, secondaryTitle, secondarySubtitle, settings]);
+
+  const update = <K extends keyof TypographySettings>(key: K, value: TypographySettings[K]) =>
+    onSettingsChange({ ...settings, [key]: value });
+
+  const updateFont = (script: TextScript, family: string) =>
+    onSettingsChange({ ...settings, fonts: { ...settings.fonts, [script]: family } });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const flattened = await composePoster(imageBase64, title, subtitle, settings, zones, secondary);
+      const filename = posterFilename(Date.now(), 'png');
+      if (provenance) {
+        // Record the text as drawn, which may include edits made after generation
+        const prompt = { ...provenance.prompt, posterTitle: title, posterSubtitle: subtitle, secondaryTitle, secondarySubtitle };
+        downloadBlob(await embedProvenance(flattened, { ...provenance, prompt, textFlattened: true }), filename);
+      } else {
+        downloadDataUrl(flattened, filename);
+      }
+    } catch (e) {
+      console.error("Poster export failed", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Only offer font pickers for the scripts actually in use
+  const scriptsInUse = Array.from(new Set([title, subtitle, secondaryTitle, secondarySubtitle].filter((t): t is string => !!t).map(detectScript)));
+
+  return (
+    <div className="h-full w-full glass-panel rounded-2xl p-2 flex flex-col relative group overflow-hidden">
+      <div className="relative flex-grow min-h-0 rounded-xl overflow-hidden bg-black/50 flex items-center justify-center">
+        <canvas ref={canvasRef} className="max-h-full max-w-full object-contain shadow-2xl" />
+
+        <div className="absolute top-0 left-0 right-0 p-3 flex justify-between pointer-events-none">
+          {onBack ? (
+            <button
+              onClick={onBack}
+              className="pointer-events-auto p-2 bg-black/50 hover:bg-black/70 rounded-lg text-white backdrop-blur-md transition-colors"
+              title="Back to variants"
+            >
+              <ArrowLeft size={16} />
+            </button>
+          ) : <span />}
+          <button
+            onClick={() => setShowControls(!showControls)}
+            className={`pointer-events-auto p-2 rounded-lg backdrop-blur-md transition-colors ${showControls ? 'bg-blue-600 text-white' : 'bg-black/50 hover:bg-black/70 text-white'}`}
+            title="Typography settings"
+          >
+            <SlidersHorizontal size={16} />
+          </button>
+        </div>
+
+        <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex justify-end gap-3">
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="p-2 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 rounded-lg text-white shadow-lg transition-colors flex items-center gap-2 px-4"
+          >
+            <Download size={20} />
+            <span className="font-medium text-sm">{isExporting ? 'Exporting...' : 'Export Poster'}</span>
+          </button>
+        </div>
+      </div>
+
+      {showControls && (
+        <div className="flex-shrink-0 max-h-[45%] overflow-y-auto custom-scrollbar mt-2 p-3 rounded-xl bg-gray-900/80 border border-gray-700/50 grid grid-cols-2 gap-3 text-xs text-gray-400">
+          {scriptsInUse.map(script => (
+            <label key={script} className="col-span-2 flex items-center justify-between gap-2">
+              <span>{SCRIPT_LABELS[script]} font</span>
+              <select
+                value={settings.fonts[script]}
+                onChange={(e) => updateFont(script, e.target.value)}
+                className="bg-gray-800 rounded px-2 py-1 text-gray-200 outline-none"
+              >
+                {FONT_OPTIONS[script].map(option => (
+                  <option key={option.family} value={option.family}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+
+          <label className="flex flex-col gap-1">
+            <span>Title size</span>
+            <input type="range" min={0.03} max={0.14} step={0.005} value={settings.titleSize} onChange={(e) => update('titleSize', Number(e.target.value))} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Subtitle size</span>
+            <input type="range" min={0.015} max={0.06} step={0.0025} value={settings.subtitleSize} onChange={(e) => update('subtitleSize', Number(e.target.value))} />
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Title weight</span>
+            <select value={settings.titleWeight} onChange={(e) => update('titleWeight', Number(e.target.value))} className="bg-gray-800 rounded px-2 py-1 text-gray-200 outline-none">
+              {[300, 400, 500, 600, 700, 900].map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Subtitle weight</span>
+            <select value={settings.subtitleWeight} onChange={(e) => update('subtitleWeight', Number(e.target.value))} className="bg-gray-800 rounded px-2 py-1 text-gray-200 outline-none">
+              {[300, 400, 500, 600, 700].map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Title color</span>
+            <input type="color" value={settings.titleColor} onChange={(e) => update('titleColor', e.target.value)} className="w-8 h-6 bg-transparent" />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span>Subtitle color</span>
+            <input type="color" value={settings.subtitleColor} onChange={(e) => update('subtitleColor', e.target.value)} className="w-8 h-6 bg-transparent" />
+          </label>
+
+          <label className="flex items-center justify-between gap-2">
+            <span>Stroke</span>
+            <input type="color" value={settings.strokeColor} onChange={(e) => update('strokeColor', e.target.value)} className="w-8 h-6 bg-transparent" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span>Stroke width</span>
+            <input type="range" min={0} max={0.2} step={0.01} value={settings.strokeWidth} onChange={(e) => update('strokeWidth', Number(e.target.value))} />
+          </label>
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={settings.shadow} onChange={(e) => update('shadow', e.target.checked)} />
+            <span>Drop shadow</span>
+          </label>
+          <div className="flex items-center justify-end gap-1">
+            {(Object.keys(ALIGN_ICONS) as TextAlign[]).map(align => (
+              <button
+                key={align}
+                onClick={() => update('align', align)}
+                className={`p-1.5 rounded ${settings.align === align ? 'bg-blue-600 text-white' : 'hover:bg-white/10'}`}
+                title={`Align ${align}`}
+              >
+                {ALIGN_ICONS[align]}
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onSettingsChange(DEFAULT_TYPOGRAPHY)}
+            className="col-span-2 py-1.5 rounded-md border border-gray-700 hover:bg-white/5 hover:text-white transition-colors"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TypographyEditor;
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer, request, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { createApiHandler } from "./app";
+import { createJobQueue } from "./jobs";
+import { GenerationProvider } from "../types";
+import { QuotaError } from "../services/errors";
+import { createAbortError } from "../utils/abort";
+
+const TOKEN = "test-token";
+
+const PROMPT = { posterTitle: "Tiny Harbor", posterSubtitle: "Dawn", visualPrompt: "A harbor" };
+
+const fakeProvider = (): GenerationProvider => ({
+  id: "mock",
+  label: "Fake",
+  models: { text: "fake-text", image: "fake-image" },
+  classifyIntent: vi.fn(async () => ({ category: "none" as const, entities: [] })),
+  engineerPrompt: vi.fn(async () => PROMPT),
+  generatePosterImage: vi.fn(async () => "data:image/png;base64,iVBORw=="),
+  refinePosterImage: vi.fn(),
+  inpaintPosterImage: vi.fn(),
+});
+
+describe("API server", () => {
+  let server: Server;
+  let provider: GenerationProvider;
+  let origin: string;
+
+  beforeEach(async () => {
+    provider = fakeProvider();
+    server = createServer(createApiHandler({ provider, jobs: createJobQueue(1), token: TOKEN }));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Paths below /api, or absolute paths as the API links them
+  const call = (path: string, init: RequestInit = {}) =>
+    fetch(`${origin}${path.startsWith("/api/") ? "" : "/api"}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${TOKEN}`, ...init.headers },
+    });
+
+  const postJson = (path: string, body: unknown) =>
+    call(path, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+  const poll = async (id: string) => {
+    for (let i = 0; i < 50; i++) {
+      const job = await (await call(`/jobs/${id}`)).json();
+      if (["SUCCESS", "ERROR", "CANCELLED"].includes(job.status)) return job;
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    throw new Error("Job did not finish");
+  };
+
+  it("runs a poster job and serves its status and images", async () => {
+    const response = await postJson("/generate-poster", { text: "harbor", variantCount: 2 });
+    expect(response.status).toBe(202);
+    const { id } = await response.json();
+    expect(response.headers.get("location")).toBe(`/api/jobs/${id}`);
+
+    const job = await poll(id);
+    expect(job).toMatchObject({ kind: "generate-poster", status: "SUCCESS", promptData: PROMPT });
+    expect(job.images).toEqual([
+      { index: 0, status: "ready", url: `/api/jobs/${id}/images/0` },
+      { index: 1, status: "ready", url: `/api/jobs/${id}/images/1` },
+    ]);
+
+    const image = await call(job.images[1].url);
+    expect(image.headers.get("content-type")).toBe("image/png");
+    expect(Buffer.from(await image.arrayBuffer())).toEqual(Buffer.from("iVBORw==", "base64"));
+
+    // Image data is handed out once, then released
+    const again = await call(job.images[1].url);
+    expect(again.status).toBe(410);
+    expect((await poll(id)).images[1]).toEqual({ index: 1, status: "released" });
+  });
+
+  it("answers with the result directly when asked to wait", async () => {
+    const prompt = await postJson("/engineer-prompt?wait=1", { text: "harbor" });
+    expect(await prompt.json()).toEqual(PROMPT);
+    expect(prompt.headers.get("x-job-id")).toBeTruthy();
+
+    const image = await postJson("/generate-image?wait=1", { prompt: "A harbor", aspectRatio: "1:1" });
+    expect(image.headers.get("content-type")).toBe("image/png");
+    expect(vi.mocked(provider.engineerPrompt)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(provider.generatePosterImage).mock.calls[0].slice(0, 3)).toEqual(["A harbor", "1:1", "1K"]);
+  });
+
+  it("accepts multipart uploads as reference images", async () => {
+    const form = new FormData();
+    form.append("text", "my cat");
+    form.append("reference", new Blob([Buffer.from([1, 2, 3])], { type: "image/jpeg" }), "cat.jpg");
+    await call("/engineer-prompt?wait=1", { method: "POST", body: form });
+
+    expect(vi.mocked(provider.engineerPrompt).mock.calls[0][1]).toEqual([
+      { id: "reference-1", dataUrl: "data:image/jpeg;base64,AQID", role: "subject" },
+    ]);
+  });
+
+  it("reports bad requests and upstream errors", async () => {
+    const bad = await postJson("/generate-poster", { text: "" });
+    expect(bad.status).toBe(400);
+    expect(await bad.json()).toEqual({ error: { kind: "BAD_REQUEST", message: "text is required." } });
+
+    vi.mocked(provider.engineerPrompt).mockRejectedValueOnce(new QuotaError(1000));
+    const quota = await postJson("/engineer-prompt?wait=1", { text: "harbor" });
+    expect(quota.status).toBe(429);
+    expect((await quota.json()).job.status).toBe("ERROR");
+
+    expect((await call("/jobs/unknown")).status).toBe(404);
+  });
+
+  it("only serves local requests, and jobs only with the token", async () => {
+    expect((await call("/health", { headers: { Origin: "https://evil.example" } })).status).toBe(403);
+    expect((await call("/health", { headers: { Origin: "http://localhost:3000" } })).status).toBe(200);
+    expect((await fetch(`${origin}/api/jobs/unknown`)).status).toBe(401);
+
+    // A cross-site form post cannot set a JSON content type
+    const plain = await call("/generate-poster", { method: "POST", headers: { "Content-Type": "text/plain" }, body: '{"text":"harbor"}' });
+    expect(plain.status).toBe(415);
+    expect(provider.engineerPrompt).not.toHaveBeenCalled();
+  });
+
+  it("cancels queued and running jobs", async () => {
+    vi.mocked(provider.engineerPrompt).mockImplementation((_text, _refs, _locale, options) =>
+      new Promise((_, reject) => options?.signal?.addEventListener("abort", () => reject(createAbortError()))));
+    const running = await (await postJson("/engineer-prompt", { text: "a" })).json();
+    const queued = await (await postJson("/engineer-prompt", { text: "b" })).json();
+    expect(queued.status).toBe("IDLE");
+
+    const cancelled = await (await call(`/jobs/${queued.id}`, { method: "DELETE" })).json();
+    expect(cancelled.status).toBe("CANCELLED");
+    await call(`/jobs/${running.id}`, { method: "DELETE" });
+    expect((await poll(running.id)).status).toBe("CANCELLED");
+    expect(provider.engineerPrompt).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Gemini key proxy", () => {
+  let upstream: Server;
+  let server: Server;
+  let base: string;
+  let seen: { url?: string; key?: string | string[] };
+
+  beforeEach(async () => {
+    seen = {};
+    upstream = createServer((req, res) => {
+      if (req.url?.startsWith("/v1beta/broken")) {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.write("{\"partial\":");
+        setTimeout(() => res.socket?.destroy(), 10);
+        return;
+      }
+      seen.url = req.url;
+      seen.key = req.headers["x-goog-api-key"];
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ models: [] }));
+    });
+    await new Promise<void>(resolve => upstream.listen(0, "127.0.0.1", resolve));
+    const upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+    server = createServer(createApiHandler({
+      provider: fakeProvider(),
+      jobs: createJobQueue(1),
+      token: TOKEN,
+      keyProxy: { apiKey: "secret", upstream: upstreamUrl },
+    }));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await new Promise(resolve => upstream.close(resolve));
+  });
+
+  it("forwards REST calls with the server's key in place of the client's", async () => {
+    expect((await (await fetch(`${base}/health`)).json()).keyProxy).toBe(true);
+
+    const response = await fetch(`${base}/gemini/v1beta/models?pageSize=1&key=leaked`, { headers: { "x-goog-api-key": "proxy" } });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ models: [] });
+    expect(seen).toEqual({ url: "/v1beta/models?pageSize=1", key: "secret" });
+  });
+
+  it("refuses requests relayed from other machines", async () => {
+    // What the Vite dev server forwards when opened at its LAN address
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const { port } = server.address() as AddressInfo;
+      request({ host: "127.0.0.1", port, path: "/api/gemini/v1beta/models", headers: { Host: "192.168.1.20:3000" } }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on("error", reject).end();
+    });
+    expect(status).toBe(403);
+    expect(seen.url).toBeUndefined();
+  });
+
+  it("survives an upstream body that is cut off", async () => {
+    const response = await fetch(`${base}/gemini/v1beta/broken`);
+    await expect(response.text()).rejects.toThrow();
+    expect((await fetch(`${base}/health`)).status).toBe(200);
+  });
+
+  it("only exposes the API version paths", async () => {
+    expect((await fetch(`${base}/gemini/upload/files`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,360 @@
+import { timingSafeEqual } from "node:crypto";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { ReadableStream } from "node:stream/web";
+import { AppStatus, EngineeredPrompt, GenerationProvider } from "../types";
+import { GenerationErrorKind } from "../services/errors";
+import { engineerForInput, generateForInput } from "../services/pipeline";
+import { runWithConcurrency } from "../utils/concurrency";
+import { isAbortError } from "../utils/abort";
+import { ApiInput, parseApiInput, parsePromptField, RequestError } from "./input";
+import { Job, JobImage, JobKind, JobQueue, JobRunner, JobUpdate } from "./jobs";
+
+// ============================================================================
+// HTTP API
+//   GET    /api/health
+//   POST   /api/engineer-prompt       -> job; result is the EngineeredPrompt
+//   POST   /api/generate-image        -> job; images from a given prompt
+//   POST   /api/generate-poster       -> job; both stages
+//   GET    /api/jobs/:id              -> status, prompt and image links
+//   GET    /api/jobs/:id/images/:n    -> image bytes
+//   DELETE /api/jobs/:id              -> cancel
+//   *      /api/gemini/v1beta/...     -> key proxy for the browser app
+// POSTs answer 202 with the job. With ?wait=1 they answer once the job is
+// done: the prompt as JSON, or the first image's bytes (X-Job-Id links back).
+// Only requests addressed to localhost from no origin or a local one are
+// served, so neither other machines (even through the Vite dev server) nor
+// other web sites can spend the key. Job routes also need the server's token.
+// ============================================================================
+
+export const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+// Upper bound on simultaneous image requests within one job
+const MAX_CONCURRENT_IMAGES = 3;
+
+// Upstream failures are reported as gateway errors unless the client can act on them
+const ERROR_STATUS: Partial<Record<GenerationErrorKind, number>> = {
+  QUOTA: 429,
+  SAFETY: 422,
+};
+
+export const GEMINI_UPSTREAM = "https://generativelanguage.googleapis.com";
+
+// Forwards the browser's Gemini calls with the server's key in place of the client's
+export interface KeyProxyOptions {
+  apiKey: string;
+  upstream: string;
+}
+
+interface ApiHandlerOptions {
+  provider: GenerationProvider;
+  jobs: JobQueue;
+  // Bearer token the job routes require
+  token: string;
+  keyProxy?: KeyProxyOptions;
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: string, message: string) =>
+  sendJson(res, status, { error: { kind, message } });
+
+const decodeDataUrl = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: Buffer.from(match[2], "base64") } : null;
+};
+
+const sendImage = (res: ServerResponse, image: JobImage | undefined, headers: Record<string, string> = {}) => {
+  if (image?.released) return sendError(res, 410, "GONE", "The image was already fetched or has expired.");
+  const decoded = image?.dataUrl ? decodeDataUrl(image.dataUrl) : null;
+  if (!decoded) return sendError(res, 404, "NOT_FOUND", image?.error || "The image is not available.");
+  res.writeHead(200, { "Content-Type": decoded.mimeType, "Content-Length": String(decoded.data.length), ...headers });
+  res.end(decoded.data);
+};
+
+const imageState = (image: JobImage) =>
+  image.dataUrl ? "ready" : image.released ? "released" : image.error ? "failed" : "pending";
+
+// Jobs as clients see them: images are links, not data
+export const toJobView = (job: Job) => ({
+  id: job.id,
+  kind: job.kind,
+  status: job.status,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  promptData: job.promptData,
+  images: job.images.map((image, index) => ({
+    index,
+    status: imageState(image),
+    url: image.dataUrl ? `/api/jobs/${job.id}/images/${index}` : undefined,
+    error: image.error,
+  })),
+  error: job.error,
+});
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+const hostnameOf = (url: string): string | null => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Host guards against DNS rebinding and relayed LAN traffic; Origin against other sites
+const isLocalRequest = (req: IncomingMessage): boolean => {
+  const host = req.headers.host ? hostnameOf(`http://${req.headers.host}`) : null;
+  if (!host || !LOOPBACK_HOSTS.includes(host)) return false;
+  const origin = req.headers.origin;
+  return origin === undefined || LOOPBACK_HOSTS.includes(hostnameOf(origin) ?? "");
+};
+
+const hasToken = (req: IncomingMessage, token: string): boolean => {
+  const given = Buffer.from(req.headers.authorization?.match(/^Bearer (.+)$/)?.[1] ?? "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// ============================================================================
+// REQUEST BODIES
+// ============================================================================
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new RequestError("The request body is too large.", 413);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Fields plus uploaded reference images as data URLs
+const readFields = async (req: IncomingMessage): Promise<{ fields: Record<string, unknown>; uploads: string[] }> => {
+  const contentType = req.headers["content-type"] ?? "";
+  const body = await readBody(req);
+
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await new Request("http://localhost/", { method: "POST", headers: { "Content-Type": contentType }, body })
+      .formData()
+      .catch(() => {
+        throw new RequestError("The multipart body could not be parsed.");
+      });
+    const fields: Record<string, unknown> = {};
+    const uploads: string[] = [];
+    for (const [name, value] of form) {
+      if (typeof value === "string") {
+        fields[name] = value;
+      } else if (name === "reference") {
+        uploads.push(`data:${value.type || "image/png"};base64,${Buffer.from(await value.arrayBuffer()).toString("base64")}`);
+      }
+    }
+    return { fields, uploads };
+  }
+
+  if (body.length === 0) return { fields: {}, uploads: [] };
+  // Plain-text and form posts are what other sites can send without asking
+  if (!contentType.startsWith("application/json")) {
+    throw new RequestError("The request body must be JSON or multipart/form-data.", 415);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.toString("utf8"));
+  } catch (e) {
+    throw new RequestError("The request body must be JSON or multipart/form-data.");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new RequestError("The JSON body must be an object.");
+  return { fields: parsed as Record<string, unknown>, uploads: [] };
+};
+
+// ============================================================================
+// KEY PROXY
+// ============================================================================
+
+// Only the REST API versions; anything else on the upstream host stays unreachable
+const PROXY_PATH = /^\/api\/gemini(\/v1(?:alpha|beta)?\/.*)$/;
+
+// Hop-by-hop headers, and encodings fetch has already undone
+const DROPPED_RESPONSE_HEADERS = ["connection", "content-encoding", "content-length", "keep-alive", "transfer-encoding"];
+
+const proxyToGemini = async (req: IncomingMessage, res: ServerResponse, path: string, search: string, { apiKey, upstream }: KeyProxyOptions) => {
+  // The client's placeholder key never reaches Google, in a header or the query
+  const params = new URLSearchParams(search);
+  params.delete("key");
+  const query = params.toString();
+  const method = req.method ?? "GET";
+  const body = method === "GET" || method === "HEAD" ? undefined : await readBody(req);
+  let response: Response;
+  try {
+    response = await fetch(`${upstream}${path}${query ? `?${query}` : ""}`, {
+      method,
+      headers: {
+        "Content-Type": req.headers["content-type"] ?? "application/json",
+        "x-goog-api-key": apiKey,
+      },
+      body,
+    });
+  } catch (e) {
+    return sendError(res, 502, "NETWORK", "The key proxy could not reach the Gemini API.");
+  }
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!DROPPED_RESPONSE_HEADERS.includes(name)) headers[name] = value;
+  });
+  res.writeHead(response.status, headers);
+  if (!response.body) return res.end();
+  // The status is already sent, so a body cut off upstream can only end the connection
+  try {
+    await pipeline(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), res);
+  } catch (e) {
+    res.destroy();
+  }
+};
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+export const createApiHandler = ({ provider, jobs, token, keyProxy }: ApiHandlerOptions) => {
+  const engineer = async (input: ApiInput, update: (patch: JobUpdate) => void, signal: AbortSignal) => {
+    update({ status: AppStatus.ANALYZING });
+    const promptData = await engineerForInput(provider, input, input.locale, { signal });
+    update({ promptData });
+    return promptData;
+  };
+
+  // Variants render in parallel; the job only fails if none of them produced an image
+  const render = async (input: ApiInput, promptData: EngineeredPrompt, update: (patch: JobUpdate) => void, signal: AbortSignal) => {
+    let images: JobImage[] = Array.from({ length: input.variantCount ?? 1 }, () => ({ dataUrl: null }));
+    const setImage = (index: number, image: JobImage) => {
+      images = images.map((current, i) => i === index ? image : current);
+      update({ images });
+    };
+    update({ status: AppStatus.GENERATING_IMAGE, images });
+
+    const results = await runWithConcurrency(images.map((_, index) => async () => {
+      try {
+        setImage(index, { dataUrl: await generateForInput(provider, promptData, input, { signal }) });
+      } catch (err: any) {
+        if (!isAbortError(err)) setImage(index, { dataUrl: null, error: err?.message || "Generation failed." });
+        throw err;
+      }
+    }), MAX_CONCURRENT_IMAGES);
+
+    if (results.some(r => r.status === "fulfilled")) return;
+    const aborted = results.find(r => r.status === "rejected" && isAbortError(r.reason));
+    throw ((aborted ?? results[0]) as PromiseRejectedResult).reason;
+  };
+
+  const createRunner = async (kind: JobKind, req: IncomingMessage): Promise<JobRunner> => {
+    const { fields, uploads } = await readFields(req);
+    switch (kind) {
+      case "engineer-prompt": {
+        const input = parseApiInput(fields, uploads);
+        return async (update, signal) => {
+          await engineer(input, update, signal);
+        };
+      }
+      case "generate-image": {
+        const promptData = parsePromptField(fields);
+        const input = parseApiInput(fields, uploads, false);
+        return async (update, signal) => {
+          update({ promptData });
+          await render(input, promptData, update, signal);
+        };
+      }
+      case "generate-poster": {
+        const input = parseApiInput(fields, uploads);
+        return async (update, signal) => {
+          await render(input, await engineer(input, update, signal), update, signal);
+        };
+      }
+    }
+  };
+
+  const respondWhenSettled = async (res: ServerResponse, job: Job) => {
+    // A client that hangs up no longer wants the result
+    res.on("close", () => {
+      if (!res.writableEnded) jobs.cancel(job.id);
+    });
+    const settled = (await jobs.settled(job.id))!;
+    const headers = { "X-Job-Id": settled.id };
+    if (settled.status === AppStatus.ERROR && settled.error) {
+      return sendJson(res, ERROR_STATUS[settled.error.kind] ?? 502, { error: settled.error, job: toJobView(settled) }, headers);
+    }
+    if (settled.status === AppStatus.CANCELLED) return sendError(res, 409, "CANCELLED", "The job was cancelled.");
+    if (settled.kind === "engineer-prompt") return sendJson(res, 200, settled.promptData, headers);
+    const index = settled.images.findIndex(image => image.dataUrl);
+    return sendImage(res, jobs.takeImage(settled.id, index), headers);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    const submitMatch = url.pathname.match(/^\/api\/(engineer-prompt|generate-image|generate-poster)$/);
+    const jobMatch = url.pathname.match(/^\/api\/jobs\/([\w-]+)(?:\/images\/(\d+))?$/);
+
+    if (!isLocalRequest(req)) {
+      return sendError(res, 403, "FORBIDDEN", "The API only answers local requests.");
+    }
+    if ((submitMatch || jobMatch) && !hasToken(req, token)) {
+      return sendError(res, 401, "UNAUTHORIZED", "Send the token the server printed at start as \"Authorization: Bearer <token>\".");
+    }
+
+    if (url.pathname === "/api/health" && method === "GET") {
+      return sendJson(res, 200, { ok: true, provider: provider.id, models: provider.models, keyProxy: !!keyProxy });
+    }
+
+    const proxyMatch = url.pathname.match(PROXY_PATH);
+    if (proxyMatch) {
+      if (!keyProxy) return sendError(res, 404, "NOT_FOUND", "The key proxy is not enabled.");
+      return proxyToGemini(req, res, proxyMatch[1], url.search, keyProxy);
+    }
+
+    if (submitMatch) {
+      if (method !== "POST") return sendError(res, 405, "METHOD_NOT_ALLOWED", "Use POST.");
+      const job = jobs.submit(submitMatch[1] as JobKind, await createRunner(submitMatch[1] as JobKind, req));
+      if (["1", "true"].includes(url.searchParams.get("wait") ?? "")) return respondWhenSettled(res, job);
+      return sendJson(res, 202, toJobView(job), { Location: `/api/jobs/${job.id}` });
+    }
+
+    if (jobMatch) {
+      const [, id, imageIndex] = jobMatch;
+      if (method === "DELETE" && imageIndex === undefined) {
+        const job = jobs.cancel(id);
+        return job ? sendJson(res, 200, toJobView(job)) : sendError(res, 404, "NOT_FOUND", "No such job.");
+      }
+      if (method !== "GET") return sendError(res, 405, "METHOD_NOT_ALLOWED", "Use GET or DELETE.");
+      const job = jobs.get(id);
+      if (!job) return sendError(res, 404, "NOT_FOUND", "No such job.");
+      return imageIndex === undefined ? sendJson(res, 200, toJobView(job)) : sendImage(res, jobs.takeImage(id, Number(imageIndex)));
+    }
+
+    sendError(res, 404, "NOT_FOUND", `No route for ${method} ${url.pathname}.`);
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      await route(req, res);
+    } catch (err) {
+      if (err instanceof RequestError) return sendError(res, err.status, "BAD_REQUEST", err.message);
+      console.error("API request failed", err);
+      if (!res.headersSent) sendError(res, 500, "INTERNAL", "Internal server error.");
+    }
+  };
+};
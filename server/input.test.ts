@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { parseApiInput, parsePromptField, RequestError } from "./input";
+
+const PNG = "data:image/png;base64,iVBORw==";
+
+describe("parseApiInput", () => {
+  it("fills the UI defaults", () => {
+    expect(parseApiInput({ text: " Tokyo " })).toEqual({
+      text: "Tokyo",
+      references: [],
+      aspectRatio: "9:16",
+      imageSize: "1K",
+      variantCount: 1,
+      textRenderMode: undefined,
+      stylePreset: undefined,
+      layoutId: undefined,
+      language: undefined,
+      searchMode: undefined,
+      locale: "en-US",
+    });
+  });
+
+  it("reads form fields: JSON text, style ids, language codes and uploads with roles", () => {
+    const input = parseApiInput(
+      { text: "Harbor", imageSize: "2k", variantCount: "3", stylePreset: "voxel", language: '{"primary":"ja","secondary":"en"}', referenceRoles: "palette" },
+      [PNG, PNG]
+    );
+    expect(input.imageSize).toBe("2K");
+    expect(input.variantCount).toBe(3);
+    expect(input.stylePreset?.id).toBe("voxel");
+    expect(input.language).toEqual({ primary: "ja", secondary: "en" });
+    expect(input.references.map(r => r.role)).toEqual(["palette", "subject"]);
+    expect(parseApiInput({ text: "x", language: "zh-CN" }).language).toEqual({ primary: "zh-CN" });
+  });
+
+  it("accepts JSON references as data URLs or { dataUrl, role }", () => {
+    const input = parseApiInput({ text: "x", references: [PNG, { dataUrl: PNG, role: "architecture" }] });
+    expect(input.references).toEqual([
+      { id: "reference-1", dataUrl: PNG, role: "subject" },
+      { id: "reference-2", dataUrl: PNG, role: "architecture" },
+    ]);
+  });
+
+  it("rejects invalid fields", () => {
+    expect(() => parseApiInput({})).toThrow("text is required.");
+    expect(() => parseApiInput({ text: "x", layoutId: "banner" })).toThrow(RequestError);
+    expect(() => parseApiInput({ text: "x", variantCount: 9 })).toThrow("variantCount must be 1-8.");
+    expect(() => parseApiInput({ text: "x", references: ["https://example.com/a.png"] })).toThrow("Reference 1 must be a base64 image data URL.");
+    expect(() => parseApiInput({ text: "x", stylePreset: "{oops" })).toThrow("stylePreset is not valid JSON.");
+    expect(() => parseApiInput({ text: "x" }, [PNG, PNG, PNG, PNG, PNG])).toThrow("At most 4 reference images are allowed.");
+  });
+});
+
+describe("parsePromptField", () => {
+  it("takes an engineered prompt object or a visual prompt string", () => {
+    expect(parsePromptField({ prompt: "A tiny harbor" })).toEqual({ posterTitle: "", posterSubtitle: "", visualPrompt: "A tiny harbor" });
+    expect(parsePromptField({ prompt: '{"posterTitle":"T","posterSubtitle":"S","visualPrompt":"V"}' }).posterTitle).toBe("T");
+    expect(() => parsePromptField({ prompt: { posterTitle: "T" } })).toThrow(RequestError);
+  });
+
+  it("copies only known, well-typed prompt fields", () => {
+    expect(parsePromptField({ prompt: {
+      visualPrompt: "V",
+      secondaryTitle: "T2",
+      groundingSources: [{ title: "Src", uri: "https://example.com", extra: 1 }],
+      liveData: { category: "news" },
+      injected: true,
+    } })).toEqual({
+      posterTitle: "",
+      posterSubtitle: "",
+      visualPrompt: "V",
+      secondaryTitle: "T2",
+      groundingSources: [{ title: "Src", uri: "https://example.com" }],
+    });
+    expect(() => parsePromptField({ prompt: { visualPrompt: "V", posterTitle: 123 } })).toThrow("prompt.posterTitle must be a string.");
+    expect(() => parsePromptField({ prompt: { visualPrompt: "V", groundingSources: "x" } })).toThrow(RequestError);
+  });
+});
@@ -0,0 +1,157 @@
+import { AspectRatio, EngineeredPrompt, ImageSize, LanguageSettings, LayoutTemplateId, ReferenceImage, ReferenceRole, SearchMode, StylePreset, TextRenderMode, UserInput } from "../types";
+import { BUILT_IN_STYLE_PRESETS } from "../services/stylePresets";
+import { LAYOUT_TEMPLATES } from "../services/layoutTemplates";
+import { MAX_REFERENCES, REFERENCE_ROLE_ORDER, suggestReferenceRole } from "../services/referenceRoles";
+
+// ============================================================================
+// REQUEST INPUT
+// API requests carry the same fields as UserInput, either as a JSON body or as
+// multipart form fields with the reference images as `reference` file parts.
+// Form fields are strings, so object-valued fields may be sent as JSON text.
+// ============================================================================
+
+export class RequestError extends Error {
+  constructor(message: string, public readonly status = 400) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+export type ApiInput = Omit<UserInput, "forceAnalysis" | "bypassCache"> & { locale: string };
+
+const ASPECT_RATIOS: AspectRatio[] = ["1:1", "3:4", "4:3", "9:16", "16:9"];
+const IMAGE_SIZES: ImageSize[] = ["1K", "2K", "4K"];
+const TEXT_RENDER_MODES: TextRenderMode[] = ["model", "composite"];
+const SEARCH_MODES: SearchMode[] = ["auto", "on", "off"];
+const MAX_VARIANTS = 8;
+
+export const DEFAULT_LOCALE = "en-US";
+
+const oneOf = <T extends string>(name: string, value: unknown, allowed: readonly T[], fallback?: T): T | undefined => {
+  if (value === undefined || value === null || value === "") return fallback;
+  if (!allowed.includes(value as T)) throw new RequestError(`${name} must be one of ${allowed.join(", ")}.`);
+  return value as T;
+};
+
+// Form fields hold JSON text; JSON bodies hold the value itself
+const parseJsonField = (name: string, value: unknown): unknown => {
+  if (typeof value !== "string" || !/^\s*[[{]/.test(value)) return value;
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    throw new RequestError(`${name} is not valid JSON.`);
+  }
+};
+
+const parseStylePreset = (value: unknown): StylePreset | undefined => {
+  const parsed = parseJsonField("stylePreset", value);
+  if (parsed === undefined || parsed === null || parsed === "") return undefined;
+  if (typeof parsed === "string") {
+    const preset = BUILT_IN_STYLE_PRESETS.find(p => p.id === parsed);
+    if (!preset) throw new RequestError(`stylePreset must be a built-in style id (${BUILT_IN_STYLE_PRESETS.map(p => p.id).join(", ")}) or a preset object.`);
+    return preset;
+  }
+  const preset = parsed as Partial<StylePreset>;
+  if (typeof preset.name !== "string" || typeof preset.engineeringVisuals !== "string" ||
+      !Array.isArray(preset.styleModifiers) || !preset.styleModifiers.every(m => typeof m === "string")) {
+    throw new RequestError("A custom stylePreset needs name, engineeringVisuals and styleModifiers.");
+  }
+  return { id: preset.id || "custom", name: preset.name, description: preset.description || "", engineeringVisuals: preset.engineeringVisuals, styleModifiers: preset.styleModifiers };
+};
+
+// A language code is shorthand for { primary: code }
+const parseLanguage = (value: unknown): LanguageSettings | undefined => {
+  const parsed = parseJsonField("language", value);
+  if (parsed === undefined || parsed === null || parsed === "") return undefined;
+  if (typeof parsed === "string") return { primary: parsed };
+  const { primary, secondary } = parsed as LanguageSettings;
+  if ((primary !== undefined && typeof primary !== "string") || (secondary !== undefined && typeof secondary !== "string")) {
+    throw new RequestError("language must be a language code or { primary, secondary }.");
+  }
+  return { primary, secondary };
+};
+
+const parseReferenceRole = (value: unknown, existing: ReferenceImage[]): ReferenceRole =>
+  oneOf("Reference role", value, REFERENCE_ROLE_ORDER) ?? suggestReferenceRole(existing);
+
+// JSON bodies send references as data URLs or { dataUrl, role }; uploads come pre-read
+const parseReferences = (value: unknown, uploads: string[], roles: unknown): ReferenceImage[] => {
+  const listed = parseJsonField("references", value);
+  const entries: { dataUrl: unknown; role?: unknown }[] = [
+    ...(Array.isArray(listed) ? listed : listed ? [listed] : []).map(entry => typeof entry === "string" ? { dataUrl: entry } : entry),
+    ...uploads.map(dataUrl => ({ dataUrl })),
+  ];
+  if (entries.length > MAX_REFERENCES) throw new RequestError(`At most ${MAX_REFERENCES} reference images are allowed.`);
+  // Roles for uploads may be given in order, comma-separated
+  const roleList = typeof roles === "string" ? roles.split(",").map(r => r.trim()) : Array.isArray(roles) ? roles : [];
+
+  return entries.reduce<ReferenceImage[]>((references, entry, index) => {
+    if (typeof entry?.dataUrl !== "string" || !/^data:image\/[\w.+-]+;base64,/.test(entry.dataUrl)) {
+      throw new RequestError(`Reference ${index + 1} must be a base64 image data URL.`);
+    }
+    const role = parseReferenceRole(entry.role ?? roleList[index], references);
+    return [...references, { id: `reference-${index + 1}`, dataUrl: entry.dataUrl, role }];
+  }, []);
+};
+
+const parseVariantCount = (value: unknown): number => {
+  if (value === undefined || value === null || value === "") return 1;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_VARIANTS) throw new RequestError(`variantCount must be 1-${MAX_VARIANTS}.`);
+  return count;
+};
+
+export const parseApiInput = (fields: Record<string, unknown>, uploads: string[] = [], requireText = true): ApiInput => {
+  const text = typeof fields.text === "string" ? fields.text.trim() : "";
+  if (requireText && !text) throw new RequestError("text is required.");
+  return {
+    text,
+    references: parseReferences(fields.references, uploads, fields.referenceRoles),
+    aspectRatio: oneOf("aspectRatio", fields.aspectRatio, ASPECT_RATIOS, "9:16")!,
+    imageSize: oneOf("imageSize", typeof fields.imageSize === "string" ? fields.imageSize.toUpperCase() : fields.imageSize, IMAGE_SIZES, "1K")!,
+    variantCount: parseVariantCount(fields.variantCount),
+    textRenderMode: oneOf("textRenderMode", fields.textRenderMode, TEXT_RENDER_MODES),
+    stylePreset: parseStylePreset(fields.stylePreset),
+    layoutId: oneOf<LayoutTemplateId>("layoutId", fields.layoutId, LAYOUT_TEMPLATES.map(l => l.id)),
+    language: parseLanguage(fields.language),
+    searchMode: oneOf("searchMode", fields.searchMode, SEARCH_MODES),
+    locale: typeof fields.locale === "string" && fields.locale.trim() ? fields.locale.trim() : DEFAULT_LOCALE,
+  };
+};
+
+// generate-image takes an engineered prompt (as returned by engineer-prompt) or a bare visual prompt
+export const parsePromptField = (fields: Record<string, unknown>): EngineeredPrompt => {
+  const prompt = parseJsonField("prompt", fields.prompt) as Partial<EngineeredPrompt> | string | undefined;
+  if (typeof prompt === "string" && prompt.trim()) {
+    return { posterTitle: "", posterSubtitle: "", visualPrompt: prompt.trim() };
+  }
+  if (prompt && typeof prompt === "object" && typeof prompt.visualPrompt === "string" && prompt.visualPrompt.trim()) {
+    return parsePromptObject(prompt);
+  }
+  throw new RequestError("prompt is required: an engineered prompt object or a visual prompt string.");
+};
+
+// Copies only the known fields; liveData describes how a prompt was made, so it is not taken from clients
+const parsePromptObject = (prompt: Partial<EngineeredPrompt>): EngineeredPrompt => {
+  const optionalString = (name: "posterTitle" | "posterSubtitle" | "secondaryTitle" | "secondarySubtitle") => {
+    const value: unknown = prompt[name];
+    if (value !== undefined && typeof value !== "string") throw new RequestError(`prompt.${name} must be a string.`);
+    return value as string | undefined;
+  };
+  const sources = prompt.groundingSources;
+  if (sources !== undefined && !(Array.isArray(sources) &&
+      sources.every(s => s && typeof s === "object" && typeof s.title === "string" && typeof s.uri === "string"))) {
+    throw new RequestError("prompt.groundingSources must be a list of { title, uri }.");
+  }
+  const parsed: EngineeredPrompt = {
+    posterTitle: optionalString("posterTitle") ?? "",
+    posterSubtitle: optionalString("posterSubtitle") ?? "",
+    visualPrompt: prompt.visualPrompt!.trim(),
+  };
+  const secondaryTitle = optionalString("secondaryTitle");
+  const secondarySubtitle = optionalString("secondarySubtitle");
+  if (secondaryTitle !== undefined) parsed.secondaryTitle = secondaryTitle;
+  if (secondarySubtitle !== undefined) parsed.secondarySubtitle = secondarySubtitle;
+  if (sources) parsed.groundingSources = sources.map(({ title, uri }) => ({ title, uri }));
+  return parsed;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createJobQueue, JOB_TTL_MS } from "./jobs";
+import { AppStatus } from "../types";
+
+const imageOf = (bytes: number) => `data:image/png;base64,${"A".repeat(bytes)}`;
+
+describe("job queue", () => {
+  it("releases an image once it has been taken from a finished job", async () => {
+    const jobs = createJobQueue(1);
+    const job = jobs.submit("generate-image", async update => update({ images: [{ dataUrl: imageOf(4) }, { dataUrl: imageOf(4) }] }));
+    await jobs.settled(job.id);
+
+    expect(jobs.takeImage(job.id, 0)?.dataUrl).toBe(imageOf(4));
+    expect(jobs.takeImage(job.id, 0)).toEqual({ dataUrl: null, released: true });
+    expect(jobs.get(job.id)?.images[1].dataUrl).toBe(imageOf(4));
+  });
+
+  it("drops finished jobs after the TTL", async () => {
+    let time = 0;
+    const jobs = createJobQueue(1, () => time);
+    const job = jobs.submit("engineer-prompt", async () => {});
+    await jobs.settled(job.id);
+
+    time = JOB_TTL_MS - 1;
+    expect(jobs.get(job.id)?.status).toBe(AppStatus.SUCCESS);
+    time = JOB_TTL_MS + 1;
+    expect(jobs.get(job.id)).toBeUndefined();
+  });
+
+  it("releases the oldest images when finished jobs hold too much", async () => {
+    let time = 0;
+    const jobs = createJobQueue(2, () => time, 2 * imageOf(100).length);
+    const ids: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      time++;
+      const job = jobs.submit("generate-image", async update => update({ images: [{ dataUrl: imageOf(100) }] }));
+      await jobs.settled(job.id);
+      ids.push(job.id);
+    }
+
+    expect(ids.map(id => jobs.get(id)?.images[0].released ?? false)).toEqual([true, false, false]);
+  });
+});
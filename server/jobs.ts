@@ -0,0 +1,182 @@
+import { randomUUID } from "node:crypto";
+import { AppStatus, EngineeredPrompt } from "../types";
+import { GenerationError, GenerationErrorKind, toGenerationError } from "../services/errors";
+import { isAbortError } from "../utils/abort";
+
+// ============================================================================
+// JOBS
+// Every API request runs as a job so slow image calls do not hold a
+// connection open. Status follows the app's phases (AppStatus): IDLE while
+// queued, ANALYZING, GENERATING_IMAGE, then SUCCESS / ERROR / CANCELLED.
+// Jobs live in memory and are dropped after JOB_TTL_MS once finished. Image
+// data goes sooner: once a client has fetched it, or when finished jobs hold
+// more than MAX_RETAINED_IMAGE_BYTES (oldest first).
+// ============================================================================
+
+export type JobKind = "engineer-prompt" | "generate-image" | "generate-poster";
+
+export interface JobError {
+  kind: GenerationErrorKind;
+  message: string;
+}
+
+export interface JobImage {
+  // Data URL; null while pending, when this variant failed or once released
+  dataUrl: string | null;
+  error?: string;
+  // The data was dropped after a fetch or to bound memory
+  released?: boolean;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  status: AppStatus;
+  createdAt: number;
+  updatedAt: number;
+  promptData?: EngineeredPrompt;
+  images: JobImage[];
+  error?: JobError;
+}
+
+export type JobUpdate = Partial<Pick<Job, "status" | "promptData" | "images">>;
+
+// Does the work of a job, reporting progress through `update`
+export type JobRunner = (update: (patch: JobUpdate) => void, signal: AbortSignal) => Promise<void>;
+
+export interface JobQueue {
+  submit: (kind: JobKind, run: JobRunner) => Job;
+  get: (id: string) => Job | undefined;
+  // Returns an image and, once the job has finished, releases its data
+  takeImage: (id: string, index: number) => JobImage | undefined;
+  cancel: (id: string) => Job | undefined;
+  // Resolves once the job has finished, whatever the outcome
+  settled: (id: string) => Promise<Job | undefined>;
+}
+
+export const JOB_TTL_MS = 60 * 60_000;
+export const MAX_RETAINED_IMAGE_BYTES = 256 * 1024 * 1024;
+const PRUNE_INTERVAL_MS = 60_000;
+
+const FINISHED = [AppStatus.SUCCESS, AppStatus.ERROR, AppStatus.CANCELLED];
+
+export const isJobFinished = (job: Job) => FINISHED.includes(job.status);
+
+export const createJobQueue = (
+  concurrency: number,
+  now: () => number = Date.now,
+  maxImageBytes = MAX_RETAINED_IMAGE_BYTES
+): JobQueue => {
+  const jobs = new Map<string, Job>();
+  const controllers = new Map<string, AbortController>();
+  const waiters = new Map<string, (() => void)[]>();
+  const queue: { id: string; run: JobRunner }[] = [];
+  let running = 0;
+
+  const update = (id: string, patch: Partial<Job>) => {
+    const job = jobs.get(id);
+    if (!job || isJobFinished(job)) return;
+    const next = { ...job, ...patch, updatedAt: now() };
+    jobs.set(id, next);
+    if (isJobFinished(next)) {
+      prune();
+      controllers.delete(id);
+      waiters.get(id)?.forEach(resolve => resolve());
+      waiters.delete(id);
+    }
+  };
+
+  const releaseImages = (job: Job, shouldRelease: (index: number) => boolean) => {
+    jobs.set(job.id, {
+      ...job,
+      images: job.images.map((image, index) =>
+        image.dataUrl && shouldRelease(index) ? { ...image, dataUrl: null, released: true } : image),
+    });
+  };
+
+  const prune = () => {
+    const cutoff = now() - JOB_TTL_MS;
+    const finished = [...jobs.values()].filter(isJobFinished).sort((a, b) => b.updatedAt - a.updatedAt);
+    let retainedBytes = 0;
+    finished.forEach(job => {
+      if (job.updatedAt < cutoff) return jobs.delete(job.id);
+      const bytes = job.images.reduce((sum, image) => sum + (image.dataUrl?.length ?? 0), 0);
+      if (retainedBytes + bytes > maxImageBytes) return releaseImages(job, () => true);
+      retainedBytes += bytes;
+    });
+  };
+
+  // Frees memory while the server sits idle; unref'd so it never keeps the process alive
+  setInterval(prune, PRUNE_INTERVAL_MS).unref();
+
+  const start = async ({ id, run }: { id: string; run: JobRunner }) => {
+    const controller = controllers.get(id);
+    if (!controller) return;
+    running++;
+    try {
+      await run(patch => update(id, patch), controller.signal);
+      update(id, { status: AppStatus.SUCCESS });
+    } catch (err) {
+      if (isAbortError(err)) {
+        update(id, { status: AppStatus.CANCELLED });
+      } else {
+        const classified = toGenerationError(err) as GenerationError;
+        update(id, { status: AppStatus.ERROR, error: { kind: classified.kind, message: classified.message } });
+      }
+    } finally {
+      running--;
+      drain();
+    }
+  };
+
+  const drain = () => {
+    while (running < concurrency && queue.length > 0) {
+      start(queue.shift()!);
+    }
+  };
+
+  return {
+    submit: (kind, run) => {
+      prune();
+      const id = randomUUID();
+      const job: Job = { id, kind, status: AppStatus.IDLE, createdAt: now(), updatedAt: now(), images: [] };
+      jobs.set(id, job);
+      controllers.set(id, new AbortController());
+      queue.push({ id, run });
+      drain();
+      return jobs.get(id)!;
+    },
+
+    get: id => {
+      prune();
+      return jobs.get(id);
+    },
+
+    // Running jobs keep their images: the runner still writes the whole list
+    takeImage: (id, index) => {
+      const job = jobs.get(id);
+      const image = job?.images[index];
+      if (job && image && isJobFinished(job)) releaseImages(job, i => i === index);
+      return image;
+    },
+
+    cancel: id => {
+      const job = jobs.get(id);
+      if (!job || isJobFinished(job)) return job;
+      controllers.get(id)?.abort();
+      // Queued jobs never start; running ones stop at their next abort check
+      const queued = queue.findIndex(entry => entry.id === id);
+      if (queued !== -1) queue.splice(queued, 1);
+      update(id, { status: AppStatus.CANCELLED });
+      return jobs.get(id);
+    },
+
+    settled: id => {
+      const job = jobs.get(id);
+      if (!job || isJobFinished(job)) return Promise.resolve(job);
+      return new Promise(resolve => {
+        waiters.set(id, [...(waiters.get(id) ?? []), () => resolve(jobs.get(id))]);
+      });
+    },
+  };
+};
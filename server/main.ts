@@ -0,0 +1,62 @@
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+import { GoogleGenAI } from "@google/genai";
+import { loadEnv } from "vite";
+import { setAiClientFactory } from "../services/geminiService";
+import { getProvider } from "../services/providers";
+import { createApiHandler, GEMINI_UPSTREAM } from "./app";
+import { createJobQueue } from "./jobs";
+
+// ============================================================================
+// API SERVER
+//   npm run server -- [--port 3001] [--host 127.0.0.1] [--concurrency 2]
+// The Gemini key is read from GEMINI_API_KEY (environment or .env.local) when
+// the server starts and never leaves this process. `npm run dev` proxies /api
+// here, which lets the browser app call Gemini through /api/gemini without a key.
+// Job routes need the token printed at start (or API_TOKEN, to keep it fixed).
+// ============================================================================
+
+const DEFAULT_PORT = 3001;
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_CONCURRENCY = 2;
+
+// Same files the Vite dev server reads; the process environment wins
+const env = loadEnv("development", process.cwd(), "");
+
+const readEnv = (name: string): string | undefined => env[name]?.trim() || undefined;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", short: "p" },
+    host: { type: "string" },
+    concurrency: { type: "string", short: "c" },
+  },
+});
+
+const port = Number(values.port ?? readEnv("API_PORT") ?? DEFAULT_PORT);
+const host = values.host ?? DEFAULT_HOST;
+const concurrency = Number(values.concurrency ?? DEFAULT_CONCURRENCY);
+const apiKey = readEnv("GEMINI_API_KEY") ?? readEnv("API_KEY");
+const token = readEnv("API_TOKEN") ?? randomUUID();
+
+if (!Number.isInteger(port) || !Number.isInteger(concurrency) || concurrency < 1) {
+  console.error("--port and --concurrency must be positive integers.");
+  process.exit(1);
+}
+if (!apiKey) {
+  console.error("Set GEMINI_API_KEY in the environment or .env.local to start the API server.");
+  process.exit(1);
+}
+setAiClientFactory(() => new GoogleGenAI({ apiKey }));
+
+const server = createServer(createApiHandler({
+  provider: getProvider("gemini"),
+  jobs: createJobQueue(concurrency),
+  token,
+  keyProxy: { apiKey, upstream: GEMINI_UPSTREAM },
+}));
+server.listen(port, host, () => {
+  console.log(`Miniature World API listening on http://${host}:${port}/api (${concurrency} jobs at a time)`);
+  console.log(`Job requests need the header "Authorization: Bearer ${token}"`);
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from "vitest";
+import { resolveKeySource, maskApiKey, validateApiKey, detectKeyProxy } from "./apiKeys";
+
+const respond = (status: number, body: unknown = {}) =>
+  vi.fn(async () => new Response(JSON.stringify(body), { status })) as unknown as typeof fetch;
+
+describe("resolveKeySource", () => {
+  it("prefers AI Studio, then the user's key, then the proxy", () => {
+    expect(resolveKeySource({ injectedKey: "a", userKey: "b", proxyAvailable: true })).toBe("aistudio");
+    expect(resolveKeySource({ userKey: "b", proxyAvailable: true })).toBe("user");
+    expect(resolveKeySource({ proxyAvailable: true })).toBe("proxy");
+    expect(resolveKeySource({ proxyAvailable: false })).toBeNull();
+  });
+});
+
+describe("maskApiKey", () => {
+  it("keeps only the ends of a key", () => {
+    expect(maskApiKey("AIzaSyExampleExampleExamplec9Xk")).toBe("AIza…c9Xk");
+    expect(maskApiKey("short")).toBe("••••••••");
+  });
+});
+
+describe("validateApiKey", () => {
+  it("pings the models list with the trimmed key", async () => {
+    const fetchImpl = respond(200);
+    expect(await validateApiKey(" AIza-key ", fetchImpl)).toEqual({ ok: true });
+    expect(fetchImpl).toHaveBeenCalledWith(
+      "https://generativelanguage.googleapis.com/v1beta/models?pageSize=1",
+      { headers: { "x-goog-api-key": "AIza-key" } }
+    );
+  });
+
+  it("explains rejected keys and network failures", async () => {
+    expect(await validateApiKey("bad", respond(400))).toEqual({ ok: false, message: "The key was rejected." });
+    expect(await validateApiKey("key", respond(503))).toEqual({ ok: false, message: "The check failed with HTTP 503." });
+    const offline = vi.fn(async () => { throw new TypeError("fetch failed"); }) as unknown as typeof fetch;
+    expect((await validateApiKey("key", offline)).ok).toBe(false);
+  });
+});
+
+describe("detectKeyProxy", () => {
+  it("requires the API server to report a key proxy", async () => {
+    expect(await detectKeyProxy(respond(200, { ok: true, keyProxy: true }))).toBe(true);
+    expect(await detectKeyProxy(respond(200, { ok: true, keyProxy: false }))).toBe(false);
+    expect(await detectKeyProxy(respond(404))).toBe(false);
+  });
+});
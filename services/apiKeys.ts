@@ -0,0 +1,129 @@
+// ============================================================================
+// API KEY SOURCES
+// The browser bundle carries no key. Gemini calls use the first available of:
+//   1. aistudio: the key picked in AI Studio's dialog, injected at run time
+//   2. user:     a key entered in Settings, kept in this browser profile
+//   3. proxy:    the local API server (npm run server), which adds its own key
+// ============================================================================
+
+export type ApiKeySource = "aistudio" | "user" | "proxy";
+
+export const KEY_SOURCE_LABELS: Record<ApiKeySource, string> = {
+  aistudio: "AI Studio",
+  user: "Your key",
+  proxy: "Local proxy",
+};
+
+// Path of the key proxy on the API server; the SDK appends /v1beta/...
+export const KEY_PROXY_PATH = "/api/gemini";
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com";
+const USER_KEY_STORAGE_KEY = "miniature-world:gemini-api-key";
+
+// The proxy swaps in the real key, but the SDK refuses to run in a browser without one
+const PROXY_PLACEHOLDER_KEY = "proxy";
+
+const PROXY_DETECT_TIMEOUT_MS = 2000;
+
+export interface KeySourceState {
+  injectedKey?: string;
+  userKey?: string;
+  proxyAvailable: boolean;
+}
+
+export interface GeminiClientOptions {
+  apiKey: string;
+  httpOptions?: { baseUrl: string };
+}
+
+export const resolveKeySource = ({ injectedKey, userKey, proxyAvailable }: KeySourceState): ApiKeySource | null =>
+  injectedKey ? "aistudio" : userKey ? "user" : proxyAvailable ? "proxy" : null;
+
+// "AIza…c9Xk"; short values are hidden entirely
+export const maskApiKey = (key: string): string =>
+  key.length <= 12 ? "••••••••" : `${key.slice(0, 4)}…${key.slice(-4)}`;
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+let proxyAvailable = false;
+
+// AI Studio provides process.env.API_KEY at run time; elsewhere `process` does not exist
+const readInjectedKey = (): string | undefined => {
+  try {
+    return process.env.API_KEY || undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const readUserApiKey = (): string | undefined => {
+  try {
+    return localStorage.getItem(USER_KEY_STORAGE_KEY) || undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const saveUserApiKey = (key: string) => localStorage.setItem(USER_KEY_STORAGE_KEY, key.trim());
+
+export const clearUserApiKey = () => localStorage.removeItem(USER_KEY_STORAGE_KEY);
+
+export const getKeySourceState = (): KeySourceState => ({
+  injectedKey: readInjectedKey(),
+  userKey: readUserApiKey(),
+  proxyAvailable,
+});
+
+export const getActiveKeySource = (): ApiKeySource | null => resolveKeySource(getKeySourceState());
+
+const proxyBaseUrl = () => `${window.location.origin}${KEY_PROXY_PATH}`;
+
+// Options for the browser's Gemini client, or null when no source is available
+export const getGeminiClientOptions = (): GeminiClientOptions | null => {
+  const state = getKeySourceState();
+  switch (resolveKeySource(state)) {
+    case "aistudio": return { apiKey: state.injectedKey! };
+    case "user": return { apiKey: state.userKey! };
+    case "proxy": return { apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl: proxyBaseUrl() } };
+    default: return null;
+  }
+};
+
+// Asks the API server whether it holds a key; remembered for getGeminiClientOptions
+export const detectKeyProxy = async (fetchImpl: typeof fetch = fetch): Promise<boolean> => {
+  try {
+    const response = await fetchImpl("/api/health", { signal: AbortSignal.timeout(PROXY_DETECT_TIMEOUT_MS) });
+    const body = response.ok ? await response.json() : null;
+    proxyAvailable = body?.keyProxy === true;
+  } catch (e) {
+    proxyAvailable = false;
+  }
+  return proxyAvailable;
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export type KeyCheckResult = { ok: true } | { ok: false; message: string };
+
+// Lists one model: cheap, and fails the same way a generation would on a bad key
+const pingGemini = async (baseUrl: string, apiKey: string, fetchImpl: typeof fetch): Promise<KeyCheckResult> => {
+  try {
+    const response = await fetchImpl(`${baseUrl}/v1beta/models?pageSize=1`, { headers: { "x-goog-api-key": apiKey } });
+    if (response.ok) return { ok: true };
+    if ([400, 401, 403].includes(response.status)) return { ok: false, message: "The key was rejected." };
+    return { ok: false, message: `The check failed with HTTP ${response.status}.` };
+  } catch (e) {
+    return { ok: false, message: "Could not reach the Gemini API. Check your connection." };
+  }
+};
+
+export const validateApiKey = (key: string, fetchImpl: typeof fetch = fetch): Promise<KeyCheckResult> =>
+  pingGemini(GEMINI_BASE_URL, key.trim(), fetchImpl);
+
+// Checks the key the proxy holds, through the proxy
+export const validateKeyProxy = (fetchImpl: typeof fetch = fetch): Promise<KeyCheckResult> =>
+  pingGemini(proxyBaseUrl(), PROXY_PLACEHOLDER_KEY, fetchImpl);
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { toGenerationError } from "./errors";
+
+const kindOf = (error: unknown) => (toGenerationError(error) as { kind: string }).kind;
+
+describe("toGenerationError", () => {
+  it("reads the status from structured fields and the JSON error body", () => {
+    expect(kindOf(Object.assign(new Error("denied"), { status: 403 }))).toBe("AUTH");
+    expect(kindOf(Object.assign(new Error("busy"), { code: 429 }))).toBe("QUOTA");
+    expect(kindOf(new Error('{"error":{"code":401,"message":"bad"}}'))).toBe("AUTH");
+    expect(kindOf(new Error("got status: 429 Too Many Requests"))).toBe("QUOTA");
+    expect(kindOf(new Error("HTTP 403 from upstream"))).toBe("AUTH");
+  });
+
+  it("does not mistake numbers in prose for a status", () => {
+    expect(kindOf(new Error("The prompt exceeds the limit of 429 tokens"))).toBe("UNKNOWN");
+    expect(kindOf(new Error("Keep the description under 403 words"))).toBe("UNKNOWN");
+  });
+});
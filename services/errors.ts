@@ -0,0 +1,133 @@
+import { isAbortError } from "../utils/abort";
+
+// ============================================================================
+// ERROR TAXONOMY
+// Everything the services throw (except cancellations) is a GenerationError, so
+// the UI can switch on `kind` instead of sniffing message strings.
+// ============================================================================
+export type GenerationErrorKind =
+  | "AUTH"
+  | "QUOTA"
+  | "SAFETY"
+  | "EMPTY_RESPONSE"
+  | "PARSE"
+  | "NO_IMAGE"
+  | "NETWORK"
+  | "UNKNOWN";
+
+export type GenerationStage = "engineer" | "image";
+
+export class GenerationError extends Error {
+  kind: GenerationErrorKind;
+  stage?: GenerationStage;
+  cause?: unknown;
+
+  constructor(kind: GenerationErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = "GenerationError";
+    this.kind = kind;
+    this.cause = cause;
+  }
+
+  // Transient failures are worth retrying automatically
+  get retryable(): boolean {
+    return this.kind === "NETWORK" || this.kind === "UNKNOWN";
+  }
+}
+
+export class AuthError extends GenerationError {
+  constructor(message = "The API key was rejected or lacks permission for this model.", cause?: unknown) {
+    super("AUTH", message, cause);
+    this.name = "AuthError";
+  }
+}
+
+export class QuotaError extends GenerationError {
+  retryAfterMs: number;
+
+  constructor(retryAfterMs: number, message = "Rate limit or quota exceeded.", cause?: unknown) {
+    super("QUOTA", message, cause);
+    this.name = "QuotaError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockError extends GenerationError {
+  finishReason: string;
+
+  constructor(finishReason: string, message = `AI generation stopped: ${finishReason}`) {
+    super("SAFETY", message);
+    this.name = "SafetyBlockError";
+    this.finishReason = finishReason;
+  }
+}
+
+export class EmptyResponseError extends GenerationError {
+  constructor(message = "The AI returned an empty response. Please try again with a different prompt or image.") {
+    super("EMPTY_RESPONSE", message);
+    this.name = "EmptyResponseError";
+  }
+}
+
+export class NoImageError extends GenerationError {
+  constructor(message = "No image data found") {
+    super("NO_IMAGE", message);
+    this.name = "NoImageError";
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message = "Could not reach the AI service. Check your connection.", cause?: unknown) {
+    super("NETWORK", message, cause);
+    this.name = "NetworkError";
+  }
+}
+
+// finishReason / blockReason values that mean the content was refused
+const SAFETY_REASONS = ["SAFETY", "IMAGE_SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "RECITATION", "IMAGE_PROHIBITED_CONTENT"];
+
+export const isSafetyReason = (reason: string | undefined): boolean =>
+  !!reason && SAFETY_REASONS.includes(reason);
+
+const DEFAULT_RETRY_AFTER_MS = 30_000;
+
+// Gemini reports the wait either as a RetryInfo detail or in prose
+const parseRetryAfterMs = (message: string): number => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : DEFAULT_RETRY_AFTER_MS;
+};
+
+// Structured fields first; in the message only the JSON error body or an explicit
+// "status 429" / "HTTP 503", since prose like "limit of 500 tokens" is not a status
+const getStatus = (error: any): number | undefined => {
+  if (typeof error?.status === "number") return error.status;
+  if (typeof error?.code === "number" && error.code >= 100 && error.code < 600) return error.code;
+  const match = String(error?.message || "").match(/"code"\s*:\s*(\d{3})\b|\b(?:status|HTTP)\s*:?\s*(\d{3})\b/i);
+  return match ? Number(match[1] || match[2]) : undefined;
+};
+
+// Maps SDK / fetch errors onto the taxonomy. Cancellations pass through unchanged.
+export const toGenerationError = (error: unknown, stage?: GenerationStage): unknown => {
+  if (isAbortError(error)) return error;
+
+  let result: GenerationError;
+  if (error instanceof GenerationError) {
+    result = error;
+  } else {
+    const message = String((error as any)?.message || error || "An unexpected error occurred.");
+    const status = getStatus(error);
+
+    if (status === 401 || status === 403 || /PERMISSION_DENIED|API key not valid|UNAUTHENTICATED/i.test(message)) {
+      result = new AuthError(undefined, error);
+    } else if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+      result = new QuotaError(parseRetryAfterMs(message), undefined, error);
+    } else if (error instanceof TypeError && /fetch|network/i.test(message)) {
+      result = new NetworkError(undefined, error);
+    } else {
+      result = new GenerationError("UNKNOWN", message, error);
+    }
+  }
+
+  if (stage && !result.stage) result.stage = stage;
+  return result;
+};
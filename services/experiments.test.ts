@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from "vitest";
+import { aggregateWinRates, pickNextInput, resolveConfigTemplates, runExperimentTrial } from "./experiments";
+import { getTemplateDefinition } from "./promptTemplates";
+import { Experiment, ExperimentTrial, GenerationProvider, PromptTemplateRecord } from "../types";
+
+const EXPERIMENT: Experiment = {
+  id: "e1",
+  name: "Subtitle tone",
+  createdAt: 0,
+  inputs: ["Tokyo at night", "A lighthouse"],
+  aspectRatio: "1:1",
+  imageSize: "1K",
+  stylePreset: { id: "s1", name: "Clay", description: "", engineeringVisuals: "clay", styleModifiers: ["- clay"] },
+  configs: [
+    { name: "A", templateVersions: {} },
+    { name: "B", templateVersions: { engineeringSystem: 1 }, textModel: "text-b", imageModel: "image-b", styleModifiers: ["- felt"] },
+  ],
+  trials: [],
+};
+
+const RECORDS: PromptTemplateRecord[] = [
+  { id: "engineeringSystem", activeVersion: 0, versions: [{ version: 1, body: "Custom system", createdAt: 0 }] },
+];
+
+const trial = (inputIndex: number, vote?: ExperimentTrial["vote"]): ExperimentTrial =>
+  ({ id: `t${inputIndex}`, createdAt: 0, inputIndex, results: [{}, {}], leftConfig: 0, vote });
+
+const fakeProvider = (): GenerationProvider => ({
+  id: "mock",
+  label: "Fake",
+  models: { text: "fake-text", image: "fake-image" },
+  classifyIntent: vi.fn(),
+  engineerPrompt: vi.fn(async () => ({ posterTitle: "T", posterSubtitle: "S", visualPrompt: "V" })),
+  generatePosterImage: vi.fn(async (_prompt, _ratio, _size, _refs, options) => {
+    if (options?.model === "image-b") throw new Error("model not found");
+    return "data:image/png;base64,QQ==";
+  }),
+  refinePosterImage: vi.fn(),
+  inpaintPosterImage: vi.fn(),
+});
+
+describe("resolveConfigTemplates", () => {
+  it("uses the selected saved versions and falls back to built-in", () => {
+    const set = resolveConfigTemplates(EXPERIMENT.configs[1], RECORDS);
+    expect(set.engineeringSystem).toEqual({ version: 1, body: "Custom system" });
+    expect(set.engineeringContext.body).toBe(getTemplateDefinition("engineeringContext").body);
+    expect(resolveConfigTemplates({ name: "x", templateVersions: { engineeringSystem: 7 } }, RECORDS).engineeringSystem.version).toBe(0);
+  });
+});
+
+describe("pickNextInput", () => {
+  it("picks the input with the fewest trials", () => {
+    expect(pickNextInput(EXPERIMENT)).toBe(0);
+    expect(pickNextInput({ ...EXPERIMENT, trials: [trial(0)] })).toBe(1);
+  });
+});
+
+describe("runExperimentTrial", () => {
+  it("renders both configs with their own settings and keeps a failing side's error", async () => {
+    const provider = fakeProvider();
+    const result = await runExperimentTrial(provider, EXPERIMENT, 1, RECORDS, "en-US", { random: () => 0.9 });
+
+    expect(result.inputIndex).toBe(1);
+    expect(result.leftConfig).toBe(1);
+    expect(result.results[0]).toEqual({ promptData: expect.any(Object), imageBase64: "data:image/png;base64,QQ==" });
+    expect(result.results[1].error).toBe("model not found");
+    expect(result.results[1].promptData?.posterTitle).toBe("T");
+
+    const engineerCalls = vi.mocked(provider.engineerPrompt).mock.calls;
+    expect(engineerCalls[0][0]).toBe("A lighthouse");
+    expect(engineerCalls[0][3]?.model).toBeUndefined();
+    expect(engineerCalls[1][3]?.model).toBe("text-b");
+    expect(engineerCalls[1][3]?.templates?.engineeringSystem.body).toBe("Custom system");
+    expect(engineerCalls[0][3]?.style?.styleModifiers).toEqual(["- clay"]);
+    expect(engineerCalls[1][3]?.style?.styleModifiers).toEqual(["- felt"]);
+  });
+});
+
+describe("aggregateWinRates", () => {
+  it("counts ties as half a win, overall and per input", () => {
+    const scores = aggregateWinRates({ ...EXPERIMENT, trials: [trial(0, 0), trial(0, "tie"), trial(1, 1), trial(1)] });
+    expect(scores.overall[0]).toEqual({ wins: 1, losses: 1, ties: 1, winRate: 0.5 });
+    expect(scores.byInput[0][0].winRate).toBe(0.75);
+    expect(scores.byInput[1][1]).toEqual({ wins: 1, losses: 0, ties: 0, winRate: 1 });
+    expect(aggregateWinRates(EXPERIMENT).overall[1].winRate).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  Experiment, ExperimentConfig, ExperimentResult, ExperimentTrial, ExperimentVote, GenerationProvider, PromptTemplateRecord, PromptTemplateSet, StylePreset,
+} from "../types";
+import { STORES, putRecord, getAllRecords, deleteRecord, createId } from "./storage";
+import { getLayoutTemplate } from "./layoutTemplates";
+import { BUILT_IN_TEMPLATE_VERSION, getDefaultTemplateSet, PROMPT_TEMPLATES } from "./promptTemplates";
+import { toGenerationError, GenerationError } from "./errors";
+import { isAbortError } from "../utils/abort";
+
+// ============================================================================
+// A/B EXPERIMENTS
+// Two configurations (templates, model ids, style modifiers) render the same
+// test inputs. Each trial is shown blind, left/right randomized, and the votes
+// add up to a win rate per configuration.
+// ============================================================================
+
+export const createExperimentConfig = (name: string): ExperimentConfig => ({ name, templateVersions: {} });
+
+export const createExperiment = async (name: string, inputs: string[] = []): Promise<Experiment> => {
+  const experiment: Experiment = {
+    id: createId(),
+    name,
+    createdAt: Date.now(),
+    inputs,
+    aspectRatio: "1:1",
+    imageSize: "1K",
+    configs: [createExperimentConfig("Config A"), createExperimentConfig("Config B")],
+    trials: [],
+  };
+  await putRecord(STORES.experiments, experiment);
+  return experiment;
+};
+
+export const saveExperiment = async (experiment: Experiment): Promise<Experiment> => {
+  await putRecord(STORES.experiments, experiment);
+  return experiment;
+};
+
+// Newest first
+export const listExperiments = async (): Promise<Experiment[]> => {
+  const experiments = await getAllRecords<Experiment>(STORES.experiments);
+  return experiments.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteExperiment = (id: string): Promise<undefined> =>
+  deleteRecord(STORES.experiments, id);
+
+// ============================================================================
+// CONFIGURATIONS
+// ============================================================================
+
+// Template bodies a config selects from the saved versions; missing versions fall back to built-in
+export const resolveConfigTemplates = (config: ExperimentConfig, records: PromptTemplateRecord[]): PromptTemplateSet => {
+  const set = getDefaultTemplateSet();
+  PROMPT_TEMPLATES.forEach(({ id }) => {
+    const version = config.templateVersions[id] ?? BUILT_IN_TEMPLATE_VERSION;
+    const saved = records.find(r => r.id === id)?.versions.find(v => v.version === version);
+    if (saved) set[id] = { version: saved.version, body: saved.body };
+  });
+  return set;
+};
+
+const resolveConfigStyle = (config: ExperimentConfig, style?: StylePreset): StylePreset | undefined =>
+  style && config.styleModifiers?.length ? { ...style, styleModifiers: config.styleModifiers } : style;
+
+// ============================================================================
+// TRIALS
+// ============================================================================
+
+// The input with the fewest trials so far, so the test set is covered evenly
+export const pickNextInput = (experiment: Experiment): number => {
+  const counts = experiment.inputs.map((_, index) => experiment.trials.filter(t => t.inputIndex === index).length);
+  return counts.indexOf(Math.min(...counts));
+};
+
+const runConfig = async (
+  provider: GenerationProvider,
+  experiment: Experiment,
+  config: ExperimentConfig,
+  inputText: string,
+  records: PromptTemplateRecord[],
+  userLocale: string,
+  signal?: AbortSignal
+): Promise<ExperimentResult> => {
+  const templates = resolveConfigTemplates(config, records);
+  const style = resolveConfigStyle(config, experiment.stylePreset);
+  const layout = getLayoutTemplate(experiment.layoutId);
+  let promptData: ExperimentResult["promptData"];
+  try {
+    promptData = await provider.engineerPrompt(inputText, [], userLocale, {
+      style, layout, templates, model: config.textModel || undefined, signal,
+    });
+    const imageBase64 = await provider.generatePosterImage(promptData.visualPrompt, experiment.aspectRatio, experiment.imageSize, [], {
+      style, layout, templates, model: config.imageModel || undefined, signal,
+    });
+    return { promptData, imageBase64 };
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    // A failing config loses the trial on screen, but the other side is still worth rating
+    return { promptData, error: (toGenerationError(err) as GenerationError).message };
+  }
+};
+
+// Renders one input with both configs side by side; `random` decides which goes left
+export const runExperimentTrial = async (
+  provider: GenerationProvider,
+  experiment: Experiment,
+  inputIndex: number,
+  records: PromptTemplateRecord[],
+  userLocale: string,
+  options: { signal?: AbortSignal; random?: () => number } = {}
+): Promise<ExperimentTrial> => {
+  const { signal, random = Math.random } = options;
+  const inputText = experiment.inputs[inputIndex];
+  const [a, b] = await Promise.all(experiment.configs.map(config =>
+    runConfig(provider, experiment, config, inputText, records, userLocale, signal)
+  ));
+  return {
+    id: createId(),
+    createdAt: Date.now(),
+    inputIndex,
+    results: [a, b],
+    leftConfig: random() < 0.5 ? 0 : 1,
+  };
+};
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export interface ConfigScore {
+  wins: number;
+  losses: number;
+  ties: number;
+  // Ties count as half a win; null until there is a vote
+  winRate: number | null;
+}
+
+const scoreVotes = (votes: ExperimentVote[], config: 0 | 1): ConfigScore => {
+  const wins = votes.filter(v => v === config).length;
+  const ties = votes.filter(v => v === "tie").length;
+  const losses = votes.length - wins - ties;
+  return { wins, losses, ties, winRate: votes.length > 0 ? (wins + ties / 2) / votes.length : null };
+};
+
+const votesOf = (trials: ExperimentTrial[]) =>
+  trials.map(t => t.vote).filter((v): v is ExperimentVote => v !== undefined);
+
+// Overall score per config, plus the same per test input
+export const aggregateWinRates = (experiment: Experiment) => {
+  const votes = votesOf(experiment.trials);
+  return {
+    overall: [scoreVotes(votes, 0), scoreVotes(votes, 1)] as [ConfigScore, ConfigScore],
+    byInput: experiment.inputs.map((_, index) => {
+      const inputVotes = votesOf(experiment.trials.filter(t => t.inputIndex === index));
+      return [scoreVotes(inputVotes, 0), scoreVotes(inputVotes, 1)] as [ConfigScore, ConfigScore];
+    }),
+  };
+};
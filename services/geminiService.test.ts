@@ -0,0 +1,585 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { classifyIntent, engineerPrompt, generatePosterImage, refinePosterImage, inpaintPosterImage, setAiClientFactory, AiClient } from "./geminiService";
+import { AuthError, NetworkError, SafetyBlockError } from "./errors";
+import { getBuiltInStyle } from "./stylePresets";
+import { getLayoutTemplate } from "./layoutTemplates";
+import { getDefaultTemplateSet } from "./promptTemplates";
+import { IntentClassification, ReferenceImage, ReferenceRole } from "../types";
+
+// ============================================================================
+// FAKE CLIENT
+// Responses are plain objects shaped like GenerateContentResponse; `text` is a
+// getter on the real class, a plain property is indistinguishable to the service.
+// ============================================================================
+type FakeResponse = Record<string, unknown>;
+
+const createFakeClient = (...outcomes: (FakeResponse | Error)[]) => {
+  const generateContent = vi.fn(async (_request: unknown) => {
+    const next = outcomes.shift();
+    if (!next) throw new Error("Fake client: no more responses queued");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  setAiClientFactory(() => ({ models: { generateContent } }) as unknown as AiClient);
+  return generateContent;
+};
+
+const textResponse = (text: string | undefined, extra: Record<string, unknown> = {}): FakeResponse => ({
+  text,
+  candidates: [{ finishReason: "STOP", content: { parts: text ? [{ text }] : [] }, ...extra }],
+});
+
+const imageResponse = (mimeType = "image/png", data = "aW1hZ2U="): FakeResponse => ({
+  candidates: [{ finishReason: "STOP", content: { parts: [{ text: "Here you go" }, { inlineData: { mimeType, data } }] } }],
+});
+
+const WEATHER_INTENT: IntentClassification = { category: "weather", entities: ["上海"] };
+
+const PROMPT_JSON = JSON.stringify({
+  posterTitle: "Tiny Harbor",
+  posterSubtitle: "Dawn in miniature",
+  visualPrompt: "A floating isometric island with a harbor",
+});
+
+// Promise rejections must be observed before timers are flushed
+const settleWithTimers = async <T>(promise: Promise<T>) => {
+  const settled = promise.then(
+    value => ({ ok: true as const, value }),
+    error => ({ ok: false as const, error })
+  );
+  await vi.runAllTimersAsync();
+  return settled;
+};
+
+const getParts = (call: unknown[]) => (call[0] as { contents: { parts: any[] } }).contents.parts;
+
+const ref = (dataUrl: string, role: ReferenceRole = "subject", id = "r1"): ReferenceImage => ({ id, dataUrl, role });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setAiClientFactory(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+// ============================================================================
+// classifyIntent
+// ============================================================================
+describe("classifyIntent", () => {
+  it("returns the structured category and entities", async () => {
+    const generateContent = createFakeClient(textResponse('{"category": "weather", "entities": [" 上海 "]}'));
+
+    const result = await classifyIntent("今天上海天气");
+
+    expect(result).toEqual({ category: "weather", entities: ["上海"] });
+    const request = generateContent.mock.calls[0][0] as any;
+    expect(request.config.responseSchema.properties.category.enum).toEqual(["weather", "finance", "sports", "news", "none"]);
+  });
+
+  it("skips the call for empty input", async () => {
+    const generateContent = createFakeClient();
+
+    expect(await classifyIntent("  ")).toEqual({ category: "none", entities: [] });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown categories as a parse error", async () => {
+    createFakeClient(textResponse('{"category": "art", "entities": []}'));
+
+    await expect(classifyIntent("price of art")).rejects.toMatchObject({ kind: "PARSE", stage: "engineer" });
+  });
+});
+
+// ============================================================================
+// engineerPrompt
+// ============================================================================
+describe("engineerPrompt", () => {
+  it("parses JSON wrapped in prose and code fences", async () => {
+    createFakeClient(textResponse("Sure! Here it is:\n```json\n" + PROMPT_JSON + "\n```\nEnjoy."));
+
+    const result = await engineerPrompt("harbor", [], "en-US");
+
+    expect(result).toEqual(JSON.parse(PROMPT_JSON));
+  });
+
+  it("splits a data URL into mimeType and base64 payload", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("", [ref("data:image/webp;base64,QUJD")], "en-US");
+
+    const parts = getParts(generateContent.mock.calls[0]);
+    expect(parts[0]).toEqual({ inlineData: { mimeType: "image/webp", data: "QUJD" } });
+    expect(parts[1].text).toContain("Reference Image Provided: YES");
+  });
+
+  it("describes style-only references without a subject", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("a harbor", [ref("data:image/png;base64,U1RZ", "style")], "en-US");
+
+    const text = getParts(generateContent.mock.calls[0])[1].text;
+    expect(text).toContain("Subject Reference Image Provided: NO");
+    expect(text).toContain("Image 1 (ART STYLE / MOOD)");
+  });
+
+  it("falls back to image/jpeg when the data URL is not base64-tagged", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("", [ref("data:image/png,QUJD")], "en-US");
+
+    expect(getParts(generateContent.mock.calls[0])[0]).toEqual({ inlineData: { mimeType: "image/jpeg", data: "QUJD" } });
+  });
+
+  it("adds a search instruction and records the live data when search is on", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON), textResponse(PROMPT_JSON));
+
+    const grounded = await engineerPrompt("今天上海天气", [], "zh-CN", { liveData: { intent: WEATHER_INTENT, search: true } });
+    const plain = await engineerPrompt("a sleepy cat", [], "en-US");
+
+    const groundedText = getParts(generateContent.mock.calls[0])[0].text;
+    expect(groundedText).toContain("USE GOOGLE SEARCH");
+    expect(groundedText).toContain("Detected intent: weather (上海)");
+    expect(grounded.liveData).toMatchObject({ category: "weather", entities: ["上海"], grounded: true });
+    expect(getParts(generateContent.mock.calls[1])[0].text).not.toContain("USE GOOGLE SEARCH");
+    expect(plain.liveData).toBeUndefined();
+  });
+
+  it("keeps the detected intent but skips search when search is forced off", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    const result = await engineerPrompt("今天上海天气", [], "zh-CN", { liveData: { intent: WEATHER_INTENT, search: false } });
+
+    expect(getParts(generateContent.mock.calls[0])[0].text).not.toContain("USE GOOGLE SEARCH");
+    expect((generateContent.mock.calls[0][0] as any).config.tools).toBeUndefined();
+    expect(result.liveData).toMatchObject({ category: "weather", grounded: false });
+  });
+
+  it("passes the locale through as the language fallback", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("", [], "zh-CN");
+
+    expect(getParts(generateContent.mock.calls[0])[0].text).toContain('User System Locale: "zh-CN"');
+  });
+
+  it("describes the selected style preset in the system instruction", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("a harbor", [], "en-US", { style: getBuiltInStyle("voxel") });
+
+    const instruction = (generateContent.mock.calls[0][0] as any).config.systemInstruction;
+    expect(instruction).toContain("ART STYLE: VOXEL");
+    expect(instruction).toContain(getBuiltInStyle("voxel").engineeringVisuals);
+  });
+
+  it("describes the selected layout's zones in the system instruction", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("a harbor", [], "en-US", { layout: getLayoutTemplate("landscape-banner") });
+
+    const instruction = (generateContent.mock.calls[0][0] as any).config.systemInstruction;
+    expect(instruction).toContain("LANDSCAPE BANNER");
+    expect(instruction).toContain("Left 60% (vertically centered)");
+    expect(instruction).toContain("Right 40%, upper half");
+    expect(instruction).not.toContain("Top 25%");
+  });
+
+  it("fills a custom engineering template", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+    const templates = getDefaultTemplateSet();
+    templates.engineeringSystem = { version: 2, body: "Custom rules for {{styleName}}." };
+
+    await engineerPrompt("a harbor", [], "en-US", { style: getBuiltInStyle("voxel"), templates });
+
+    expect((generateContent.mock.calls[0][0] as any).config.systemInstruction).toBe("Custom rules for VOXEL.");
+  });
+
+  it("uses an overridden model id", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("a harbor", [], "en-US", { model: "gemini-test-model" });
+
+    expect((generateContent.mock.calls[0][0] as any).model).toBe("gemini-test-model");
+  });
+
+  it("replaces the language priority chain with an explicit output language", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+
+    await engineerPrompt("只狼", [], "zh-CN", { language: { primary: "en" } });
+
+    const request = generateContent.mock.calls[0][0] as any;
+    expect(request.config.systemInstruction).toContain("The **Target Output Language** is **English**");
+    expect(request.config.systemInstruction).not.toContain("LANGUAGE PRIORITY");
+    expect(getParts(generateContent.mock.calls[0])[0].text).toContain("Output Language: English (USER OVERRIDE");
+  });
+
+  it("requests and parses second-language titles in bilingual mode", async () => {
+    const bilingual = JSON.stringify({ ...JSON.parse(PROMPT_JSON), secondaryTitle: "小港口", secondarySubtitle: "黎明的渔村" });
+    const generateContent = createFakeClient(textResponse(bilingual));
+
+    const result = await engineerPrompt("a harbor", [], "en-US", { language: { secondary: "zh-CN" } });
+
+    const request = generateContent.mock.calls[0][0] as any;
+    expect(request.config.responseSchema.required).toContain("secondaryTitle");
+    expect(request.config.systemInstruction).toContain("Second Language: Simplified Chinese");
+    expect(result.secondaryTitle).toBe("小港口");
+    expect(result.secondarySubtitle).toBe("黎明的渔村");
+  });
+
+  it("retries transient failures and then succeeds", async () => {
+    const generateContent = createFakeClient(new Error("503"), new Error("503"), textResponse(PROMPT_JSON));
+
+    const outcome = await settleWithTimers(engineerPrompt("harbor", []));
+
+    expect(outcome.ok).toBe(true);
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after three failed attempts", async () => {
+    const generateContent = createFakeClient(new Error("a"), new Error("b"), new Error("c"), textResponse(PROMPT_JSON));
+
+    const outcome = await settleWithTimers(engineerPrompt("harbor", []));
+
+    expect(outcome).toMatchObject({ ok: false, error: expect.objectContaining({ message: "c" }) });
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not call the model when already cancelled", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(engineerPrompt("harbor", [], "en-US", { signal: controller.signal })).rejects.toMatchObject({ name: "AbortError" });
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it("reports a safety block via finishReason", async () => {
+    createFakeClient({ text: undefined, candidates: [{ finishReason: "SAFETY" }] });
+
+    await expect(engineerPrompt("harbor", [])).rejects.toMatchObject({
+      kind: "SAFETY",
+      finishReason: "SAFETY",
+      stage: "engineer",
+      message: "AI generation stopped: SAFETY",
+    });
+  });
+
+  it("reports a blocked prompt via promptFeedback", async () => {
+    createFakeClient({ text: undefined, promptFeedback: { blockReason: "PROHIBITED_CONTENT" } });
+
+    await expect(engineerPrompt("harbor", [])).rejects.toBeInstanceOf(SafetyBlockError);
+  });
+
+  it("classifies permission errors as auth failures without retrying", async () => {
+    const denied = Object.assign(new Error('{"error":{"code":403,"status":"PERMISSION_DENIED"}}'), { status: 403 });
+    const generateContent = createFakeClient(denied, textResponse(PROMPT_JSON));
+
+    await expect(engineerPrompt("harbor", [])).rejects.toBeInstanceOf(AuthError);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("classifies 429s as quota errors and extracts the retry delay", async () => {
+    const limited = Object.assign(new Error('RESOURCE_EXHAUSTED {"retryDelay": "17s"}'), { status: 429 });
+    createFakeClient(limited);
+
+    await expect(engineerPrompt("harbor", [])).rejects.toMatchObject({ kind: "QUOTA", retryAfterMs: 17000 });
+  });
+
+  it("rejects an empty response", async () => {
+    createFakeClient(textResponse(undefined));
+
+    await expect(engineerPrompt("harbor", [])).rejects.toThrow("empty response");
+  });
+
+  it("requests a JSON response schema when search grounding is off", async () => {
+    const generateContent = createFakeClient(textResponse(PROMPT_JSON), textResponse(PROMPT_JSON));
+
+    await engineerPrompt("a sleepy cat", []);
+    await engineerPrompt("weather in Paris", [], "en-US", { liveData: { intent: WEATHER_INTENT, search: true } });
+
+    const plain = generateContent.mock.calls[0][0] as any;
+    expect(plain.config.responseMimeType).toBe("application/json");
+    expect(plain.config.responseSchema.required).toEqual(["posterTitle", "posterSubtitle", "visualPrompt"]);
+    expect(plain.config.tools).toBeUndefined();
+
+    const grounded = generateContent.mock.calls[1][0] as any;
+    expect(grounded.config.tools).toEqual([{ googleSearch: {} }]);
+    expect(grounded.config.responseSchema).toBeUndefined();
+  });
+
+  it("repairs malformed JSON with a follow-up request", async () => {
+    const broken = '{"posterTitle": "Tiny Harbor",';
+    const generateContent = createFakeClient(textResponse(broken), textResponse(PROMPT_JSON));
+
+    const result = await engineerPrompt("harbor", []);
+
+    expect(result.posterTitle).toBe("Tiny Harbor");
+    const repair = generateContent.mock.calls[1][0] as any;
+    expect(repair.contents).toHaveLength(3);
+    expect(repair.contents[1]).toEqual({ role: "model", parts: [{ text: broken }] });
+    expect(repair.contents[2].parts[0].text).toContain("is not valid JSON");
+  });
+
+  it("names the invalid field when the repair also fails validation", async () => {
+    const missingVisual = JSON.stringify({ posterTitle: "Tiny Harbor", posterSubtitle: "Dawn" });
+    createFakeClient(textResponse(missingVisual), textResponse(missingVisual));
+
+    await expect(engineerPrompt("harbor", [])).rejects.toMatchObject({
+      name: "PromptSchemaError",
+      field: "visualPrompt",
+    });
+  });
+
+  it("keeps grounding sources from the original response after a repair", async () => {
+    createFakeClient(
+      textResponse('{"posterTitle": 42}', {
+        groundingMetadata: { groundingChunks: [{ web: { title: "Quotes", uri: "https://example.com/q" } }] },
+      }),
+      textResponse(PROMPT_JSON)
+    );
+
+    const result = await engineerPrompt("AAPL stock", []);
+
+    expect(result.groundingSources).toEqual([{ title: "Quotes", uri: "https://example.com/q" }]);
+  });
+
+  it("maps web grounding chunks to sources and drops non-web chunks", async () => {
+    createFakeClient(textResponse(PROMPT_JSON, {
+      groundingMetadata: {
+        groundingChunks: [
+          { web: { title: "Market Watch", uri: "https://example.com/a" } },
+          { retrievedContext: { title: "ignored" } },
+          { web: { title: "Weather", uri: "https://example.com/b" } },
+        ],
+      },
+    }));
+
+    const result = await engineerPrompt("AAPL stock", []);
+
+    expect(result.groundingSources).toEqual([
+      { title: "Market Watch", uri: "https://example.com/a" },
+      { title: "Weather", uri: "https://example.com/b" },
+    ]);
+  });
+});
+
+// ============================================================================
+// generatePosterImage
+// ============================================================================
+describe("generatePosterImage", () => {
+  it("returns the first inline image as a data URL", async () => {
+    const generateContent = createFakeClient(imageResponse("image/png", "UE5H"));
+
+    const result = await generatePosterImage("a harbor", "9:16", "2K", []);
+
+    expect(result).toBe("data:image/png;base64,UE5H");
+    const request = generateContent.mock.calls[0][0] as any;
+    expect(request.config.imageConfig).toEqual({ aspectRatio: "9:16", imageSize: "2K" });
+    expect(request.contents.parts).toHaveLength(1);
+    expect(request.contents.parts[0].text).toContain("[SYSTEM: GENERATION MODE]");
+  });
+
+  it("sends the reference image in reference mode", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await generatePosterImage("a harbor", "1:1", "1K", [ref("data:image/jpeg;base64,UkVG")]);
+
+    const parts = getParts(generateContent.mock.calls[0]);
+    expect(parts[0]).toEqual({ inlineData: { mimeType: "image/jpeg", data: "UkVG" } });
+    expect(parts[1].text).toContain("[SYSTEM: IMAGE REFERENCE MODE]");
+  });
+
+  it("sends multiple references in order with their roles", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await generatePosterImage("a harbor", "1:1", "1K", [
+      ref("data:image/jpeg;base64,U1VC"),
+      ref("data:image/png;base64,UEFM", "palette", "r2"),
+    ]);
+
+    const parts = getParts(generateContent.mock.calls[0]);
+    expect(parts[0].inlineData.data).toBe("U1VC");
+    expect(parts[1].inlineData.data).toBe("UEFM");
+    expect(parts[2].text).toContain("Image 1 (SUBJECT)");
+    expect(parts[2].text).toContain("Image 2 (COLOR PALETTE)");
+  });
+
+  it("asks for a text-free render in composite mode", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await generatePosterImage("a harbor", "1:1", "1K", [], { textRenderMode: "composite" });
+
+    expect(getParts(generateContent.mock.calls[0])[0].text).toContain("TEXT-FREE RENDER");
+  });
+
+  it("injects the style preset's modifiers into the image prompt", async () => {
+    const generateContent = createFakeClient(imageResponse());
+    const style = getBuiltInStyle("papercraft");
+
+    await generatePosterImage("a harbor", "1:1", "1K", [], { style });
+
+    const text = getParts(generateContent.mock.calls[0])[0].text;
+    expect(text).toContain("[STYLE MODIFIERS: PAPERCRAFT]");
+    style.styleModifiers.forEach(line => expect(text).toContain(line));
+    expect(text).not.toContain("Claymorphism");
+  });
+
+  it("places the island and text in the layout's zones", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await generatePosterImage("a harbor", "16:9", "1K", [], { layout: getLayoutTemplate("landscape-banner") });
+
+    const text = getParts(generateContent.mock.calls[0])[0].text;
+    expect(text).toContain("[LAYOUT RULES: LANDSCAPE BANNER - MINIATURE WORLD]");
+    expect(text).toContain("in the LEFT 60% (VERTICALLY CENTERED)");
+    expect(text).toContain("Render the TITLE explicitly in the right 40%, upper half");
+  });
+
+  it("always renders text-free for a layout without text zones", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await generatePosterImage("a harbor", "1:1", "1K", [], { layout: getLayoutTemplate("art-print"), textRenderMode: "model" });
+
+    const text = getParts(generateContent.mock.calls[0])[0].text;
+    expect(text).toContain("TEXT-FREE RENDER");
+    expect(text).not.toContain("Render the TITLE");
+  });
+
+  it("retries transient failures and then succeeds", async () => {
+    const generateContent = createFakeClient(new Error("500"), imageResponse());
+
+    const outcome = await settleWithTimers(generatePosterImage("a harbor", "1:1", "1K", []));
+
+    expect(outcome.ok).toBe(true);
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops retrying when cancelled during the backoff sleep", async () => {
+    const generateContent = createFakeClient(new Error("500"), imageResponse());
+    const controller = new AbortController();
+
+    const pending = generatePosterImage("a harbor", "1:1", "1K", [], { signal: controller.signal });
+    const settled = pending.then(() => null, error => error);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.runAllTimersAsync();
+
+    expect(await settled).toMatchObject({ name: "AbortError" });
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("forwards the abort signal to the SDK request", async () => {
+    const generateContent = createFakeClient(imageResponse());
+    const controller = new AbortController();
+
+    await generatePosterImage("a harbor", "1:1", "1K", [], { signal: controller.signal });
+
+    expect((generateContent.mock.calls[0][0] as any).config.abortSignal).toBe(controller.signal);
+  });
+
+  it("fails when there are no candidates", async () => {
+    createFakeClient({ candidates: [] });
+
+    await expect(generatePosterImage("a harbor", "1:1", "1K", [])).rejects.toThrow("No image generated");
+  });
+
+  it("reports a safety block when the candidate has no content", async () => {
+    createFakeClient({ candidates: [{ finishReason: "IMAGE_SAFETY" }] });
+
+    await expect(generatePosterImage("a harbor", "1:1", "1K", [])).rejects.toMatchObject({
+      kind: "SAFETY",
+      finishReason: "IMAGE_SAFETY",
+      stage: "image",
+    });
+  });
+
+  it("fails when the response contains only text", async () => {
+    createFakeClient(textResponse("I cannot draw that."));
+
+    await expect(generatePosterImage("a harbor", "1:1", "1K", [])).rejects.toMatchObject({
+      kind: "NO_IMAGE",
+      message: "No image data found",
+    });
+  });
+
+  it("classifies fetch failures as network errors", async () => {
+    createFakeClient(new TypeError("Failed to fetch"), new TypeError("Failed to fetch"), new TypeError("Failed to fetch"));
+
+    const outcome = await settleWithTimers(generatePosterImage("a harbor", "1:1", "1K", []));
+
+    expect(outcome).toMatchObject({ ok: false, error: expect.any(NetworkError) });
+  });
+});
+
+// ============================================================================
+// refinePosterImage
+// ============================================================================
+describe("refinePosterImage", () => {
+  it("sends the current poster back with the edit instruction", async () => {
+    const generateContent = createFakeClient(imageResponse("image/png", "TkVX"));
+
+    const result = await refinePosterImage("data:image/png;base64,T0xE", "make the sky sunset", "9:16", "1K");
+
+    expect(result).toBe("data:image/png;base64,TkVX");
+    const parts = getParts(generateContent.mock.calls[0]);
+    expect(parts[0]).toEqual({ inlineData: { mimeType: "image/png", data: "T0xE" } });
+    expect(parts[1].text).toContain("[SYSTEM: IMAGE REFINEMENT MODE]");
+    expect(parts[1].text).toContain("make the sky sunset");
+    expect(parts[1].text).toContain("Keep the existing title and subtitle text");
+  });
+
+  it("keeps composite renders text-free", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await refinePosterImage("data:image/png;base64,T0xE", "add a tiny cat", "1:1", "1K", { textRenderMode: "composite" });
+
+    expect(getParts(generateContent.mock.calls[0])[1].text).toContain("The image is TEXT-FREE");
+  });
+
+  it("uses an overridden image model", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await refinePosterImage("data:image/png;base64,T0xE", "add a cat", "1:1", "1K", { model: "gemini-test-image" });
+
+    expect((generateContent.mock.calls[0][0] as any).model).toBe("gemini-test-image");
+  });
+
+  it("classifies a text-only answer as a missing image", async () => {
+    createFakeClient(textResponse("I cannot edit this"));
+
+    await expect(refinePosterImage("data:image/png;base64,T0xE", "add a cat", "1:1", "1K")).rejects.toMatchObject({ kind: "NO_IMAGE", stage: "image" });
+  });
+});
+
+// ============================================================================
+// inpaintPosterImage
+// ============================================================================
+describe("inpaintPosterImage", () => {
+  it("sends the poster, the mask and the instruction in that order", async () => {
+    const generateContent = createFakeClient(imageResponse("image/png", "RURJVA=="));
+
+    const result = await inpaintPosterImage("data:image/png;base64,T0xE", "data:image/png;base64,TUFTSw==", "fix the figurine's face", "9:16", "2K");
+
+    expect(result).toBe("data:image/png;base64,RURJVA==");
+    const request = generateContent.mock.calls[0][0] as any;
+    expect(request.config.imageConfig).toEqual({ aspectRatio: "9:16", imageSize: "2K" });
+    const parts = request.contents.parts;
+    expect(parts[0].inlineData.data).toBe("T0xE");
+    expect(parts[1].inlineData.data).toBe("TUFTSw==");
+    expect(parts[2].text).toContain("[SYSTEM: MASKED EDIT MODE]");
+    expect(parts[2].text).toContain("fix the figurine's face");
+  });
+
+  it("uses an overridden image model", async () => {
+    const generateContent = createFakeClient(imageResponse());
+
+    await inpaintPosterImage("data:image/png;base64,T0xE", "data:image/png;base64,TUFTSw==", "fix it", "1:1", "1K", { model: "gemini-test-image" });
+
+    expect((generateContent.mock.calls[0][0] as any).model).toBe("gemini-test-image");
+  });
+});
@@ -1,19 +1,79 @@
-import { GoogleGenAI } from "@google/genai";
-import { EngineeredPrompt, AspectRatio, ImageSize } from "../types";
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { EngineeredPrompt, AspectRatio, ImageSize, GenerationProvider, ImageGenerationOptions, EngineerPromptOptions, StylePreset, LayoutTemplate, ReferenceImage, LanguageSettings, IntentClassification, PromptTemplateSet } from "../types";
+import { ENGINEERED_PROMPT_SCHEMA, BILINGUAL_PROMPT_SCHEMA, PromptSchemaError, parseEngineeredPrompt, buildRepairMessage } from "./promptSchema";
+import { sleep, throwIfAborted, isAbortError } from "../utils/abort";
+import {
+  GenerationError, AuthError, SafetyBlockError, EmptyResponseError, NoImageError,
+  toGenerationError, isSafetyReason,
+} from "./errors";
+import { getGeminiClientOptions } from "./apiKeys";
+import { getBuiltInStyle } from "./stylePresets";
+import { getLayoutTemplate, hasTextZones } from "./layoutTemplates";
+import { describeReferences, hasSubjectReference } from "./referenceRoles";
+import { getLanguageName } from "./languages";
+import { INTENT_SCHEMA, INTENT_SYSTEM_INSTRUCTION, NO_INTENT, parseIntentClassification } from "./liveDataIntent";
+import { getDefaultTemplateSet, interpolate } from "./promptTemplates";
+
+// Use gemini-3-pro-preview for maximum reasoning capability
+export const GEMINI_TEXT_MODEL = "gemini-3-pro-preview";
+export const GEMINI_IMAGE_MODEL = "gemini-3-pro-image-preview";
+// Intent classification is a short structured call; a fast model is enough
+export const GEMINI_INTENT_MODEL = "gemini-2.5-flash";
+
+// Only the surface we call; lets tests inject a fake client without the network
+export type AiClient = Pick<GoogleGenAI, "models">;
+
+// Browser default: the active key source (apiKeys.ts); Node entry points install their own factory
+const createDefaultClient = (): AiClient => {
+  const options = getGeminiClientOptions();
+  if (!options) throw new AuthError("No API key is set. Add one in Settings, or start the local key proxy.");
+  return new GoogleGenAI(options);
+};
+
+let aiClientFactory: () => AiClient = createDefaultClient;
+
+// Override how the Gemini client is constructed; pass null to restore the default
+export const setAiClientFactory = (factory: (() => AiClient) | null) => {
+  aiClientFactory = factory || createDefaultClient;
+};
+
+const getAiClient = (): AiClient => aiClientFactory();
 
-const getAiClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+// Data URL -> inlineData part; falls back to JPEG when the URL is not base64-tagged
+const toInlineData = (dataUrl: string) => {
+  const matches = dataUrl.match(/^data:(.+);base64,(.+)$/);
+  return {
+    mimeType: matches ? matches[1] : "image/jpeg",
+    data: matches ? matches[2] : dataUrl.split(',')[1],
+  };
 };
 
 // ============================================================================
 // 1. SYSTEM INSTRUCTION
-// Optimized for Strict Language Priority & Layout Enforcement
+// Optimized for Strict Language Priority & Layout Enforcement. The surrounding
+// prose is the editable engineeringSystem template (promptTemplates.ts).
 // ============================================================================
-const PROMPT_ENGINEERING_SYSTEM_INSTRUCTION = `
-You are a world-class Prompt Engineer and Art Director.
-You have access to Google Search.
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const buildEngineeringLayoutRule = (layout: LayoutTemplate) => {
+  const textZones = [
+    layout.titleZone && `    *   **${capitalize(layout.titleZone.label)}:** Negative space for TITLE. **CRITICAL: The background color must continue here.**`,
+    layout.subtitleZone && `    *   **${capitalize(layout.subtitleZone.label)}:** Negative space for SUBTITLE. **CRITICAL: The background color must continue here.**`,
+  ].filter(Boolean);
+
+  return `**CRITICAL LAYOUT RULE: ${layout.name.toUpperCase()} - "MINIATURE DIORAMA COMPOSITION"**
+1.  **Integrated Composition:**
+    *   **${capitalize(layout.subjectZone.label)}:** **The Subject is a "Tiny Isometric Diorama" (A floating platform).**
+${textZones.length > 0 ? textZones.join("\n") : "    *   **NO TEXT IN THE IMAGE.** The visualPrompt must NOT ask for any rendered title, subtitle or lettering. Still fill posterTitle/posterSubtitle (they are used as metadata)."}
+${layout.compositionRules.map(rule => `    *   ${rule}`).join("\n")}`;
+};
 
-**CRITICAL PROTOCOL - LANGUAGE PRIORITY (STRICT ORDER):**
+// Where the engineer is told to place the title in its visualPrompt example
+const describeTitlePlacement = (layout: LayoutTemplate) =>
+  layout.titleZone ? `Render the text [小妖怪] in the ${layout.titleZone.label}...` : "No text is rendered in this layout.";
+
+// Automatic mode: the engineer infers the language from the inputs
+const LANGUAGE_PRIORITY_RULE = `**CRITICAL PROTOCOL - LANGUAGE PRIORITY (STRICT ORDER):**
 You must determine the **Target Output Language** based on the following hierarchy. STOP at the first matching rule:
 
 1.  **PRIORITY 1: USER INPUT TEXT (The Boss)**
@@ -24,7 +84,7 @@ You must determine the **Target Output Language** based on the following hierarc
 
 2.  **PRIORITY 2: REFERENCE IMAGE TEXT (The Context)**
     *   **Condition:** ONLY if User Input is EMPTY.
-    *   **Rule:** Analyze the Reference Image. Does it contain visible, legible text (e.g., Movie Poster Title, Book Cover)?
+    *   **Rule:** Analyze the SUBJECT Reference Image(s). Does it contain visible, legible text (e.g., Movie Poster Title, Book Cover)?
     *   **Action:** If yes, use the dominant language found in the image.
     *   *Example:* User input is empty + Image is the "Lang Lang Mountain" poster (Chinese). -> **OUTPUT: CHINESE.**
 
@@ -35,139 +95,212 @@ You must determine the **Target Output Language** based on the following hierarc
     *   *Example:* Empty input + Landscape photo + Locale 'zh-CN'. -> **OUTPUT: CHINESE.**
 
 4.  **PRIORITY 4: DEFAULT**
-    *   **Action:** English.
-
-**CRITICAL LAYOUT RULE: THE "MINIATURE DIORAMA COMPOSITION"**
-1.  **Integrated Composition (Full Bleed):**
-    *   **Top 25%:** Negative space for TITLE. **CRITICAL: The background color must continue here.**
-    *   **Middle 50%:** **The Subject is a "Tiny Isometric Diorama" (A floating platform).**
-    *   **Bottom 25%:** Negative space for SUBTITLE. **CRITICAL: The background color must continue here.**
-    *   **NO WHITE BARS.** The entire canvas must have a unified background color. The text sits directly on the background.
-
-2.  **Scale & Camera:** 
-    *   **Create a "Tilt-shift" effect.** The camera must be a **High-Angle Long Shot**.
-    *   **CRITICAL:** Characters must be **TINY figurines** (taking up no more than 1/3 of the island's height). 
-    *   **Do NOT produce close-ups or portraits.** The focus is the *entire* floating island environment.
-
-**INPUT HANDLING STRATEGY:**
-
-**CASE A: REFERENCE IMAGE (Style Transfer)**
-- **Action:** Extract the subject but shrink it down to a "toy figurine" scale placed on a detailed isometric base.
-- **Visuals:** Describe a **"cute 3D clay render, blind box toy style, miniature world"**.
-
-**CASE B: REAL-TIME DATA (Stocks/Weather)**
-- **Tool:** Search for live data.
-- **Language:** Use the **Target Output Language** for the Subject Name. Keep numbers universal.
-
-**OUTPUT FORMAT (JSON):**
-Structure:
-{
-  "posterTitle": "Title in Target Language",
-  "posterSubtitle": "Subtitle in Target Language",
-  "visualPrompt": "The detailed prompt in ENGLISH. BUT, inside the text instructions, use the Target Language strings. Example: 'Render the text [小妖怪] in the top space...'"
-}
-`;
+    *   **Action:** English.`;
+
+// An explicit output language replaces the priority chain; a second language adds bilingual fields
+const buildLanguageRule = (language: LanguageSettings) => {
+  const primary = language.primary
+    ? `**CRITICAL PROTOCOL - OUTPUT LANGUAGE (USER OVERRIDE):**
+The **Target Output Language** is **${getLanguageName(language.primary)}**, chosen explicitly by the user.
+*   Write the Title and Subtitle in ${getLanguageName(language.primary)}, translating or adapting the subject name if needed.
+*   Ignore the language of the user input, of any text in the reference images and of the system locale.`
+    : LANGUAGE_PRIORITY_RULE;
+  if (!language.secondary) return primary;
+  const secondary = getLanguageName(language.secondary);
+  return `${primary}
+
+**BILINGUAL POSTER:**
+*   Also write the Title and Subtitle in the **Second Language: ${secondary}** ("secondaryTitle", "secondarySubtitle"). Translate or adapt them; keep proper names recognizable.
+*   If the Target Output Language already is ${secondary}, use English as the Target Output Language instead.
+*   The visualPrompt must render BOTH: the Target Language title large, with the ${secondary} title in smaller letters directly beneath it (same for the subtitles).`;
+};
+
+const buildEngineeringSystemInstruction = (
+  style: StylePreset,
+  layout: LayoutTemplate,
+  language: LanguageSettings = {},
+  templates: PromptTemplateSet = getDefaultTemplateSet()
+) => interpolate(templates.engineeringSystem.body, {
+  languageRule: buildLanguageRule(language),
+  layoutRule: buildEngineeringLayoutRule(layout),
+  styleName: style.name.toUpperCase(),
+  styleVisuals: style.engineeringVisuals,
+  secondaryFields: language.secondary ? `
+  "secondaryTitle": "Title in ${getLanguageName(language.secondary)}",
+  "secondarySubtitle": "Subtitle in ${getLanguageName(language.secondary)}",` : "",
+  titlePlacement: describeTitlePlacement(layout),
+});
+
+// Retries transient failures with linear backoff. Aborting stops both the
+// in-flight request and any pending backoff sleep; cancellations and
+// non-transient errors (auth, quota) are never retried.
+const generateWithRetry = async (
+  ai: AiClient,
+  request: GenerateContentParameters,
+  label: string,
+  backoffMs: number,
+  signal?: AbortSignal,
+  maxAttempts: number = 3
+): Promise<GenerateContentResponse> => {
+  const requestWithSignal = signal
+    ? { ...request, config: { ...request.config, abortSignal: signal } }
+    : request;
+
+  let attempts = 0;
+  while (true) {
+    throwIfAborted(signal);
+    try {
+      return await ai.models.generateContent(requestWithSignal);
+    } catch (error: any) {
+      if (signal?.aborted || isAbortError(error)) throw error;
+      const classified = toGenerationError(error) as GenerationError;
+      console.warn(`${label} Attempt ${attempts + 1} failed:`, error);
+      attempts++;
+      if (!classified.retryable || attempts >= maxAttempts) throw classified;
+      await sleep(backoffMs * attempts, signal);
+    }
+  }
+};
+
+// Returns the response text, surfacing blocked or empty generations as errors
+const extractResponseText = (response: GenerateContentResponse): string => {
+  // The prompt itself may be refused before any candidate is produced
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason && !response.text) {
+    throw new SafetyBlockError(String(blockReason));
+  }
+
+  // Check if the model blocked the response
+  if (response.candidates && response.candidates.length > 0) {
+    const candidate = response.candidates[0];
+    if (candidate.finishReason !== "STOP" && candidate.finishReason !== "MAX_TOKENS") {
+      // If we have no text but a finish reason, it might be safety or other
+      if (!response.text) {
+        console.warn("Generation stopped. Finish Reason:", candidate.finishReason);
+        const reason = String(candidate.finishReason);
+        throw isSafetyReason(reason)
+          ? new SafetyBlockError(reason)
+          : new EmptyResponseError(`AI generation stopped: ${reason}`);
+      }
+    }
+  }
+
+  if (!response.text) {
+    throw new EmptyResponseError();
+  }
+  return response.text;
+};
+
+// ============================================================================
+// 2. CLASSIFY INTENT FUNCTION
+// ============================================================================
+export const classifyIntent = async (
+  inputText: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<IntentClassification> => {
+  if (!inputText.trim()) return NO_INTENT;
+  try {
+    const response = await generateWithRetry(getAiClient(), {
+      model: GEMINI_INTENT_MODEL,
+      contents: { parts: [{ text: `Request: "${inputText}"` }] },
+      config: {
+        systemInstruction: INTENT_SYSTEM_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: INTENT_SCHEMA,
+      },
+    }, "Classify Intent", 1000, options.signal);
+    return parseIntentClassification(extractResponseText(response));
+  } catch (error) {
+    console.error("Classify Intent Error:", error);
+    throw toGenerationError(error, "engineer");
+  }
+};
 
 // ============================================================================
-// 2. ENGINEER PROMPT FUNCTION
+// 3. ENGINEER PROMPT FUNCTION
 // ============================================================================
 export const engineerPrompt = async (
   inputText: string, 
-  imageBase64: string | null,
-  userLocale: string = "en-US" 
+  references: ReferenceImage[],
+  userLocale: string = "en-US",
+  options: EngineerPromptOptions = {}
 ): Promise<EngineeredPrompt> => {
+  const { signal } = options;
+  const language = options.language || {};
+  const bilingual = !!language.secondary;
+  const templates = options.templates || getDefaultTemplateSet();
+  const systemInstruction = buildEngineeringSystemInstruction(
+    options.style || getBuiltInStyle(),
+    options.layout || getLayoutTemplate(),
+    language,
+    templates
+  );
   try {
-    // Use gemini-3-pro-preview for maximum reasoning capability
-    const modelId = "gemini-3-pro-preview"; 
+    const modelId = options.model || GEMINI_TEXT_MODEL;
     const ai = getAiClient();
     
-    const parts: any[] = [];
-    if (imageBase64) {
-      const matches = imageBase64.match(/^data:(.+);base64,(.+)$/);
-      const mimeType = matches ? matches[1] : "image/jpeg";
-      const data = matches ? matches[2] : imageBase64.split(',')[1];
-
-      parts.push({
-        inlineData: { mimeType, data },
-      });
-    }
+    const parts: any[] = references.map(ref => ({ inlineData: toInlineData(ref.dataUrl) }));
     
-    // Check for data keywords to trigger search tool
+    // Search grounding follows the classified intent (or the user's forced choice)
     let finalInputText = inputText;
-    const dataKeywords = ["stock", "price", "weather", "news", "score"];
-    // Simple check: if input exists and matches keywords
-    const needsSearch = inputText && dataKeywords.some(kw => inputText.toLowerCase().includes(kw));
+    const liveData = options.liveData;
+    const needsSearch = !!liveData?.search;
     
     if (needsSearch) {
-        finalInputText = `User Query: "${inputText}". \nINSTRUCTION: USE GOOGLE SEARCH to find the current live data value.`;
+        const { category, entities } = liveData!.intent;
+        const about = category !== "none" ? `\nDetected intent: ${category}${entities.length > 0 ? ` (${entities.join(", ")})` : ""}.` : "";
+        finalInputText = `User Query: "${inputText}".${about} \nINSTRUCTION: USE GOOGLE SEARCH to find the current live data value.`;
     }
 
     // Explicitly pass the metadata to the System Prompt logic
-    const contextMessage = `
-    [METADATA FOR LANGUAGE LOGIC]
-    1. User Input Text: "${finalInputText || ""}" (If not empty, this is PRIORITY 1)
-    2. Reference Image Provided: ${imageBase64 ? "YES" : "NO"} (If Input is empty, check this for text -> PRIORITY 2)
-    3. User System Locale: "${userLocale}" (Fallback -> PRIORITY 3)
-    
-    [TASK]
-    Determine the Target Language based on the Priority Rules.
-    Create a 3D Miniature Isometric Poster concept.
-    `;
+    const contextMessage = interpolate(templates.engineeringContext.body, {
+      userText: finalInputText || "",
+      hasSubjectReference: hasSubjectReference(references) ? "YES" : "NO",
+      locale: userLocale,
+      outputLanguage: language.primary ? `${getLanguageName(language.primary)} (USER OVERRIDE - the priorities above do not apply)` : "AUTO",
+      secondLanguage: bilingual ? `\n5. Second Language (bilingual): ${getLanguageName(language.secondary!)}` : "",
+      references: references.length > 0 ? `\n[REFERENCE IMAGES]\n${describeReferences(references)}\n` : "",
+      task: language.primary ? "Use the Output Language as the Target Language." : "Determine the Target Language based on the Priority Rules.",
+    });
 
     parts.push({ text: contextMessage });
 
-    let response;
-    let attempts = 0;
-    
-    while (attempts < 3) {
-        try {
-            response = await ai.models.generateContent({
-                model: modelId,
-                contents: { parts },
-                config: {
-                    systemInstruction: PROMPT_ENGINEERING_SYSTEM_INSTRUCTION,
-                    tools: [{ googleSearch: {} }],
-                },
-            });
-            break; 
-        } catch (error: any) {
-            console.warn(`Engineer Prompt Attempt ${attempts + 1} failed:`, error);
-            attempts++;
-            if (attempts >= 3) throw error;
-            await new Promise(r => setTimeout(r, 1000 * attempts));
-        }
-    }
-
-    // Enhanced Error Handling
-    if (!response) throw new Error("No response from AI service.");
-    
-    // Check if the model blocked the response
-    if (response.candidates && response.candidates.length > 0) {
-        const candidate = response.candidates[0];
-        if (candidate.finishReason !== "STOP" && candidate.finishReason !== "MAX_TOKENS") {
-             // If we have no text but a finish reason, it might be safety or other
-             if (!response.text) {
-                 console.warn("Generation stopped. Finish Reason:", candidate.finishReason);
-                 throw new Error(`AI generation stopped: ${candidate.finishReason}`);
-             }
-        }
-    }
+    // The SDK can't combine a response schema with search grounding, so grounded
+    // runs rely on runtime validation alone
+    const jsonConfig = {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: bilingual ? BILINGUAL_PROMPT_SCHEMA : ENGINEERED_PROMPT_SCHEMA,
+    };
+    const config = needsSearch
+        ? { systemInstruction, tools: [{ googleSearch: {} }] }
+        : jsonConfig;
 
-    if (!response.text) {
-        throw new Error("The AI returned an empty response. Please try again with a different prompt or image.");
-    }
-
-    let jsonString = response.text.trim();
-    if (jsonString.includes('{')) {
-        jsonString = jsonString.substring(jsonString.indexOf('{'), jsonString.lastIndexOf('}') + 1);
-    }
+    const response = await generateWithRetry(ai, { model: modelId, contents: { parts }, config }, "Engineer Prompt", 1000, signal);
+    const text = extractResponseText(response);
 
     let data: EngineeredPrompt;
     try {
-        data = JSON.parse(jsonString) as EngineeredPrompt;
-    } catch (e) {
-        console.error("JSON Parse Error", jsonString);
-        throw new Error("Failed to parse generated prompt.");
+        data = parseEngineeredPrompt(text, bilingual);
+    } catch (error) {
+        if (!(error instanceof PromptSchemaError)) throw error;
+
+        // One repair round: show the model its output and the validation issues
+        console.warn("Engineered prompt failed validation, requesting repair:", error.issues);
+        const repairResponse = await generateWithRetry(ai, {
+            model: modelId,
+            contents: [
+                { role: "user", parts },
+                { role: "model", parts: [{ text }] },
+                { role: "user", parts: [{ text: buildRepairMessage(error, bilingual) }] },
+            ],
+            config: jsonConfig,
+        }, "Engineer Prompt Repair", 1000, signal);
+        data = parseEngineeredPrompt(extractResponseText(repairResponse), bilingual);
+    }
+
+    if (liveData && (needsSearch || liveData.intent.category !== "none")) {
+      data.liveData = { ...liveData.intent, grounded: needsSearch, retrievedAt: Date.now() };
     }
 
     // Grounding
@@ -181,114 +314,223 @@ export const engineerPrompt = async (
 
   } catch (error) {
     console.error("Engineer Prompt Error:", error);
-    throw error;
+    throw toGenerationError(error, "engineer");
   }
 };
 
 // ============================================================================
-// 3. GENERATE POSTER IMAGE FUNCTION
+// 4. GENERATE POSTER IMAGE FUNCTION
 // ============================================================================
+// First inline image of the response as a data URL; safety blocks and text-only answers throw
+const extractImageDataUrl = (response: GenerateContentResponse): string => {
+  // Safety-blocked or empty candidates come back without content
+  const candidate = response.candidates?.[0];
+  const blockReason = response.promptFeedback?.blockReason || candidate?.finishReason;
+  const responseParts = candidate?.content?.parts;
+  if (!responseParts || responseParts.length === 0) {
+      if (blockReason && isSafetyReason(String(blockReason))) {
+          throw new SafetyBlockError(String(blockReason), `Image generation blocked: ${blockReason}`);
+      }
+      throw new NoImageError("No image generated");
+  }
+
+  const imagePart = responseParts.find(p => p.inlineData);
+  if (imagePart && imagePart.inlineData) {
+      return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
+  }
+
+  if (candidate?.finishReason && isSafetyReason(String(candidate.finishReason))) {
+      throw new SafetyBlockError(String(candidate.finishReason), `Image generation blocked: ${candidate.finishReason}`);
+  }
+  throw new NoImageError("No image data found");
+};
+
 export const generatePosterImage = async (
   visualPrompt: string, 
   aspectRatio: AspectRatio, 
   imageSize: ImageSize,
-  referenceImageBase64: string | null
+  references: ReferenceImage[],
+  options: ImageGenerationOptions = {}
 ): Promise<string> => {
   try {
-    const modelId = "gemini-3-pro-image-preview";
+    const modelId = options.model || GEMINI_IMAGE_MODEL;
     const ai = getAiClient();
 
     const parts: any[] = [];
-    let finalPromptText = visualPrompt;
+    let finalPromptText: string;
+
+    const style = options.style || getBuiltInStyle();
+    const layout = options.layout || getLayoutTemplate();
+    const templates = options.templates || getDefaultTemplateSet();
+    const textZoneLabels = [layout.titleZone?.label, layout.subtitleZone?.label].filter(Boolean).join(" and the ");
+
+    // In composite mode the title is overlaid client-side, so the model must leave the text zones empty.
+    // Layouts without text zones are always rendered text-free.
+    const typographyInstruction = options.textRenderMode === "composite" || !hasTextZones(layout) ? [
+      "[TYPOGRAPHY INSTRUCTION: TEXT-FREE RENDER]",
+      "- Do NOT render ANY text, letters, numbers, logos or watermarks anywhere in the image.",
+      "- IGNORE any instruction in the visual description asking to render a title or subtitle.",
+      textZoneLabels && `- Keep the ${textZoneLabels} completely empty (plain background color only).`,
+    ] : [
+      "[TYPOGRAPHY INSTRUCTION]",
+      layout.titleZone && `- Render the TITLE explicitly in the ${layout.titleZone.label} (on the colored background).`,
+      layout.subtitleZone && `- Render the SUBTITLE explicitly in the ${layout.subtitleZone.label} (on the colored background).`,
+      "- FONT: Use a font that matches the language of the text provided in the prompt (e.g. Calligraphy for Chinese, Sans-serif for English).",
+    ];
 
     // Layout Constraint Logic
-    const layoutConstraint = `
-    [LAYOUT RULES: VERTICAL POSTER - MINIATURE WORLD]
-    1. COMPOSITION: Render a "Floating Isometric Island" in the CENTER.
-    2. SCALE DEFINITION: The image involves a **HUGE Environment** and **TINY Characters**.
-       - The character should look like a small Nendoroid or Lego figure standing on a base.
-       - Character Head-to-Body ratio: 1:2 or 1:3 (Cute/Chibi style), but keep the character SMALL relative to the canvas.
-    3. CAMERA: **Isometric High-Angle View (God's Eye View)**. Zoom out significantly to show the entire floating island with plenty of margin around it.
-    4. BACKGROUND: Clean, solid, infinite background. MUST fill 100% of the canvas height/width.
-    5. NEGATIVE SPACE: Ensure the Top 20% and Bottom 20% are empty of 3D objects (for text placement).
-    **CRITICAL**: The background color must be UNIFORM and FULL BLEED across the entire image (top to bottom). Do NOT render white bars or strips at the top/bottom. The text should be placed directly on the main background color.
-    
-    [STYLE MODIFIERS]
-    - **"Tilt-shift photography"** (blur the background slightly, keep center sharp).
-    - **"Claymorphism"** or **"3D Blind Box Toy"** style.
-    - **"Polly Pocket"** or **"Micro-landscape"**.
-    
-    [TYPOGRAPHY INSTRUCTION]
-    - Render the TITLE explicitly in the top negative space (on the colored background). 
-    - Render the SUBTITLE explicitly in the bottom negative space (on the colored background).
-    - FONT: Use a font that matches the language of the text provided in the prompt (e.g. Calligraphy for Chinese, Sans-serif for English).
-    `;
-
-    if (referenceImageBase64) {
-      const matches = referenceImageBase64.match(/^data:(.+);base64,(.+)$/);
-      const mimeType = matches ? matches[1] : "image/jpeg";
-      const data = matches ? matches[2] : referenceImageBase64.split(',')[1];
-
-      parts.push({
-        inlineData: { mimeType, data },
+    const layoutConstraint = interpolate(templates.layoutConstraint.body, {
+      layoutName: layout.name.toUpperCase(),
+      subjectZone: layout.subjectZone.label.toUpperCase(),
+      negativeSpace: textZoneLabels ? `Ensure the ${textZoneLabels} are empty of 3D objects (for text placement).` : "No text zones; keep an even margin around the island.",
+      compositionRules: layout.compositionRules.map(rule => `**CRITICAL**: ${rule}`).join("\n"),
+      styleName: style.name.toUpperCase(),
+      styleModifiers: style.styleModifiers.map(m => `- ${m}`).join("\n"),
+      typography: typographyInstruction.filter(Boolean).join("\n"),
+    });
+
+    if (references.length > 0) {
+      references.forEach(ref => parts.push({ inlineData: toInlineData(ref.dataUrl) }));
+      finalPromptText = interpolate(templates.imageReferenceMode.body, {
+        layoutConstraint,
+        references: describeReferences(references),
+        isolation: hasSubjectReference(references)
+          ? "Extract the subject from the SUBJECT reference(s) only."
+          : "No subject reference: build the subject from the visual description.",
+        subjectZone: layout.subjectZone.label.toUpperCase(),
+        visualPrompt,
       });
-
-      finalPromptText = `
-      ${layoutConstraint}
-
-      [SYSTEM: IMAGE REFERENCE MODE]
-      1. ISOLATION: Extract the subject from the reference image.
-      2. RE-COMPOSITION: Place the subject on a floating isometric base in the CENTER.
-      3. BACKGROUND: Clean, solid, infinite background to support text visibility.
-      
-      [VISUAL DESCRIPTION]
-      ${visualPrompt}
-      `;
     } else {
-      finalPromptText = `
-      ${layoutConstraint}
-      [SYSTEM: GENERATION MODE]
-      Action: Create a self-contained miniature world.
-      [VISUAL DESCRIPTION]
-      ${visualPrompt}
-      `;
+      finalPromptText = interpolate(templates.imageGenerationMode.body, { layoutConstraint, visualPrompt });
     }
 
     parts.push({ text: finalPromptText });
 
-    let response;
-    let attempts = 0;
-    while (attempts < 3) {
-        try {
-            response = await ai.models.generateContent({
-              model: modelId,
-              contents: { parts },
-              config: {
-                imageConfig: { aspectRatio, imageSize }
-              },
-            });
-            break;
-        } catch (error: any) {
-            console.warn(`Image Gen Attempt ${attempts + 1} failed:`, error);
-            attempts++;
-            if (attempts >= 3) throw error;
-            await new Promise(r => setTimeout(r, 2000 * attempts));
-        }
-    }
-    
-    if (!response || !response.candidates || !response.candidates[0].content.parts) {
-        throw new Error("No image generated");
-    }
-
-    const imagePart = response.candidates[0].content.parts.find(p => p.inlineData);
-    if (imagePart && imagePart.inlineData) {
-        return `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`;
-    }
+    const response = await generateWithRetry(ai, {
+      model: modelId,
+      contents: { parts },
+      config: {
+        imageConfig: { aspectRatio, imageSize }
+      },
+    }, "Image Gen", 2000, options.signal);
 
-    throw new Error("No image data found");
+    return extractImageDataUrl(response);
 
   } catch (error) {
     console.error("Image Generation Error:", error);
-    throw error;
+    throw toGenerationError(error, "image");
+  }
+};
+
+// ============================================================================
+// 5. REFINE POSTER IMAGE FUNCTION
+// Image-to-image: the current poster goes back in with a short edit instruction
+// ============================================================================
+export const refinePosterImage = async (
+  imageBase64: string,
+  instruction: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize,
+  options: ImageGenerationOptions = {}
+): Promise<string> => {
+  try {
+    const ai = getAiClient();
+    const style = options.style || getBuiltInStyle();
+    const layout = options.layout || getLayoutTemplate();
+
+    const textRule = options.textRenderMode === "composite" || !hasTextZones(layout)
+      ? "- The image is TEXT-FREE: do NOT add any text, letters, logos or watermarks."
+      : "- Keep the existing title and subtitle text exactly as spelled and placed, unless the edit is about the text.";
+
+    const refinePrompt = `
+    [SYSTEM: IMAGE REFINEMENT MODE]
+    The attached image is the current poster. Apply ONLY the edit below and return the complete edited poster.
+    - Keep the composition, camera angle, ${layout.name} layout, ${style.name} art style, color palette and every detail the edit does not mention.
+    - Keep the background uniform and full bleed.
+    ${textRule}
+
+    [EDIT INSTRUCTION]
+    ${instruction}
+    `;
+
+    const response = await generateWithRetry(ai, {
+      model: options.model || GEMINI_IMAGE_MODEL,
+      contents: { parts: [{ inlineData: toInlineData(imageBase64) }, { text: refinePrompt }] },
+      config: {
+        imageConfig: { aspectRatio, imageSize }
+      },
+    }, "Image Refine", 2000, options.signal);
+
+    return extractImageDataUrl(response);
+
+  } catch (error) {
+    console.error("Image Refinement Error:", error);
+    throw toGenerationError(error, "image");
   }
-};
\ No newline at end of file
+};
+
+// ============================================================================
+// 6. INPAINT POSTER IMAGE FUNCTION
+// Gemini has no mask parameter, so the mask goes in as a second image
+// ============================================================================
+export const inpaintPosterImage = async (
+  imageBase64: string,
+  maskBase64: string,
+  instruction: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize,
+  options: ImageGenerationOptions = {}
+): Promise<string> => {
+  try {
+    const ai = getAiClient();
+    const style = options.style || getBuiltInStyle();
+    const layout = options.layout || getLayoutTemplate();
+
+    const textRule = options.textRenderMode === "composite" || !hasTextZones(layout)
+      ? "- Do NOT add any text, letters, logos or watermarks."
+      : "- If the region contains title or subtitle text, render it cleanly and spelled exactly as the edit asks (or as it already reads).";
+
+    const inpaintPrompt = `
+    [SYSTEM: MASKED EDIT MODE]
+    Image 1 is the current poster. Image 2 is a mask of the same framing: WHITE marks the region to change, BLACK must stay as it is.
+    - Change ONLY the white region according to the edit below.
+    - Match the lighting, perspective, scale and ${style.name} art style of the surroundings so the edit blends seamlessly.
+    - Return the complete poster with the same framing; do NOT move, crop or rescale the composition.
+    ${textRule}
+
+    [EDIT INSTRUCTION]
+    ${instruction}
+    `;
+
+    const response = await generateWithRetry(ai, {
+      model: options.model || GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [
+          { inlineData: toInlineData(imageBase64) },
+          { inlineData: toInlineData(maskBase64) },
+          { text: inpaintPrompt },
+        ],
+      },
+      config: {
+        imageConfig: { aspectRatio, imageSize }
+      },
+    }, "Image Inpaint", 2000, options.signal);
+
+    return extractImageDataUrl(response);
+
+  } catch (error) {
+    console.error("Image Inpainting Error:", error);
+    throw toGenerationError(error, "image");
+  }
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: "gemini",
+  label: "Gemini",
+  models: { text: GEMINI_TEXT_MODEL, image: GEMINI_IMAGE_MODEL, intent: GEMINI_INTENT_MODEL },
+  classifyIntent,
+  engineerPrompt,
+  generatePosterImage,
+  refinePosterImage,
+  inpaintPosterImage,
+};
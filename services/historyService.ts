@@ -0,0 +1,26 @@
+import { HistoryEntry } from "../types";
+import { STORES, putRecord, getAllRecords, deleteRecord, clearStore, createId } from "./storage";
+
+// ============================================================================
+// GENERATION HISTORY
+// Every successful run is persisted so earlier posters survive a new Generate.
+// ============================================================================
+export const saveHistoryEntry = async (
+  entry: Omit<HistoryEntry, "id">
+): Promise<HistoryEntry> => {
+  const record: HistoryEntry = { ...entry, id: createId() };
+  await putRecord(STORES.history, record);
+  return record;
+};
+
+// Newest first
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await getAllRecords<HistoryEntry>(STORES.history);
+  return entries.sort((a, b) => b.completedAt - a.completedAt);
+};
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> =>
+  deleteRecord(STORES.history, id);
+
+export const clearHistory = (): Promise<undefined> =>
+  clearStore(STORES.history);
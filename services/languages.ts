@@ -0,0 +1,25 @@
+// ============================================================================
+// OUTPUT LANGUAGES
+// Languages the poster text can be forced into. `name` is how the prompts
+// refer to the language; `label` is shown in the UI in the language itself.
+// ============================================================================
+export interface OutputLanguage {
+  code: string;
+  label: string;
+  name: string;
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { code: "en", label: "English", name: "English" },
+  { code: "zh-CN", label: "简体中文", name: "Simplified Chinese" },
+  { code: "zh-TW", label: "繁體中文", name: "Traditional Chinese" },
+  { code: "ja", label: "日本語", name: "Japanese" },
+  { code: "ko", label: "한국어", name: "Korean" },
+  { code: "es", label: "Español", name: "Spanish" },
+  { code: "fr", label: "Français", name: "French" },
+  { code: "de", label: "Deutsch", name: "German" },
+];
+
+// Unknown codes are passed through, so the model still gets a usable hint
+export const getLanguageName = (code: string): string =>
+  OUTPUT_LANGUAGES.find(l => l.code === code)?.name || code;
@@ -0,0 +1,89 @@
+import { AspectRatio, LayoutTemplate, LayoutTemplateId } from "../types";
+
+// ============================================================================
+// LAYOUT TEMPLATES
+// Text zones and composition rules per layout. Zone labels are quoted verbatim
+// by both prompt builders; zone rectangles position client-side typography.
+// ============================================================================
+export const DEFAULT_LAYOUT_ID: LayoutTemplateId = "vertical-poster";
+
+const FULL_BLEED_RULE =
+  "The background color must be UNIFORM and FULL BLEED across the entire image. Do NOT render white bars or strips; text sits directly on the main background color.";
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: "vertical-poster",
+    name: "Vertical Poster",
+    description: "Title above, subtitle below the diorama.",
+    titleZone: { x: 0, y: 0, width: 1, height: 0.25, label: "top 25%" },
+    subjectZone: { x: 0, y: 0.25, width: 1, height: 0.5, label: "middle 50% (centered)" },
+    subtitleZone: { x: 0, y: 0.75, width: 1, height: 0.25, label: "bottom 25%" },
+    compositionRules: [FULL_BLEED_RULE],
+  },
+  {
+    id: "landscape-banner",
+    name: "Landscape Banner",
+    description: "Diorama on the left, text column on the right.",
+    subjectZone: { x: 0, y: 0, width: 0.6, height: 1, label: "left 60% (vertically centered)" },
+    titleZone: { x: 0.6, y: 0.2, width: 0.4, height: 0.35, label: "right 40%, upper half" },
+    subtitleZone: { x: 0.6, y: 0.55, width: 0.4, height: 0.25, label: "right 40%, lower half" },
+    compositionRules: [
+      "The island sits on the left; the right-hand column is open background reserved for text.",
+      FULL_BLEED_RULE,
+    ],
+  },
+  {
+    id: "square-card",
+    name: "Square Card",
+    description: "Compact title strip, large centered diorama.",
+    titleZone: { x: 0, y: 0, width: 1, height: 0.2, label: "top 20%" },
+    subjectZone: { x: 0, y: 0.2, width: 1, height: 0.65, label: "middle 65% (centered)" },
+    subtitleZone: { x: 0, y: 0.85, width: 1, height: 0.15, label: "bottom 15%" },
+    compositionRules: [
+      "Symmetric, centered composition suited to a square social card.",
+      FULL_BLEED_RULE,
+    ],
+  },
+  {
+    id: "art-print",
+    name: "Art Print (No Text)",
+    description: "The diorama alone, no lettering.",
+    subjectZone: { x: 0.1, y: 0.1, width: 0.8, height: 0.8, label: "center, with a generous even margin" },
+    titleZone: null,
+    subtitleZone: null,
+    compositionRules: [
+      "Gallery art print: NO title, subtitle, lettering or captions anywhere in the image.",
+      FULL_BLEED_RULE,
+    ],
+  },
+  {
+    id: "postcard",
+    name: "Postcard",
+    description: "Scene on top, caption strip along the bottom.",
+    subjectZone: { x: 0, y: 0, width: 1, height: 0.8, label: "top 80% (centered)" },
+    titleZone: { x: 0.04, y: 0.8, width: 0.56, height: 0.2, label: "bottom 20% caption strip, left side" },
+    subtitleZone: { x: 0.6, y: 0.8, width: 0.36, height: 0.2, label: "bottom 20% caption strip, right side" },
+    compositionRules: [
+      "A solid caption strip in a slightly darker shade of the background color spans the bottom 20%, like a vintage postcard.",
+      "Above the strip the background is uniform and full bleed.",
+    ],
+  },
+];
+
+// Best-fitting layout per canvas shape; the user can still pick another
+const SUGGESTED_LAYOUTS: Record<AspectRatio, LayoutTemplateId> = {
+  "9:16": "vertical-poster",
+  "3:4": "vertical-poster",
+  "1:1": "square-card",
+  "4:3": "postcard",
+  "16:9": "landscape-banner",
+};
+
+export const getLayoutTemplate = (id: LayoutTemplateId = DEFAULT_LAYOUT_ID): LayoutTemplate =>
+  LAYOUT_TEMPLATES.find(t => t.id === id) || LAYOUT_TEMPLATES[0];
+
+export const suggestLayoutId = (aspectRatio: AspectRatio): LayoutTemplateId =>
+  SUGGESTED_LAYOUTS[aspectRatio] || DEFAULT_LAYOUT_ID;
+
+export const hasTextZones = (layout: LayoutTemplate): boolean =>
+  !!(layout.titleZone || layout.subtitleZone);
@@ -0,0 +1,72 @@
+import { Schema, Type } from "@google/genai";
+import { IntentClassification, LiveDataCategory, SearchMode } from "../types";
+import { PromptSchemaError } from "./promptSchema";
+
+// ============================================================================
+// LIVE-DATA INTENT
+// A small classification call decides whether the user is asking about
+// current data. It runs before prompt engineering; a detected intent turns on
+// Google Search grounding unless the user forced search on or off.
+// ============================================================================
+
+export const LIVE_DATA_CATEGORIES: Record<LiveDataCategory, string> = {
+  weather: "Weather",
+  finance: "Finance",
+  sports: "Sports",
+  news: "News",
+  none: "None",
+};
+
+export const NO_INTENT: IntentClassification = { category: "none", entities: [] };
+
+export const INTENT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    category: {
+      type: Type.STRING,
+      enum: Object.keys(LIVE_DATA_CATEGORIES),
+      description: "Kind of live data the request needs, or none",
+    },
+    entities: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Places, tickers, teams or topics the data is about, as written by the user",
+    },
+  },
+  required: ["category", "entities"],
+  propertyOrdering: ["category", "entities"],
+};
+
+export const INTENT_SYSTEM_INSTRUCTION = `
+You classify requests for a poster generator. Decide whether the request needs CURRENT, real-world data that changes over time.
+The request may be in any language (e.g. "今天上海天气", "東京の天気", "AAPL stock", "Lakers score last night").
+
+Categories:
+- weather: current or forecast weather / temperature / air quality of a place.
+- finance: current prices or rates of stocks, crypto, currencies, commodities.
+- sports: live or recent scores, standings, match results.
+- news: recent events or headlines ("latest", "today", "this week").
+- none: everything else, including timeless subjects that merely mention these words (e.g. "the price of art", "a stormy night", "a soccer ball").
+
+Return JSON: {"category": "...", "entities": ["..."]}. Entities are the places, tickers, teams or topics, kept in the user's language. Use an empty list for "none".
+`;
+
+// Parses the classifier's JSON; anything off-schema is a PARSE error
+export const parseIntentClassification = (text: string): IntentClassification => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new PromptSchemaError([{ field: "(root)", message: "is not valid JSON" }], text);
+  }
+  if (!parsed || !Object.hasOwn(LIVE_DATA_CATEGORIES, parsed.category)) {
+    throw new PromptSchemaError([{ field: "category", message: "is not a known category" }], text);
+  }
+  const entities = Array.isArray(parsed.entities)
+    ? parsed.entities.filter((e: unknown): e is string => typeof e === "string" && e.trim().length > 0).map((e: string) => e.trim())
+    : [];
+  return { category: parsed.category, entities: parsed.category === "none" ? [] : entities };
+};
+
+export const shouldGroundWithSearch = (intent: IntentClassification, mode: SearchMode = "auto"): boolean =>
+  mode === "auto" ? intent.category !== "none" : mode === "on";
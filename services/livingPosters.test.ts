@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from "vitest";
+import { checkLivingPoster, diffDataValues, extractDataValues, haveDataValuesChanged, isLivingPosterDue } from "./livingPosters";
+import { EngineeredPrompt, GenerationProvider, LivingPoster } from "../types";
+
+const prompt = (posterTitle: string, posterSubtitle = ""): EngineeredPrompt =>
+  ({ posterTitle, posterSubtitle, visualPrompt: "A tiny city on a floating island" });
+
+const POSTER: LivingPoster = {
+  id: "p1",
+  name: "Shanghai weather",
+  createdAt: 0,
+  input: { text: "今天上海天气", references: [], aspectRatio: "9:16", imageSize: "1K", searchMode: "on" },
+  intervalMinutes: 60,
+  enabled: true,
+  lastCheckedAt: null,
+  renders: [],
+};
+
+const fakeProvider = (engineered: EngineeredPrompt): GenerationProvider => ({
+  id: "mock",
+  label: "Fake",
+  models: { text: "fake-text", image: "fake-image" },
+  classifyIntent: vi.fn(async () => ({ category: "weather" as const, entities: ["上海"] })),
+  engineerPrompt: vi.fn(async () => engineered),
+  generatePosterImage: vi.fn(async () => "data:image/png;base64,TkVX"),
+  refinePosterImage: vi.fn(),
+  inpaintPosterImage: vi.fn(),
+});
+
+describe("extractDataValues", () => {
+  it("reads figures with their units from every text line", () => {
+    expect(extractDataValues({ ...prompt("上海 25°C", "AAPL $182.31 −1.2%"), secondaryTitle: "Shanghai 25 °C" }))
+      .toEqual(["25°c", "$182.31", "-1.2%", "25°c"]);
+  });
+
+  it("falls back to the text lines when there are no figures", () => {
+    expect(extractDataValues(prompt("Election  Called", "Results are in"))).toEqual(["election called", "results are in"]);
+  });
+});
+
+describe("diffDataValues", () => {
+  it("lists new values, counting repeats", () => {
+    expect(diffDataValues(["25°c", "25°c"], ["25°c", "27°c", "25°c", "25°c"])).toEqual(["27°c", "25°c"]);
+    expect(haveDataValuesChanged(["1", "2"], ["2", "1"])).toBe(false);
+    expect(haveDataValuesChanged(["1", "2"], ["1"])).toBe(true);
+  });
+});
+
+describe("isLivingPosterDue", () => {
+  it("is due when never checked or once the interval has passed", () => {
+    expect(isLivingPosterDue(POSTER, 0)).toBe(true);
+    expect(isLivingPosterDue({ ...POSTER, lastCheckedAt: 0 }, 59 * 60_000)).toBe(false);
+    expect(isLivingPosterDue({ ...POSTER, lastCheckedAt: 0 }, 60 * 60_000)).toBe(true);
+    expect(isLivingPosterDue({ ...POSTER, enabled: false }, 0)).toBe(false);
+  });
+});
+
+describe("checkLivingPoster", () => {
+  const previousRender = {
+    id: "r1",
+    createdAt: 0,
+    promptData: prompt("上海 25°C"),
+    imageBase64: "data:image/png;base64,T0xE",
+    dataValues: ["25°c"],
+    changedValues: [],
+  };
+
+  it("only records the check when the figures are unchanged", async () => {
+    const provider = fakeProvider(prompt("晴朗上海 25°C"));
+
+    const result = await checkLivingPoster(provider, { ...POSTER, renders: [previousRender] }, "zh-CN");
+
+    expect(provider.engineerPrompt).toHaveBeenCalledWith("今天上海天气", [], "zh-CN", expect.objectContaining({
+      liveData: { intent: { category: "weather", entities: ["上海"] }, search: true },
+    }));
+    expect(provider.generatePosterImage).not.toHaveBeenCalled();
+    expect(result.renders).toEqual([previousRender]);
+    expect(result.lastCheckedAt).not.toBeNull();
+  });
+
+  it("renders a new image when the figures change", async () => {
+    const provider = fakeProvider(prompt("上海 27°C"));
+
+    const result = await checkLivingPoster(provider, { ...POSTER, renders: [previousRender] }, "zh-CN");
+
+    expect(provider.generatePosterImage).toHaveBeenCalledTimes(1);
+    expect(result.renders).toHaveLength(2);
+    expect(result.renders[1]).toMatchObject({ imageBase64: "data:image/png;base64,TkVX", dataValues: ["27°c"], changedValues: ["27°c"] });
+  });
+});
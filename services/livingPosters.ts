@@ -0,0 +1,156 @@
+import { EngineeredPrompt, GenerationProvider, LivingPoster, LivingPosterInput, LivingPosterRender, PromptTemplateSet } from "../types";
+import { STORES, putRecord, getAllRecords, deleteRecord, createId } from "./storage";
+import { getLayoutTemplate } from "./layoutTemplates";
+import { NO_INTENT } from "./liveDataIntent";
+import { getDefaultTemplateSet, getTemplateVersions } from "./promptTemplates";
+import { isAbortError } from "../utils/abort";
+
+// ============================================================================
+// LIVING POSTERS
+// A pinned data-driven query is re-engineered with search grounding on an
+// interval while the app is open. A new image is only generated when the
+// figures on the poster change, so a quiet day costs one text call per check.
+// ============================================================================
+
+export const LIVING_POSTER_INTERVALS: { minutes: number; label: string }[] = [
+  { minutes: 15, label: "Every 15 min" },
+  { minutes: 30, label: "Every 30 min" },
+  { minutes: 60, label: "Hourly" },
+  { minutes: 180, label: "Every 3 hours" },
+  { minutes: 720, label: "Twice a day" },
+  { minutes: 1440, label: "Daily" },
+];
+
+export const DEFAULT_LIVING_INTERVAL = 60;
+
+// Each render keeps a full image, so the timeline is bounded
+export const MAX_LIVING_RENDERS = 12;
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export const createLivingPoster = async (
+  input: LivingPosterInput,
+  firstRender?: Omit<LivingPosterRender, "id" | "dataValues" | "changedValues">
+): Promise<LivingPoster> => {
+  const now = Date.now();
+  const poster: LivingPoster = {
+    id: createId(),
+    name: input.text.trim().slice(0, 60) || "Living poster",
+    createdAt: now,
+    input,
+    intervalMinutes: DEFAULT_LIVING_INTERVAL,
+    enabled: true,
+    lastCheckedAt: firstRender ? now : null,
+    renders: firstRender
+      ? [{ ...firstRender, id: createId(), dataValues: extractDataValues(firstRender.promptData), changedValues: [] }]
+      : [],
+  };
+  await putRecord(STORES.livingPosters, poster);
+  return poster;
+};
+
+export const saveLivingPoster = async (poster: LivingPoster): Promise<LivingPoster> => {
+  await putRecord(STORES.livingPosters, poster);
+  return poster;
+};
+
+// Newest first
+export const listLivingPosters = async (): Promise<LivingPoster[]> => {
+  const posters = await getAllRecords<LivingPoster>(STORES.livingPosters);
+  return posters.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteLivingPoster = (id: string): Promise<undefined> =>
+  deleteRecord(STORES.livingPosters, id);
+
+// ============================================================================
+// DATA DIFFING
+// ============================================================================
+
+// Numbers with their sign, currency and unit: "$182.31", "-1.2%", "25°C", "3:1"
+const DATA_VALUE_PATTERN = /[$€£¥]?[+\-−]?\d+(?:[.,:]\d+)*(?:\s?(?:%|°[CF]?|℃|℉|[kKmMbB]\b))?/g;
+
+const normalize = (value: string) => value.replace(/−/g, "-").replace(/\s+/g, "").toLowerCase();
+
+// Figures shown on the poster. Posters without figures (e.g. a headline) fall
+// back to their text lines, so a changed headline still counts as new data.
+export const extractDataValues = (prompt: EngineeredPrompt): string[] => {
+  const lines = [prompt.posterTitle, prompt.posterSubtitle, prompt.secondaryTitle, prompt.secondarySubtitle]
+    .filter((line): line is string => !!line && line.trim().length > 0);
+  const values = lines.flatMap(line => line.match(DATA_VALUE_PATTERN) ?? []).map(normalize);
+  return values.length > 0 ? values : lines.map(line => line.trim().replace(/\s+/g, " ").toLowerCase());
+};
+
+// Values of `next` that `previous` did not have (counting repeats)
+export const diffDataValues = (previous: string[], next: string[]): string[] => {
+  const remaining = [...previous];
+  return next.filter(value => {
+    const index = remaining.indexOf(value);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+};
+
+export const haveDataValuesChanged = (previous: string[], next: string[]): boolean =>
+  previous.length !== next.length || diffDataValues(previous, next).length > 0;
+
+export const isLivingPosterDue = (poster: LivingPoster, now: number): boolean =>
+  poster.enabled && (poster.lastCheckedAt === null || now - poster.lastCheckedAt >= poster.intervalMinutes * 60_000);
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+// Re-runs the pinned query with search forced on and renders a new image only
+// when its figures differ from the latest render. Returns the updated poster;
+// the caller persists it.
+export const checkLivingPoster = async (
+  provider: GenerationProvider,
+  poster: LivingPoster,
+  userLocale: string,
+  options: { templates?: PromptTemplateSet; signal?: AbortSignal } = {}
+): Promise<LivingPoster> => {
+  const { templates, signal } = options;
+  const { input } = poster;
+  const layout = getLayoutTemplate(input.layoutId);
+
+  // As in the main pipeline, a failed classification only loses the intent labels
+  const intent = await provider.classifyIntent(input.text, { signal }).catch(err => {
+    if (isAbortError(err)) throw err;
+    return NO_INTENT;
+  });
+  const promptData = await provider.engineerPrompt(input.text, input.references, userLocale, {
+    style: input.stylePreset,
+    layout,
+    language: input.language,
+    liveData: { intent, search: true },
+    templates,
+    signal,
+  });
+
+  const dataValues = extractDataValues(promptData);
+  const previous = poster.renders[poster.renders.length - 1];
+  const checked: LivingPoster = { ...poster, lastCheckedAt: Date.now(), lastError: undefined };
+  if (previous && !haveDataValuesChanged(previous.dataValues, dataValues)) return checked;
+
+  const imageBase64 = await provider.generatePosterImage(
+    promptData.visualPrompt,
+    input.aspectRatio,
+    input.imageSize,
+    input.references,
+    { textRenderMode: input.textRenderMode, style: input.stylePreset, layout, templates, signal }
+  );
+  const render: LivingPosterRender = {
+    id: createId(),
+    createdAt: Date.now(),
+    promptData,
+    imageBase64,
+    dataValues,
+    changedValues: previous ? diffDataValues(previous.dataValues, dataValues) : [],
+    templateVersions: getTemplateVersions(templates || getDefaultTemplateSet()),
+  };
+  return { ...checked, renders: [...poster.renders, render].slice(-MAX_LIVING_RENDERS) };
+};
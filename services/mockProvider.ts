@@ -0,0 +1,291 @@
+import { EngineeredPrompt, AspectRatio, ImageSize, GenerationProvider, ImageGenerationOptions, EngineerPromptOptions, LayoutTemplate, ReferenceImage, IntentClassification } from "../types";
+import { sleep } from "../utils/abort";
+import { getLayoutTemplate, hasTextZones } from "./layoutTemplates";
+import { loadImage } from "../utils/typography";
+
+// ============================================================================
+// MOCK PROVIDER
+// Deterministic, offline stand-in for Gemini. The same input always yields the
+// same prompt and the same placeholder poster, so UI flows can be developed
+// and demoed without network access or an API key.
+// ============================================================================
+const SIMULATED_LATENCY_MS = 600;
+
+const CANNED_PROMPTS: Omit<EngineeredPrompt, "groundingSources">[] = [
+  {
+    posterTitle: "Tiny Harbor",
+    posterSubtitle: "A pocket-sized fishing village at dawn",
+    visualPrompt: "A floating isometric island holding a miniature fishing harbor, tiny clay boats, stacked crates and a red lighthouse, soft morning light, tilt-shift photography, cute 3D clay render. Render the text [Tiny Harbor] in the top space and [A pocket-sized fishing village at dawn] in the bottom space.",
+  },
+  {
+    posterTitle: "Ramen Radio",
+    posterSubtitle: "Late-night noodles inside an old transistor",
+    visualPrompt: "A cyberpunk ramen shop built inside a vintage radio on a floating isometric base, neon signs, tiny figurines slurping noodles, blind box toy style, tilt-shift. Render the text [Ramen Radio] in the top space and [Late-night noodles inside an old transistor] in the bottom space.",
+  },
+  {
+    posterTitle: "Cloud Library",
+    posterSubtitle: "Where forgotten books drift",
+    visualPrompt: "A miniature library on a floating island among clouds, spiral bookshelves, tiny reader figurines, warm lamps, claymorphism, high-angle isometric view. Render the text [Cloud Library] in the top space and [Where forgotten books drift] in the bottom space.",
+  },
+];
+
+const PALETTES = [
+  { bg: ["#f6d7b0", "#f2b880"], island: "#7bb661", side: "#8a5a3b", accent: "#e4572e" },
+  { bg: ["#1f2a44", "#3b2f63"], island: "#4fb3bf", side: "#2b3a55", accent: "#ff5c8a" },
+  { bg: ["#dff3ff", "#b8e1ff"], island: "#f4f1de", side: "#a3a380", accent: "#3d5a80" },
+  { bg: ["#fde2e4", "#fad2e1"], island: "#b8e0d2", side: "#809bce", accent: "#f28482" },
+];
+
+const LONG_EDGE: Record<ImageSize, number> = { "1K": 1024, "2K": 2048, "4K": 4096 };
+
+// FNV-1a; stable across sessions so output is reproducible
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const getCanvasDimensions = (aspectRatio: AspectRatio, imageSize: ImageSize) => {
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const longEdge = LONG_EDGE[imageSize];
+  return w >= h
+    ? { width: longEdge, height: Math.round((longEdge * h) / w) }
+    : { width: Math.round((longEdge * w) / h), height: longEdge };
+};
+
+// Offline stand-in for the classifier: a few keywords per category, in several languages
+const MOCK_INTENT_PATTERNS: [IntentClassification["category"], RegExp][] = [
+  ["weather", /weather|forecast|temperature|天气|天氣|天気|気温|날씨/i],
+  ["finance", /\bstocks?\b|\bshares?\b|crypto|bitcoin|exchange rate|股价|股價|株価|주가/i],
+  ["sports", /\bscores?\b|standings|比分|スコア|경기 결과/i],
+  ["news", /\bnews\b|headlines|新闻|新聞|ニュース|뉴스/i],
+];
+
+export const mockClassifyIntent = async (
+  inputText: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<IntentClassification> => {
+  await sleep(SIMULATED_LATENCY_MS / 3, options.signal);
+  const match = MOCK_INTENT_PATTERNS.find(([, pattern]) => pattern.test(inputText));
+  return match ? { category: match[0], entities: [inputText.trim().slice(0, 40)] } : { category: "none", entities: [] };
+};
+
+export const mockEngineerPrompt = async (
+  inputText: string,
+  references: ReferenceImage[],
+  userLocale: string = "en-US",
+  options: EngineerPromptOptions = {}
+): Promise<EngineeredPrompt> => {
+  await sleep(SIMULATED_LATENCY_MS, options.signal);
+  const seed = hashString(`${inputText}|${references.map(r => `${r.role}:${r.dataUrl.length}`).join(",")}|${userLocale}`);
+  const base = CANNED_PROMPTS[seed % CANNED_PROMPTS.length];
+  const canned = options.style
+    ? { ...base, visualPrompt: `${base.visualPrompt} Style: ${options.style.engineeringVisuals}.` }
+    : base;
+
+  // Echo the user's idea so edits and history are easy to tell apart while testing
+  const prompt: EngineeredPrompt = inputText.trim()
+    ? {
+        ...canned,
+        posterTitle: inputText.trim().slice(0, 40),
+        visualPrompt: `${canned.visualPrompt} Subject inspired by: "${inputText.trim()}".`,
+      }
+    : { ...canned };
+
+  const liveData = options.liveData;
+  if (liveData && (liveData.search || liveData.intent.category !== "none")) {
+    prompt.liveData = { ...liveData.intent, grounded: liveData.search, retrievedAt: Date.now() };
+  }
+
+  // No translation offline: the second-language lines are tagged copies
+  const secondary = options.language?.secondary;
+  return secondary
+    ? { ...prompt, secondaryTitle: `${prompt.posterTitle} [${secondary}]`, secondarySubtitle: `${prompt.posterSubtitle} [${secondary}]` }
+    : prompt;
+};
+
+const drawPlaceholderPoster = (
+  visualPrompt: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize,
+  hasReference: boolean,
+  textFree: boolean,
+  layout: LayoutTemplate
+): string => {
+  const { width, height } = getCanvasDimensions(aspectRatio, imageSize);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  const random = createRandom(hashString(`${visualPrompt}|${aspectRatio}|${imageSize}`));
+  const palette = PALETTES[Math.floor(random() * PALETTES.length)];
+
+  // Full-bleed background
+  const gradient = ctx.createLinearGradient(0, 0, 0, height);
+  gradient.addColorStop(0, palette.bg[0]);
+  gradient.addColorStop(1, palette.bg[1]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Isometric island centred in the layout's subject zone
+  const { subjectZone } = layout;
+  const unit = Math.min(subjectZone.width * width, subjectZone.height * height * 2);
+  const cx = (subjectZone.x + subjectZone.width / 2) * width;
+  const cy = (subjectZone.y + subjectZone.height / 2) * height;
+  const rx = unit * 0.4;
+  const ry = rx / 2;
+  const depth = unit * 0.08;
+
+  ctx.fillStyle = palette.side;
+  ctx.beginPath();
+  ctx.moveTo(cx - rx, cy);
+  ctx.lineTo(cx, cy + ry);
+  ctx.lineTo(cx + rx, cy);
+  ctx.lineTo(cx + rx, cy + depth);
+  ctx.lineTo(cx, cy + ry + depth);
+  ctx.lineTo(cx - rx, cy + depth);
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.fillStyle = palette.island;
+  ctx.beginPath();
+  ctx.moveTo(cx, cy - ry);
+  ctx.lineTo(cx + rx, cy);
+  ctx.lineTo(cx, cy + ry);
+  ctx.lineTo(cx - rx, cy);
+  ctx.closePath();
+  ctx.fill();
+
+  // Scattered "buildings" as small isometric blocks
+  const blockCount = 4 + Math.floor(random() * 5);
+  for (let i = 0; i < blockCount; i++) {
+    const u = random() - 0.5;
+    const v = random() - 0.5;
+    const bx = cx + (u - v) * rx * 0.9;
+    const by = cy + (u + v) * ry * 0.9;
+    const size = unit * (0.025 + random() * 0.035);
+    const tall = size * (1 + random() * 2.5);
+
+    ctx.fillStyle = i % 3 === 0 ? palette.accent : "#ffffff";
+    ctx.globalAlpha = 0.9;
+    ctx.fillRect(bx - size / 2, by - tall, size, tall);
+    ctx.globalAlpha = 0.25;
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(bx, by - tall, size / 2, tall);
+    ctx.globalAlpha = 1;
+  }
+
+  // Label so nobody mistakes a placeholder for a real render.
+  // Text-free renders keep the text zones clear for client-side typography.
+  if (textFree || !hasTextZones(layout)) return canvas.toDataURL("image/png");
+  const textUnit = Math.min(width, height);
+  ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+  ctx.textAlign = "center";
+  if (layout.titleZone) {
+    const zone = layout.titleZone;
+    ctx.font = `600 ${Math.round(textUnit * 0.035)}px Inter, sans-serif`;
+    ctx.fillText(hasReference ? "MOCK RENDER · REFERENCE MODE" : "MOCK RENDER", (zone.x + zone.width / 2) * width, (zone.y + zone.height / 2) * height);
+  }
+  if (layout.subtitleZone) {
+    const zone = layout.subtitleZone;
+    ctx.font = `400 ${Math.round(textUnit * 0.022)}px Inter, sans-serif`;
+    ctx.fillText(`${aspectRatio} · ${imageSize} · ${layout.name}`, (zone.x + zone.width / 2) * width, (zone.y + zone.height / 2) * height);
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
+export const mockGeneratePosterImage = async (
+  visualPrompt: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize,
+  references: ReferenceImage[],
+  options: ImageGenerationOptions = {}
+): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS * 2, options.signal);
+  return drawPlaceholderPoster(visualPrompt, aspectRatio, imageSize, references.length > 0, options.textRenderMode === "composite", options.layout || getLayoutTemplate());
+};
+
+// Tints the source image with a colour picked from the instruction, so each
+// revision is visibly different but still recognisably derived from its parent
+export const mockRefinePosterImage = async (
+  imageBase64: string,
+  instruction: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize,
+  options: ImageGenerationOptions = {}
+): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS * 2, options.signal);
+  const img = await loadImage(imageBase64);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  ctx.drawImage(img, 0, 0);
+  const palette = PALETTES[hashString(instruction) % PALETTES.length];
+  ctx.globalAlpha = 0.18;
+  ctx.fillStyle = palette.accent;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalAlpha = 1;
+
+  const layout = options.layout || getLayoutTemplate();
+  if (options.textRenderMode !== "composite" && hasTextZones(layout)) {
+    const unit = Math.min(canvas.width, canvas.height);
+    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.font = `400 ${Math.round(unit * 0.02)}px Inter, sans-serif`;
+    ctx.textAlign = "left";
+    ctx.fillText(`EDIT: ${instruction}`.slice(0, 60), unit * 0.03, canvas.height - unit * 0.03);
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
+// Returns a strongly tinted copy; the caller's mask blend keeps only the painted region
+export const mockInpaintPosterImage = async (
+  imageBase64: string,
+  maskBase64: string,
+  instruction: string,
+  aspectRatio: AspectRatio,
+  imageSize: ImageSize,
+  options: ImageGenerationOptions = {}
+): Promise<string> => {
+  await sleep(SIMULATED_LATENCY_MS * 2, options.signal);
+  const img = await loadImage(imageBase64);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  ctx.drawImage(img, 0, 0);
+  ctx.globalAlpha = 0.5;
+  ctx.fillStyle = PALETTES[hashString(instruction) % PALETTES.length].accent;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png");
+};
+
+export const mockProvider: GenerationProvider = {
+  id: "mock",
+  label: "Local Mock",
+  models: { text: "mock-engineer", image: "mock-canvas" },
+  classifyIntent: mockClassifyIntent,
+  engineerPrompt: mockEngineerPrompt,
+  generatePosterImage: mockGeneratePosterImage,
+  refinePosterImage: mockRefinePosterImage,
+  inpaintPosterImage: mockInpaintPosterImage,
+};
@@ -0,0 +1,68 @@
+import { EngineeredPrompt, GenerationProvider, IntentClassification, PromptTemplateSet, SearchMode, UserInput } from "../types";
+import { getLayoutTemplate } from "./layoutTemplates";
+import { NO_INTENT, shouldGroundWithSearch } from "./liveDataIntent";
+import { isAbortError } from "../utils/abort";
+
+// ============================================================================
+// HEADLESS PIPELINE
+// The two stages of a run without UI state, caching or history. Shared by the
+// app, the batch CLI and the API server.
+// ============================================================================
+
+export type PipelineInput = Pick<UserInput,
+  "text" | "references" | "aspectRatio" | "imageSize" | "textRenderMode" | "stylePreset" | "layoutId" | "language" | "searchMode">;
+
+interface PipelineOptions {
+  templates?: PromptTemplateSet;
+  signal?: AbortSignal;
+}
+
+// Intent classification only steers search grounding, so a failed call degrades to "no intent"
+export const classifyForSearch = async (
+  provider: GenerationProvider,
+  text: string,
+  searchMode: SearchMode | undefined,
+  signal?: AbortSignal
+): Promise<IntentClassification> => {
+  if (searchMode === "off") return NO_INTENT;
+  try {
+    return await provider.classifyIntent(text, { signal });
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.warn("Intent classification failed; continuing without live data", err);
+    return NO_INTENT;
+  }
+};
+
+// Stage 1: intent classification, then prompt engineering
+export const engineerForInput = async (
+  provider: GenerationProvider,
+  input: PipelineInput,
+  userLocale: string,
+  { templates, signal }: PipelineOptions = {}
+): Promise<EngineeredPrompt> => {
+  const intent = await classifyForSearch(provider, input.text, input.searchMode, signal);
+  return provider.engineerPrompt(input.text, input.references, userLocale, {
+    style: input.stylePreset,
+    layout: getLayoutTemplate(input.layoutId),
+    language: input.language,
+    liveData: { intent, search: shouldGroundWithSearch(intent, input.searchMode) },
+    templates,
+    signal,
+  });
+};
+
+// Stage 2: one image from an engineered prompt
+export const generateForInput = (
+  provider: GenerationProvider,
+  promptData: EngineeredPrompt,
+  input: PipelineInput,
+  { templates, signal }: PipelineOptions = {}
+): Promise<string> =>
+  provider.generatePosterImage(promptData.visualPrompt, input.aspectRatio, input.imageSize, input.references, {
+    textRenderMode: input.textRenderMode,
+    style: input.stylePreset,
+    layout: getLayoutTemplate(input.layoutId),
+    templates,
+    signal,
+  });
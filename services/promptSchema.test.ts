@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { parseEngineeredPrompt, validateEngineeredPrompt, PromptSchemaError } from "./promptSchema";
+
+const VALID = {
+  posterTitle: " 只狼 ",
+  posterSubtitle: "Shadows Die Twice",
+  visualPrompt: "A tiny shinobi figurine on a floating isometric temple island",
+};
+
+describe("parseEngineeredPrompt", () => {
+  it("trims fields and drops unknown keys", () => {
+    const result = parseEngineeredPrompt(JSON.stringify({ ...VALID, mood: "dark" }));
+
+    expect(result).toEqual({ ...VALID, posterTitle: "只狼" });
+  });
+
+  it("throws a PromptSchemaError listing every invalid field", () => {
+    try {
+      parseEngineeredPrompt(JSON.stringify({ posterTitle: "", posterSubtitle: ["a"] }));
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(PromptSchemaError);
+      expect((e as PromptSchemaError).issues.map(i => i.field)).toEqual(["posterTitle", "posterSubtitle", "visualPrompt"]);
+      expect((e as PromptSchemaError).message).toContain("posterSubtitle must be a string, got array");
+    }
+  });
+});
+
+describe("validateEngineeredPrompt", () => {
+  it("rejects non-object roots", () => {
+    expect(validateEngineeredPrompt([VALID])).toEqual([{ field: "(root)", message: "must be a JSON object" }]);
+  });
+
+  it("allows an empty subtitle", () => {
+    expect(validateEngineeredPrompt({ ...VALID, posterSubtitle: "" })).toEqual([]);
+  });
+
+  it("requires the second-language title only in bilingual mode", () => {
+    expect(validateEngineeredPrompt(VALID)).toEqual([]);
+    expect(validateEngineeredPrompt(VALID, true)).toEqual([
+      { field: "secondaryTitle", message: "is missing" },
+      { field: "secondarySubtitle", message: "is missing" },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { Schema, Type } from "@google/genai";
+import { EngineeredPrompt } from "../types";
+import { GenerationError } from "./errors";
+
+// ============================================================================
+// ENGINEERED PROMPT SCHEMA
+// One field list drives both the SDK response schema and the runtime validator,
+// so the two cannot drift apart.
+// ============================================================================
+type PromptField = "posterTitle" | "posterSubtitle" | "secondaryTitle" | "secondarySubtitle" | "visualPrompt";
+
+interface FieldSpec {
+  name: PromptField;
+  description: string;
+  minLength: number;
+}
+
+const TITLE_FIELDS: FieldSpec[] = [
+  { name: "posterTitle", description: "Title in the Target Output Language", minLength: 1 },
+  { name: "posterSubtitle", description: "Subtitle in the Target Output Language", minLength: 0 },
+];
+
+// Only requested (and required) in bilingual mode
+const SECONDARY_FIELDS: FieldSpec[] = [
+  { name: "secondaryTitle", description: "Title in the Second Language", minLength: 1 },
+  { name: "secondarySubtitle", description: "Subtitle in the Second Language", minLength: 0 },
+];
+
+const VISUAL_FIELD: FieldSpec = {
+  name: "visualPrompt", description: "Detailed image prompt in English; text to render uses the Target Language", minLength: 20,
+};
+
+const getFields = (bilingual: boolean): FieldSpec[] =>
+  bilingual ? [...TITLE_FIELDS, ...SECONDARY_FIELDS, VISUAL_FIELD] : [...TITLE_FIELDS, VISUAL_FIELD];
+
+const buildSchema = (fields: FieldSpec[]): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(
+    fields.map(f => [f.name, { type: Type.STRING, description: f.description }])
+  ),
+  required: fields.map(f => f.name),
+  propertyOrdering: fields.map(f => f.name),
+});
+
+export const ENGINEERED_PROMPT_SCHEMA: Schema = buildSchema(getFields(false));
+export const BILINGUAL_PROMPT_SCHEMA: Schema = buildSchema(getFields(true));
+
+export interface SchemaIssue {
+  field: string;
+  message: string;
+}
+
+// Thrown when model output is not valid JSON or does not match the schema
+export class PromptSchemaError extends GenerationError {
+  issues: SchemaIssue[];
+  rawText: string;
+
+  constructor(issues: SchemaIssue[], rawText: string) {
+    super("PARSE", `Generated prompt is invalid: ${issues.map(i => `${i.field} ${i.message}`).join("; ")}`);
+    this.name = "PromptSchemaError";
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+
+  get field(): string | undefined {
+    return this.issues[0]?.field;
+  }
+}
+
+// Tolerates prose or code fences around the object when schema mode is off
+const extractJson = (text: string): string => {
+  const trimmed = text.trim();
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  return start !== -1 && end > start ? trimmed.substring(start, end + 1) : trimmed;
+};
+
+export const validateEngineeredPrompt = (value: unknown, bilingual = false): SchemaIssue[] => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return [{ field: "(root)", message: "must be a JSON object" }];
+  }
+  const record = value as Record<string, unknown>;
+  const issues: SchemaIssue[] = [];
+
+  getFields(bilingual).forEach(({ name, minLength }) => {
+    const fieldValue = record[name];
+    if (fieldValue === undefined || fieldValue === null) {
+      issues.push({ field: name, message: "is missing" });
+    } else if (typeof fieldValue !== "string") {
+      issues.push({ field: name, message: `must be a string, got ${Array.isArray(fieldValue) ? "array" : typeof fieldValue}` });
+    } else if (fieldValue.trim().length < minLength) {
+      issues.push({ field: name, message: minLength === 1 ? "must not be empty" : `must be at least ${minLength} characters` });
+    }
+  });
+
+  return issues;
+};
+
+// Parses and validates model output; unknown keys are dropped
+export const parseEngineeredPrompt = (text: string, bilingual = false): EngineeredPrompt => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (e) {
+    throw new PromptSchemaError([{ field: "(root)", message: "is not valid JSON" }], text);
+  }
+
+  const issues = validateEngineeredPrompt(parsed, bilingual);
+  if (issues.length > 0) throw new PromptSchemaError(issues, text);
+
+  const record = parsed as Record<PromptField, string>;
+  const prompt: EngineeredPrompt = {
+    posterTitle: record.posterTitle.trim(),
+    posterSubtitle: record.posterSubtitle.trim(),
+    visualPrompt: record.visualPrompt.trim(),
+  };
+  if (bilingual) {
+    prompt.secondaryTitle = record.secondaryTitle.trim();
+    prompt.secondarySubtitle = record.secondarySubtitle.trim();
+  }
+  return prompt;
+};
+
+// Follow-up message asking the model to fix its own output
+export const buildRepairMessage = (error: PromptSchemaError, bilingual = false): string => `
+[OUTPUT VALIDATION FAILED]
+Your previous answer could not be used. Problems:
+${error.issues.map(i => `- "${i.field}" ${i.message}`).join("\n")}
+
+Your previous answer was:
+${error.rawText}
+
+Return ONLY the corrected JSON object with the string fields ${getFields(bilingual).map(f => `"${f.name}"`).join(", ")}. Keep the same creative content and Target Language; do not add prose.
+`;
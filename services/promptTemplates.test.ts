@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import {
+  PROMPT_TEMPLATES, interpolate, findUnknownVariables, resolveTemplateSet, getTemplateVersions, parseTemplateImport, exportTemplateSet, getDefaultTemplateSet,
+} from "./promptTemplates";
+
+describe("interpolate", () => {
+  it("fills known placeholders once and keeps unknown ones", () => {
+    expect(interpolate("{{ userText }} in {{locale}} {{missing}}", { userText: "{{locale}}", locale: "en-US" }))
+      .toBe("{{locale}} in en-US {{missing}}");
+  });
+});
+
+describe("built-in templates", () => {
+  it("only use their declared variables", () => {
+    PROMPT_TEMPLATES.forEach(t => expect(findUnknownVariables(t.id, t.body)).toEqual([]));
+    expect(findUnknownVariables("imageGenerationMode", "{{visualPrompt}} {{userText}}")).toEqual(["userText"]);
+  });
+});
+
+describe("registry", () => {
+  it("resolves active versions and falls back to the built-ins", () => {
+    const set = resolveTemplateSet([
+      { id: "engineeringContext", activeVersion: 2, versions: [{ version: 1, body: "one", createdAt: 0 }, { version: 2, body: "two", createdAt: 0 }] },
+      { id: "layoutConstraint", activeVersion: 0, versions: [{ version: 1, body: "one", createdAt: 0 }] },
+    ]);
+
+    expect(set.engineeringContext).toEqual({ version: 2, body: "two" });
+    expect(set.layoutConstraint).toEqual(getDefaultTemplateSet().layoutConstraint);
+    expect(getTemplateVersions(set)).toMatchObject({ engineeringContext: 2, layoutConstraint: 0, engineeringSystem: 0 });
+  });
+
+  it("round-trips an export and rejects other files", () => {
+    const set = getDefaultTemplateSet();
+    set.imageGenerationMode = { version: 3, body: "{{visualPrompt}}" };
+
+    expect(parseTemplateImport(exportTemplateSet(set)).imageGenerationMode).toBe("{{visualPrompt}}");
+    expect(() => parseTemplateImport("{\"format\":\"other\"}")).toThrow("not a Miniature World template export");
+  });
+});
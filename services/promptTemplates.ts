@@ -0,0 +1,287 @@
+import { PromptTemplateId, PromptTemplateRecord, PromptTemplateSet, TemplateVersions } from "../types";
+import { STORES, putRecord, getAllRecords } from "./storage";
+
+// ============================================================================
+// PROMPT TEMPLATES
+// The prose of the engineering and image prompts, with {{variable}}
+// placeholders filled in per run. Users can save their own versions; each run
+// records which version of every template it used.
+// ============================================================================
+
+export const BUILT_IN_TEMPLATE_VERSION = 0;
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId;
+  name: string;
+  description: string;
+  variables: { name: string; description: string }[];
+  body: string;
+}
+
+const ENGINEERING_SYSTEM = `You are a world-class Prompt Engineer and Art Director.
+You have access to Google Search.
+
+{{languageRule}}
+
+{{layoutRule}}
+
+2.  **Scale & Camera:**
+    *   **Create a "Tilt-shift" effect.** The camera must be a **High-Angle Long Shot**.
+    *   **CRITICAL:** Characters must be **TINY figurines** (taking up no more than 1/3 of the island's height).
+    *   **Do NOT produce close-ups or portraits.** The focus is the *entire* floating island environment.
+
+**ART STYLE: {{styleName}}**
+- Every visualPrompt, in every case below, must describe the scene as: **"{{styleVisuals}}"**.
+
+**INPUT HANDLING STRATEGY:**
+
+**CASE A: REFERENCE IMAGES (Style Transfer)**
+- **Roles:** Every reference image is tagged with a role in the [REFERENCE IMAGES] list. Respect the roles strictly:
+    *   **SUBJECT:** The only source of the subject. Extract it but shrink it down to a "toy figurine" scale placed on a detailed isometric base.
+    *   **COLOR PALETTE / ARCHITECTURE / ART STYLE:** Borrow only that aspect. Never take the subject from these images.
+    *   If there is no SUBJECT reference, the subject comes from the user text (or is invented from the other references).
+- **visualPrompt:** Name which aspects come from which reference, in plain words (the image model receives the same images in the same order).
+- **Visuals:** Describe a **"{{styleVisuals}}"**.
+
+**CASE B: REAL-TIME DATA (Stocks/Weather)**
+- **Tool:** Search for live data.
+- **Language:** Use the **Target Output Language** for the Subject Name. Keep numbers universal.
+
+**OUTPUT FORMAT (JSON):**
+Structure:
+{
+  "posterTitle": "Title in Target Language",
+  "posterSubtitle": "Subtitle in Target Language",{{secondaryFields}}
+  "visualPrompt": "The detailed prompt in ENGLISH. BUT, inside the text instructions, use the Target Language strings. Example: '{{titlePlacement}}'"
+}
+`;
+
+const ENGINEERING_CONTEXT = `[METADATA FOR LANGUAGE LOGIC]
+1. User Input Text: "{{userText}}" (If not empty, this is PRIORITY 1)
+2. Subject Reference Image Provided: {{hasSubjectReference}} (If Input is empty, check this for text -> PRIORITY 2)
+3. User System Locale: "{{locale}}" (Fallback -> PRIORITY 3)
+4. Output Language: {{outputLanguage}}{{secondLanguage}}
+{{references}}
+[TASK]
+{{task}}
+Create a 3D Miniature Isometric Poster concept.
+`;
+
+const LAYOUT_CONSTRAINT = `[LAYOUT RULES: {{layoutName}} - MINIATURE WORLD]
+1. COMPOSITION: Render a "Floating Isometric Island" in the {{subjectZone}}.
+2. SCALE DEFINITION: The image involves a **HUGE Environment** and **TINY Characters**.
+   - The character should look like a small Nendoroid or Lego figure standing on a base.
+   - Character Head-to-Body ratio: 1:2 or 1:3 (Cute/Chibi style), but keep the character SMALL relative to the canvas.
+3. CAMERA: **Isometric High-Angle View (God's Eye View)**. Zoom out significantly to show the entire floating island with plenty of margin around it.
+4. BACKGROUND: Clean, solid, infinite background. MUST fill 100% of the canvas height/width.
+5. NEGATIVE SPACE: {{negativeSpace}}
+{{compositionRules}}
+
+[STYLE MODIFIERS: {{styleName}}]
+{{styleModifiers}}
+{{typography}}`;
+
+const IMAGE_REFERENCE_MODE = `{{layoutConstraint}}
+
+[SYSTEM: IMAGE REFERENCE MODE]
+[REFERENCE IMAGES]
+{{references}}
+
+1. ISOLATION: {{isolation}} Never copy the subject of a non-SUBJECT reference.
+2. RE-COMPOSITION: Place the subject on a floating isometric base in the {{subjectZone}}.
+3. BACKGROUND: Clean, solid, infinite background to support text visibility.
+
+[VISUAL DESCRIPTION]
+{{visualPrompt}}
+`;
+
+const IMAGE_GENERATION_MODE = `{{layoutConstraint}}
+[SYSTEM: GENERATION MODE]
+Action: Create a self-contained miniature world.
+[VISUAL DESCRIPTION]
+{{visualPrompt}}
+`;
+
+export const PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    id: "engineeringSystem",
+    name: "Engineering system instruction",
+    description: "System instruction of the prompt engineer: language, layout and style rules, output format.",
+    variables: [
+      { name: "languageRule", description: "Language priority rules, or the user's language override" },
+      { name: "layoutRule", description: "Subject and text zones of the layout" },
+      { name: "styleName", description: "Style preset name, upper case" },
+      { name: "styleVisuals", description: "Visuals phrase of the style preset" },
+      { name: "secondaryFields", description: "Bilingual JSON fields, empty otherwise" },
+      { name: "titlePlacement", description: "Example title instruction for the layout" },
+    ],
+    body: ENGINEERING_SYSTEM,
+  },
+  {
+    id: "engineeringContext",
+    name: "Engineering context message",
+    description: "Per-run metadata sent with the user's text and reference images.",
+    variables: [
+      { name: "userText", description: "The user's text (with search instructions when grounded)" },
+      { name: "hasSubjectReference", description: "YES or NO" },
+      { name: "locale", description: "Browser locale, e.g. en-US" },
+      { name: "outputLanguage", description: "Chosen output language, or AUTO" },
+      { name: "secondLanguage", description: "Second-language line for bilingual posters, empty otherwise" },
+      { name: "references", description: "[REFERENCE IMAGES] block, empty without references" },
+      { name: "task", description: "How to pick the target language" },
+    ],
+    body: ENGINEERING_CONTEXT,
+  },
+  {
+    id: "layoutConstraint",
+    name: "Image layout constraint",
+    description: "Layout, scale, camera and style rules that open every image prompt.",
+    variables: [
+      { name: "layoutName", description: "Layout name, upper case" },
+      { name: "subjectZone", description: "Where the island goes, upper case" },
+      { name: "negativeSpace", description: "Which zones stay empty for text" },
+      { name: "compositionRules", description: "The layout's composition rules, one per line" },
+      { name: "styleName", description: "Style preset name, upper case" },
+      { name: "styleModifiers", description: "The style preset's modifiers, one per line" },
+      { name: "typography", description: "Text rendering block (model text or text-free)" },
+    ],
+    body: LAYOUT_CONSTRAINT,
+  },
+  {
+    id: "imageReferenceMode",
+    name: "Image prompt with references",
+    description: "Image prompt used when reference images are attached.",
+    variables: [
+      { name: "layoutConstraint", description: "The rendered layout constraint template" },
+      { name: "references", description: "Numbered reference images with their roles" },
+      { name: "isolation", description: "Where the subject comes from" },
+      { name: "subjectZone", description: "Where the island goes, upper case" },
+      { name: "visualPrompt", description: "The engineered visual description" },
+    ],
+    body: IMAGE_REFERENCE_MODE,
+  },
+  {
+    id: "imageGenerationMode",
+    name: "Image prompt without references",
+    description: "Image prompt used for text-only runs.",
+    variables: [
+      { name: "layoutConstraint", description: "The rendered layout constraint template" },
+      { name: "visualPrompt", description: "The engineered visual description" },
+    ],
+    body: IMAGE_GENERATION_MODE,
+  },
+];
+
+export const getTemplateDefinition = (id: PromptTemplateId): PromptTemplateDefinition =>
+  PROMPT_TEMPLATES.find(t => t.id === id) as PromptTemplateDefinition;
+
+export const isPromptTemplateId = (value: string): value is PromptTemplateId =>
+  PROMPT_TEMPLATES.some(t => t.id === value);
+
+// ============================================================================
+// INTERPOLATION
+// ============================================================================
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Single pass, so placeholders inside values (e.g. typed by the user) stay literal.
+// Unknown placeholders are left in place.
+export const interpolate = (body: string, variables: Record<string, string>): string =>
+  body.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+
+// Placeholders in `body` that the template does not provide
+export const findUnknownVariables = (id: PromptTemplateId, body: string): string[] => {
+  const known = new Set(getTemplateDefinition(id).variables.map(v => v.name));
+  const used = Array.from(body.matchAll(VARIABLE_PATTERN), m => m[1]);
+  return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export const getDefaultTemplateSet = (): PromptTemplateSet =>
+  Object.fromEntries(PROMPT_TEMPLATES.map(t => [t.id, { version: BUILT_IN_TEMPLATE_VERSION, body: t.body }])) as PromptTemplateSet;
+
+// Active version of every template; ids without a record use the built-in body
+export const resolveTemplateSet = (records: PromptTemplateRecord[]): PromptTemplateSet => {
+  const set = getDefaultTemplateSet();
+  records.forEach(record => {
+    const active = record.versions.find(v => v.version === record.activeVersion);
+    if (active && isPromptTemplateId(record.id)) set[record.id] = { version: active.version, body: active.body };
+  });
+  return set;
+};
+
+export const getTemplateVersions = (set: PromptTemplateSet): TemplateVersions =>
+  Object.fromEntries(Object.entries(set).map(([id, t]) => [id, t.version])) as TemplateVersions;
+
+export const formatTemplateVersion = (version: number) =>
+  version === BUILT_IN_TEMPLATE_VERSION ? "Built-in" : `v${version}`;
+
+// Short label for a run's templates, e.g. "Templates: Image layout constraint v2"
+export const describeTemplateVersions = (versions?: TemplateVersions): string => {
+  const custom = PROMPT_TEMPLATES.filter(t => (versions?.[t.id] ?? BUILT_IN_TEMPLATE_VERSION) !== BUILT_IN_TEMPLATE_VERSION);
+  return custom.length === 0
+    ? "Built-in templates"
+    : `Templates: ${custom.map(t => `${t.name} ${formatTemplateVersion(versions![t.id])}`).join(", ")}`;
+};
+
+export const listPromptTemplateRecords = (): Promise<PromptTemplateRecord[]> =>
+  getAllRecords<PromptTemplateRecord>(STORES.promptTemplates);
+
+// Appends `body` as the next version and makes it active
+export const saveTemplateVersion = async (
+  id: PromptTemplateId,
+  body: string,
+  record?: PromptTemplateRecord
+): Promise<PromptTemplateRecord> => {
+  const versions = record?.versions ?? [];
+  const version = versions.reduce((max, v) => Math.max(max, v.version), BUILT_IN_TEMPLATE_VERSION) + 1;
+  const next: PromptTemplateRecord = { id, activeVersion: version, versions: [...versions, { version, body, createdAt: Date.now() }] };
+  await putRecord(STORES.promptTemplates, next);
+  return next;
+};
+
+// Switches to an earlier version, or back to the built-in default
+export const activateTemplateVersion = async (
+  id: PromptTemplateId,
+  version: number,
+  record?: PromptTemplateRecord
+): Promise<PromptTemplateRecord> => {
+  const next: PromptTemplateRecord = { id, activeVersion: version, versions: record?.versions ?? [] };
+  await putRecord(STORES.promptTemplates, next);
+  return next;
+};
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
+
+const EXPORT_FORMAT = "miniature-world-templates";
+
+export const exportTemplateSet = (set: PromptTemplateSet): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, version: 1, exportedAt: Date.now(), templates: set }, null, 2);
+
+// Template bodies by id from an exported file; unknown ids are ignored
+export const parseTemplateImport = (json: string): Partial<Record<PromptTemplateId, string>> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The template file is not valid JSON.");
+  }
+  if (parsed?.format !== EXPORT_FORMAT || typeof parsed.templates !== "object" || !parsed.templates) {
+    throw new Error("This file is not a Miniature World template export.");
+  }
+  const bodies: Partial<Record<PromptTemplateId, string>> = {};
+  Object.entries(parsed.templates).forEach(([id, template]: [string, any]) => {
+    if (isPromptTemplateId(id) && typeof template?.body === "string" && template.body.trim()) {
+      bodies[id] = template.body;
+    }
+  });
+  if (Object.keys(bodies).length === 0) throw new Error("The template file contains no templates.");
+  return bodies;
+};
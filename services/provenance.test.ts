@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { buildProvenance, parseProvenance, toPngTextEntries, PROVENANCE_KEYWORD } from "./provenance";
+import { mockProvider } from "./mockProvider";
+
+const SOURCE = {
+  inputText: "今天上海天气",
+  referenceImageBase64: null,
+  references: [{ id: "r1", dataUrl: "data:image/webp;base64,QUJD", role: "subject" as const }],
+  promptData: {
+    posterTitle: "上海 25°C",
+    posterSubtitle: "Sunny",
+    visualPrompt: "A tiny Shanghai skyline on a floating island",
+    groundingSources: [{ title: "Weather", uri: "https://example.com/weather" }],
+  },
+  aspectRatio: "9:16" as const,
+  imageSize: "1K" as const,
+  layoutId: "vertical-poster" as const,
+};
+
+describe("provenance", () => {
+  it("embeds everything but the reference images in the PNG entries", () => {
+    const provenance = buildProvenance(mockProvider, SOURCE, 0);
+    const entries = toPngTextEntries(provenance);
+
+    expect(entries.Title).toBe("上海 25°C");
+    expect(entries.Source).toBe("mock-engineer, mock-canvas");
+    const embedded = parseProvenance(entries[PROVENANCE_KEYWORD]);
+    expect(embedded.input.references).toBeUndefined();
+    expect(embedded.prompt.groundingSources).toEqual(SOURCE.promptData.groundingSources);
+    expect(embedded.input.layoutId).toBe("vertical-poster");
+  });
+
+  it("rejects files from other tools", () => {
+    expect(() => parseProvenance("{\"format\":\"other\"}")).toThrow("not a Miniature World poster project");
+    expect(() => parseProvenance("not json")).toThrow("not valid JSON");
+  });
+});
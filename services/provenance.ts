@@ -0,0 +1,120 @@
+import { GenerationProvider, HistoryEntry, PosterProvenance } from "../types";
+import { isPng, readPngText, writePngText } from "../utils/pngMetadata";
+import { loadImage } from "../utils/typography";
+import { readAsDataUrl } from "../utils/imagePreprocess";
+
+// ============================================================================
+// POSTER PROVENANCE
+// Exported PNGs carry how they were made: standard keywords (Title, Description,
+// Software, ...) for image viewers, plus the full record as JSON under
+// PROVENANCE_KEYWORD so the app can import the poster and reproduce it.
+// ============================================================================
+
+export const PROVENANCE_KEYWORD = "miniature-world";
+
+const SOFTWARE_NAME = "Miniature World Generator";
+
+// Inputs and prompt behind a displayed result
+type ProvenanceSource = Omit<HistoryEntry, "id" | "createdAt" | "completedAt" | "imageBase64">;
+
+export const buildProvenance = (
+  provider: GenerationProvider,
+  source: ProvenanceSource,
+  exportedAt = Date.now()
+): PosterProvenance => ({
+  format: "miniature-world-poster",
+  version: 1,
+  exportedAt,
+  provider: provider.id,
+  models: provider.models,
+  input: {
+    text: source.inputText,
+    references: source.references ?? [],
+    aspectRatio: source.aspectRatio,
+    imageSize: source.imageSize,
+    textRenderMode: source.textRenderMode,
+    stylePreset: source.stylePreset,
+    layoutId: source.layoutId,
+    language: source.language,
+    searchMode: source.searchMode,
+  },
+  prompt: source.promptData,
+  templateVersions: source.templateVersions,
+});
+
+export const posterFilename = (exportedAt: number, extension: "png" | "json", index?: number) =>
+  `gemini-miniature-${exportedAt}${index !== undefined ? `-${index + 1}` : ""}.${extension}`;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export const parseProvenance = (json: string): PosterProvenance => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("The project file is not valid JSON.");
+  }
+  if (parsed?.format !== "miniature-world-poster") {
+    throw new Error("This file is not a Miniature World poster project.");
+  }
+  if (parsed.version !== 1) {
+    throw new Error(`Unsupported project version: ${parsed.version}.`);
+  }
+  const { input, prompt } = parsed;
+  if (typeof input?.text !== "string" || !input.aspectRatio || !input.imageSize ||
+      typeof prompt?.posterTitle !== "string" || typeof prompt?.visualPrompt !== "string") {
+    throw new Error("The project file is missing its input or prompt.");
+  }
+  return parsed as PosterProvenance;
+};
+
+// ============================================================================
+// EXPORT / IMPORT
+// ============================================================================
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array =>
+  Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(",") + 1)), c => c.charCodeAt(0));
+
+// Models may answer with JPEG or WebP; metadata chunks need a PNG
+const toPngBytes = async (imageDataUrl: string): Promise<Uint8Array> => {
+  const bytes = dataUrlToBytes(imageDataUrl);
+  if (isPng(bytes)) return bytes;
+  const image = await loadImage(imageDataUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  canvas.getContext("2d")?.drawImage(image, 0, 0);
+  return dataUrlToBytes(canvas.toDataURL("image/png"));
+};
+
+export const toPngTextEntries = (provenance: PosterProvenance): Record<string, string> => {
+  const { references, ...input } = provenance.input;
+  return {
+    Title: provenance.prompt.posterTitle,
+    Description: provenance.prompt.posterSubtitle,
+    Comment: provenance.prompt.visualPrompt,
+    Software: `${SOFTWARE_NAME} (${provenance.provider})`,
+    Source: [provenance.models.text, provenance.models.image].join(", "),
+    "Creation Time": new Date(provenance.exportedAt).toUTCString(),
+    [PROVENANCE_KEYWORD]: JSON.stringify({ ...provenance, input }),
+  };
+};
+
+export const embedProvenance = async (imageDataUrl: string, provenance: PosterProvenance): Promise<Blob> =>
+  new Blob([writePngText(await toPngBytes(imageDataUrl), toPngTextEntries(provenance))], { type: "image/png" });
+
+export const toProjectFile = (provenance: PosterProvenance): Blob =>
+  new Blob([JSON.stringify(provenance, null, 2)], { type: "application/json" });
+
+// Reads an exported PNG or .json project file. PNGs also return their image.
+export const readProvenanceFile = async (file: File): Promise<{ provenance: PosterProvenance; imageDataUrl: string | null }> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isPng(bytes)) {
+    return { provenance: parseProvenance(new TextDecoder().decode(bytes)), imageDataUrl: null };
+  }
+  const json = readPngText(bytes)[PROVENANCE_KEYWORD];
+  if (!json) throw new Error("This PNG has no Miniature World metadata.");
+  return { provenance: parseProvenance(json), imageDataUrl: await readAsDataUrl(file) };
+};
@@ -0,0 +1,33 @@
+import { GenerationProvider, ProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+// ============================================================================
+// PROVIDER REGISTRY
+// Selected via IMAGE_PROVIDER in .env.local (baked in by vite.config.ts), and
+// overridable per page load with ?provider=mock for quick offline demos.
+// ============================================================================
+const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_PROVIDER: ProviderId = "gemini";
+
+const isProviderId = (value: string | null | undefined): value is ProviderId =>
+  !!value && Object.hasOwn(PROVIDERS, value);
+
+const resolveProviderId = (): ProviderId => {
+  if (typeof window !== "undefined") {
+    const fromUrl = new URLSearchParams(window.location.search).get("provider");
+    if (isProviderId(fromUrl)) return fromUrl;
+  }
+  const fromEnv = process.env.IMAGE_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+  return DEFAULT_PROVIDER;
+};
+
+export const getProvider = (id: ProviderId = resolveProviderId()): GenerationProvider =>
+  PROVIDERS[id];
+
+export const listProviders = (): GenerationProvider[] => Object.values(PROVIDERS);
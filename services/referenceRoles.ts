@@ -0,0 +1,50 @@
+import { HistoryEntry, ReferenceImage, ReferenceRole } from "../types";
+
+// ============================================================================
+// REFERENCE ROLES
+// What each tagged reference image contributes. Images are sent in order and
+// the prompts refer to them as "Image 1", "Image 2", ... with their role.
+// ============================================================================
+export const MAX_REFERENCES = 4;
+
+export const REFERENCE_ROLES: Record<ReferenceRole, { label: string; instruction: string }> = {
+  subject: {
+    label: "Subject",
+    instruction: "Extract the main subject / character from this image and shrink it to toy-figurine scale on the diorama.",
+  },
+  palette: {
+    label: "Color Palette",
+    instruction: "Borrow ONLY the color palette (background, island and accent colors). Ignore its content and composition.",
+  },
+  architecture: {
+    label: "Architecture",
+    instruction: "Borrow the architectural style, building shapes and materials for the diorama's structures. Do not copy its subject.",
+  },
+  style: {
+    label: "Art Style / Mood",
+    instruction: "Borrow the rendering style, lighting and mood. Ignore its content.",
+  },
+};
+
+export const REFERENCE_ROLE_ORDER: ReferenceRole[] = ["subject", "palette", "architecture", "style"];
+
+// First image is usually the subject; further images default to style roles
+export const suggestReferenceRole = (existing: ReferenceImage[]): ReferenceRole =>
+  existing.some(r => r.role === "subject") ? "style" : "subject";
+
+// One line per reference, e.g. `- Image 2 (COLOR PALETTE): Borrow ONLY ...`
+export const describeReferences = (references: ReferenceImage[]): string =>
+  references
+    .map((ref, i) => `- Image ${i + 1} (${REFERENCE_ROLES[ref.role].label.toUpperCase()}): ${REFERENCE_ROLES[ref.role].instruction}`)
+    .join("\n");
+
+export const hasSubjectReference = (references: ReferenceImage[]): boolean =>
+  references.some(r => r.role === "subject");
+
+// Entries saved before multiple references existed carry a single, untagged image
+export const getEntryReferences = (entry: HistoryEntry): ReferenceImage[] => {
+  if (entry.references) return entry.references;
+  return entry.referenceImageBase64
+    ? [{ id: `${entry.id}-ref`, dataUrl: entry.referenceImageBase64, role: "subject" }]
+    : [];
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { promptCacheKey, selectEvictions, CacheIndexEntry, PromptCacheParams } from "./responseCache";
+import { getBuiltInStyle } from "./stylePresets";
+
+const PROMPT_PARAMS: PromptCacheParams = {
+  providerId: "gemini",
+  text: "a harbor",
+  references: [{ id: "r1", dataUrl: "data:image/webp;base64,QUJD", role: "subject" }],
+  locale: "en-US",
+  style: getBuiltInStyle("clay"),
+  layoutId: "vertical-poster",
+};
+
+describe("cache keys", () => {
+  it("depend on content, not on ids or preset names", async () => {
+    const key = await promptCacheKey(PROMPT_PARAMS);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await promptCacheKey({
+      ...PROMPT_PARAMS,
+      references: [{ ...PROMPT_PARAMS.references[0], id: "other" }],
+      style: { ...PROMPT_PARAMS.style!, name: "Renamed" },
+    })).toBe(key);
+  });
+
+  it("change with any input that reaches the model", async () => {
+    const key = await promptCacheKey(PROMPT_PARAMS);
+
+    expect(await promptCacheKey({ ...PROMPT_PARAMS, locale: "zh-CN" })).not.toBe(key);
+    expect(await promptCacheKey({ ...PROMPT_PARAMS, references: [{ ...PROMPT_PARAMS.references[0], role: "palette" }] })).not.toBe(key);
+  });
+});
+
+describe("selectEvictions", () => {
+  const entry = (id: string, lastAccessedAt: number, bytes = 10): CacheIndexEntry =>
+    ({ id, kind: "image", bytes, createdAt: 0, lastAccessedAt });
+
+  it("drops the least recently used entries beyond the entry limit", () => {
+    const entries = [entry("a", 3), entry("b", 1), entry("c", 2)];
+
+    expect(selectEvictions(entries, { maxEntries: 2, maxBytes: 1000 })).toEqual(["b"]);
+  });
+
+  it("drops entries once the byte budget is exceeded", () => {
+    const entries = [entry("a", 3, 60), entry("b", 2, 30), entry("c", 1, 30)];
+
+    expect(selectEvictions(entries, { maxEntries: 10, maxBytes: 100 })).toEqual(["c"]);
+  });
+});
@@ -0,0 +1,158 @@
+import { EngineeredPrompt, LanguageSettings, LayoutTemplateId, PromptTemplateId, PromptTemplateSet, ProviderId, ReferenceImage, SearchMode, StylePreset } from "../types";
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord } from "./storage";
+
+// ============================================================================
+// RESPONSE CACHE
+// Content-addressed: keys are SHA-256 hashes of everything that influences a
+// stage's output, so identical inputs are served from IndexedDB across
+// sessions. Values and their LRU bookkeeping live in separate stores so that
+// eviction never has to load the (large) cached values.
+// Only engineered prompts are cached: Generate rolls new images every time, so
+// an image could never be served again. "image" entries from older versions
+// are left to LRU eviction.
+// ============================================================================
+
+export const CACHE_LIMITS = {
+  maxEntries: 200,
+  maxBytes: 80 * 1024 * 1024,
+};
+
+export type CacheKind = "prompt" | "image";
+
+type CachedValue = EngineeredPrompt | string;
+
+interface CacheValueRecord {
+  id: string;
+  value: CachedValue;
+}
+
+export interface CacheIndexEntry {
+  id: string;
+  kind: CacheKind;
+  bytes: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export const hashContent = async (content: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Order and roles matter: the prompts refer to references as "Image N (ROLE)"
+export const hashReferences = (references: ReferenceImage[]): Promise<string> =>
+  hashContent(JSON.stringify(references.map(r => [r.role, r.dataUrl])));
+
+// Only the parts of a preset that reach the prompts; renaming a preset keeps its cache
+const styleFingerprint = (style?: StylePreset) =>
+  style ? [style.engineeringVisuals, style.styleModifiers] : null;
+
+// Template bodies, not version numbers: reverting to an identical body reuses the cache
+const templateFingerprint = (templates: PromptTemplateSet | undefined, ids: PromptTemplateId[]) =>
+  templates ? ids.map(id => templates[id].body) : null;
+
+export interface PromptCacheParams {
+  providerId: ProviderId;
+  text: string;
+  references: ReferenceImage[];
+  locale: string;
+  style?: StylePreset;
+  layoutId?: LayoutTemplateId;
+  language?: LanguageSettings;
+  searchMode?: SearchMode;
+  templates?: PromptTemplateSet;
+}
+
+export const promptCacheKey = async (params: PromptCacheParams): Promise<string> =>
+  hashContent(JSON.stringify({
+    stage: "prompt",
+    provider: params.providerId,
+    text: params.text,
+    references: await hashReferences(params.references),
+    locale: params.locale,
+    style: styleFingerprint(params.style),
+    layout: params.layoutId ?? null,
+    language: [params.language?.primary ?? "auto", params.language?.secondary ?? null],
+    search: params.searchMode ?? "auto",
+    templates: templateFingerprint(params.templates, ["engineeringSystem", "engineeringContext"]),
+  }));
+
+// ============================================================================
+// EVICTION
+// ============================================================================
+
+// Ids to drop so the most recently used entries fit within the limits
+export const selectEvictions = (entries: CacheIndexEntry[], limits = CACHE_LIMITS): string[] => {
+  const byRecency = [...entries].sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+  let totalBytes = 0;
+  return byRecency
+    .filter((entry, index) => {
+      totalBytes += entry.bytes;
+      return index >= limits.maxEntries || totalBytes > limits.maxBytes;
+    })
+    .map(entry => entry.id);
+};
+
+const evictOverflow = async () => {
+  const entries = await getAllRecords<CacheIndexEntry>(STORES.responseCacheIndex);
+  await Promise.all(selectEvictions(entries).flatMap(id => [
+    deleteRecord(STORES.responseCacheIndex, id),
+    deleteRecord(STORES.responseCache, id),
+  ]));
+};
+
+// ============================================================================
+// READ-THROUGH
+// The cache is an optimization: storage failures are logged and treated as misses.
+// ============================================================================
+
+const lookup = async <T extends CachedValue>(key: string): Promise<T | undefined> => {
+  try {
+    const [record, entry] = await Promise.all([
+      getRecord<CacheValueRecord>(STORES.responseCache, key),
+      getRecord<CacheIndexEntry>(STORES.responseCacheIndex, key),
+    ]);
+    if (!record || !entry) return undefined;
+    putRecord(STORES.responseCacheIndex, { ...entry, lastAccessedAt: Date.now() })
+      .catch(e => console.warn("Failed to touch cache entry", e));
+    return record.value as T;
+  } catch (e) {
+    console.warn("Response cache lookup failed", e);
+    return undefined;
+  }
+};
+
+const store = async (kind: CacheKind, key: string, value: CachedValue) => {
+  try {
+    const now = Date.now();
+    const bytes = typeof value === "string" ? value.length : JSON.stringify(value).length;
+    await putRecord<CacheValueRecord>(STORES.responseCache, { id: key, value });
+    await putRecord<CacheIndexEntry>(STORES.responseCacheIndex, { id: key, kind, bytes, createdAt: now, lastAccessedAt: now });
+    await evictOverflow();
+  } catch (e) {
+    console.warn("Response cache write failed", e);
+  }
+};
+
+// Serves `key` from the cache, or runs `produce` and caches its result.
+// With `bypass` the cache is not read, but the fresh result replaces the old one.
+// Results rejected by `cacheable` are returned without being stored.
+export const readThrough = async <T extends CachedValue>(
+  kind: CacheKind,
+  key: string,
+  produce: () => Promise<T>,
+  bypass = false,
+  cacheable: (value: T) => boolean = () => true
+): Promise<{ value: T; fromCache: boolean }> => {
+  if (!bypass) {
+    const cached = await lookup<T>(key);
+    if (cached !== undefined) return { value: cached, fromCache: true };
+  }
+  const value = await produce();
+  if (cacheable(value)) await store(kind, key, value);
+  return { value, fromCache: false };
+};
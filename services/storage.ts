@@ -0,0 +1,87 @@
+// ============================================================================
+// INDEXEDDB STORAGE
+// Single database shared by every persistent subsystem. Add new object stores
+// to STORES and bump DB_VERSION; the upgrade handler creates missing stores.
+// ============================================================================
+const DB_NAME = "miniature-world-generator";
+const DB_VERSION = 6;
+
+export const STORES = {
+  history: "history",
+  stylePresets: "stylePresets",
+  responseCache: "responseCache",
+  responseCacheIndex: "responseCacheIndex",
+  livingPosters: "livingPosters",
+  promptTemplates: "promptTemplates",
+  experiments: "experiments",
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: "id" });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open IndexedDB."));
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+};
+
+export const putRecord = <T extends { id: string }>(storeName: StoreName, record: T): Promise<IDBValidKey> =>
+  withStore(storeName, "readwrite", (store) => store.put(record));
+
+export const getRecord = <T>(storeName: StoreName, id: string): Promise<T | undefined> =>
+  withStore(storeName, "readonly", (store) => store.get(id) as IDBRequest<T | undefined>);
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, "readonly", (store) => store.getAll() as IDBRequest<T[]>);
+
+export const deleteRecord = (storeName: StoreName, id: string): Promise<undefined> =>
+  withStore(storeName, "readwrite", (store) => store.delete(id));
+
+export const clearStore = (storeName: StoreName): Promise<undefined> =>
+  withStore(storeName, "readwrite", (store) => store.clear());
+
+export const createId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,113 @@
+import { StylePreset } from "../types";
+import { STORES, putRecord, getAllRecords, deleteRecord, createId } from "./storage";
+
+// ============================================================================
+// STYLE PRESETS
+// Each preset feeds the prompt engineer (engineeringVisuals) and the image
+// prompt's [STYLE MODIFIERS] block (styleModifiers).
+// ============================================================================
+export const DEFAULT_STYLE_ID = "clay";
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  {
+    id: "clay",
+    name: "Clay Blind Box",
+    description: "The original look: claymorphism toys under tilt-shift.",
+    engineeringVisuals: "cute 3D clay render, blind box toy style, miniature world",
+    styleModifiers: [
+      '**"Tilt-shift photography"** (blur the background slightly, keep center sharp).',
+      '**"Claymorphism"** or **"3D Blind Box Toy"** style.',
+      '**"Polly Pocket"** or **"Micro-landscape"**.',
+    ],
+    builtIn: true,
+  },
+  {
+    id: "voxel",
+    name: "Voxel",
+    description: "Chunky cubes, like a hand-built block world.",
+    engineeringVisuals: "voxel art diorama, every object built from small uniform cubes, crisp edges, soft global illumination",
+    styleModifiers: [
+      '**"Voxel art"**: all geometry made of small uniform cubes, no smooth curves.',
+      "Soft ambient occlusion between cubes, bright saturated palette.",
+      "Slight tilt-shift depth of field.",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "low-poly",
+    name: "Low-Poly",
+    description: "Faceted flat-shaded geometry.",
+    engineeringVisuals: "low-poly 3D diorama, faceted flat-shaded polygons, pastel gradient lighting",
+    styleModifiers: [
+      '**"Low-poly 3D"**: visible triangular facets, flat shading per face.',
+      "Minimal textures, pastel gradient palette.",
+      "Clean studio lighting with soft shadows.",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "papercraft",
+    name: "Papercraft",
+    description: "Folded and layered paper cut-outs.",
+    engineeringVisuals: "papercraft diorama, layered cut paper and folded card, visible paper grain and soft drop shadows between layers",
+    styleModifiers: [
+      '**"Papercraft"**: folded card stock and layered paper cut-outs.',
+      "Visible paper fibre texture, slightly imperfect hand-cut edges.",
+      "Soft drop shadows between paper layers, warm diffuse light.",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "lego-brick",
+    name: "Brick Toy",
+    description: "Interlocking plastic toy bricks and minifigures.",
+    engineeringVisuals: "toy brick diorama built from interlocking plastic bricks with studs, minifigure characters, glossy plastic",
+    styleModifiers: [
+      '**"Interlocking toy bricks"**: every surface built from studded plastic bricks and plates.',
+      "Characters are small minifigures with simple printed faces.",
+      "Glossy ABS plastic reflections, macro photography, tilt-shift.",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "watercolor",
+    name: "Watercolor Diorama",
+    description: "Hand-painted washes on a miniature island.",
+    engineeringVisuals: "watercolor painted miniature diorama, soft pigment washes, paper texture, gentle bleeding edges",
+    styleModifiers: [
+      '**"Watercolor illustration"** of a 3D miniature diorama.',
+      "Soft wet-on-wet washes, visible cold-press paper texture, light pencil linework.",
+      "Muted harmonious palette, background wash continues full bleed.",
+    ],
+    builtIn: true,
+  },
+  {
+    id: "pixel-isometric",
+    name: "Pixel Art Isometric",
+    description: "Retro isometric pixel art.",
+    engineeringVisuals: "isometric pixel art diorama, crisp pixels, limited retro palette, no anti-aliasing",
+    styleModifiers: [
+      '**"Isometric pixel art"**: crisp square pixels, 2:1 isometric lines, no anti-aliasing.',
+      "Limited 32-colour retro palette with dithering for shading.",
+      "No photographic blur; everything equally sharp.",
+    ],
+    builtIn: true,
+  },
+];
+
+export const getBuiltInStyle = (id: string = DEFAULT_STYLE_ID): StylePreset =>
+  BUILT_IN_STYLE_PRESETS.find(p => p.id === id) || BUILT_IN_STYLE_PRESETS[0];
+
+export const listCustomStylePresets = async (): Promise<StylePreset[]> => {
+  const presets = await getAllRecords<StylePreset>(STORES.stylePresets);
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveCustomStylePreset = async (preset: Omit<StylePreset, "id" | "builtIn"> & { id?: string }): Promise<StylePreset> => {
+  const record: StylePreset = { ...preset, id: preset.id || `custom-${createId()}`, builtIn: false };
+  await putRecord(STORES.stylePresets, record);
+  return record;
+};
+
+export const deleteCustomStylePreset = (id: string): Promise<undefined> =>
+  deleteRecord(STORES.stylePresets, id);
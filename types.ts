@@ -4,6 +4,7 @@ export enum AppStatus {
   GENERATING_IMAGE = 'GENERATING_IMAGE',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR',
+  CANCELLED = 'CANCELLED',
 }
 
 export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
@@ -13,7 +14,52 @@ export interface EngineeredPrompt {
   posterTitle: string;
   posterSubtitle: string;
   visualPrompt: string;
+  // Bilingual mode: title and subtitle again in the second language
+  secondaryTitle?: string;
+  secondarySubtitle?: string;
   groundingSources?: { title: string; uri: string }[];
+  // Set when the input was classified as a live-data request
+  liveData?: LiveDataInfo;
+}
+
+export type LiveDataCategory = 'weather' | 'finance' | 'sports' | 'news' | 'none';
+
+// Output of the intent classification step
+export interface IntentClassification {
+  category: LiveDataCategory;
+  // What the data is about, e.g. ["Shanghai"] or ["AAPL"]
+  entities: string[];
+}
+
+export interface LiveDataInfo extends IntentClassification {
+  // Whether the prompt was grounded with Google Search
+  grounded: boolean;
+  // When the data was fetched (ms since epoch)
+  retrievedAt: number;
+}
+
+// 'auto' grounds with search when the classifier detects a live-data intent
+export type SearchMode = 'auto' | 'on' | 'off';
+
+// Language of the poster text, as codes from OUTPUT_LANGUAGES. Without `primary`
+// the engineer picks the language itself (user text, then reference text, then locale).
+export interface LanguageSettings {
+  primary?: string;
+  // Set for bilingual posters
+  secondary?: string;
+}
+
+export type VariantStatus = 'PENDING' | 'GENERATING' | 'SUCCESS' | 'ERROR';
+
+// One image produced from an EngineeredPrompt; a batch run yields several
+export interface ImageVariant {
+  id: string;
+  status: VariantStatus;
+  imageBase64: string | null;
+  error?: string;
+  starred?: boolean;
+  // History entry the image was saved as
+  historyId?: string;
 }
 
 export interface GenerationResult {
@@ -21,13 +67,339 @@ export interface GenerationResult {
   promptData: EngineeredPrompt | null;
 }
 
+// What the model should take from a reference image
+export type ReferenceRole = 'subject' | 'palette' | 'architecture' | 'style';
+
+// Rectangle in fractions (0-1) of the source image's width/height
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How a reference was prepared before upload, for showing the payload cost
+export interface ReferencePreprocessing {
+  originalBytes: number;
+  bytes: number;
+  width: number;
+  height: number;
+  mimeType: string;
+  // EXIF orientation of the original (1 = upright); the sent pixels are always upright
+  orientation: number;
+  crop?: CropRect;
+}
+
+export interface ReferenceImage {
+  id: string;
+  dataUrl: string;
+  role: ReferenceRole;
+  // Missing for images that were sent as-is (e.g. a format the browser cannot re-encode)
+  preprocessing?: ReferencePreprocessing;
+}
+
 export interface UserInput {
   text: string;
-  image: File | null;
-  imageBase64: string | null;
+  // In the order the user added them; the order is preserved in the prompts
+  references: ReferenceImage[];
   aspectRatio: AspectRatio;
   imageSize: ImageSize;
+  // Number of images to generate from the same prompt (1-8)
+  variantCount?: number;
+  textRenderMode?: TextRenderMode;
+  stylePreset?: StylePreset;
+  layoutId?: LayoutTemplateId;
+  language?: LanguageSettings;
+  searchMode?: SearchMode;
   forceAnalysis?: boolean;
+  // Skip cache lookups for this run; fresh results still replace the cached ones
+  bypassCache?: boolean;
+}
+
+// Subset of UserInput that can be pushed back into InputSection (e.g. from history)
+export interface InputSnapshot {
+  text: string;
+  references: ReferenceImage[];
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  stylePresetId?: string;
+  layoutId?: LayoutTemplateId;
+  language?: LanguageSettings;
+  searchMode?: SearchMode;
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  completedAt: number;
+  inputText: string;
+  // Single reference of entries saved before multiple references existed
+  referenceImageBase64: string | null;
+  references?: ReferenceImage[];
+  promptData: EngineeredPrompt;
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  imageBase64: string;
+  textRenderMode?: TextRenderMode;
+  // Snapshot, so the run stays reproducible if a custom preset is later edited or deleted
+  stylePreset?: StylePreset;
+  layoutId?: LayoutTemplateId;
+  language?: LanguageSettings;
+  searchMode?: SearchMode;
+  templateVersions?: TemplateVersions;
+  // Set for refinements: the history entry that was edited, and the edit
+  parentId?: string;
+  refinementInstruction?: string;
+}
+
+// One step of the image-to-image refinement loop; the root revision has no parent
+export interface PosterRevision {
+  id: string;
+  parentId: string | null;
+  imageBase64: string;
+  // Edit that produced this revision; null for the root
+  instruction: string | null;
+  createdAt: number;
+  // History entry holding this image, when it was persisted
+  historyId?: string;
+}
+
+// Inputs a living poster replays on every check
+export type LivingPosterInput = Omit<UserInput, 'variantCount' | 'forceAnalysis' | 'bypassCache'>;
+
+// How a poster was made. Embedded in exported PNGs (without the reference
+// images, which are too large) and written in full as the .json project file.
+export interface PosterProvenance {
+  format: 'miniature-world-poster';
+  version: 1;
+  exportedAt: number;
+  provider: ProviderId;
+  models: ProviderModels;
+  input: Omit<LivingPosterInput, 'references'> & { references?: ReferenceImage[] };
+  // Includes groundingSources and liveData when the run was search-grounded
+  prompt: EngineeredPrompt;
+  templateVersions?: TemplateVersions;
+  // Set when client-side typography is already drawn into the exported image
+  textFlattened?: boolean;
+}
+
+// One rendered state of a living poster
+export interface LivingPosterRender {
+  id: string;
+  createdAt: number;
+  promptData: EngineeredPrompt;
+  imageBase64: string;
+  // Figures read from the poster text; a render is only made when they change
+  dataValues: string[];
+  // Values that were not in the previous render; empty for the first one
+  changedValues: string[];
+  templateVersions?: TemplateVersions;
+}
+
+// A pinned data-driven query that is re-checked on an interval while the app is open
+export interface LivingPoster {
+  id: string;
+  name: string;
+  createdAt: number;
+  input: LivingPosterInput;
+  intervalMinutes: number;
+  enabled: boolean;
+  lastCheckedAt: number | null;
+  lastError?: string;
+  // Oldest first
+  renders: LivingPosterRender[];
+}
+
+export type PromptTemplateId =
+  | 'engineeringSystem'
+  | 'engineeringContext'
+  | 'layoutConstraint'
+  | 'imageReferenceMode'
+  | 'imageGenerationMode';
+
+// Template body in effect for one id; version 0 is the built-in default
+export interface ActivePromptTemplate {
+  version: number;
+  body: string;
+}
+
+export type PromptTemplateSet = Record<PromptTemplateId, ActivePromptTemplate>;
+
+// Which version of each template produced a run
+export type TemplateVersions = Record<PromptTemplateId, number>;
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: number;
+}
+
+// User versions of one template; activeVersion 0 means the built-in default is in effect
+export interface PromptTemplateRecord {
+  id: PromptTemplateId;
+  activeVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+// One side of an A/B experiment
+export interface ExperimentConfig {
+  name: string;
+  // Template version per id; missing ids use the built-in text
+  templateVersions: Partial<TemplateVersions>;
+  // Model ids; the provider's defaults when empty
+  textModel?: string;
+  imageModel?: string;
+  // Replaces the style preset's modifiers when set
+  styleModifiers?: string[];
+}
+
+export interface ExperimentResult {
+  promptData?: EngineeredPrompt;
+  imageBase64?: string;
+  error?: string;
+}
+
+// 0 or 1: the config that won; 'tie' when neither was better
+export type ExperimentVote = 0 | 1 | 'tie';
+
+export interface ExperimentTrial {
+  id: string;
+  createdAt: number;
+  // Index into Experiment.inputs
+  inputIndex: number;
+  // Indexed by config
+  results: [ExperimentResult, ExperimentResult];
+  // Config shown on the left; randomized so the rating stays blind
+  leftConfig: 0 | 1;
+  vote?: ExperimentVote;
+}
+
+// The same test set rendered by two configurations and rated blind
+export interface Experiment {
+  id: string;
+  name: string;
+  createdAt: number;
+  // Test set of input texts
+  inputs: string[];
+  aspectRatio: AspectRatio;
+  imageSize: ImageSize;
+  stylePreset?: StylePreset;
+  layoutId?: LayoutTemplateId;
+  configs: [ExperimentConfig, ExperimentConfig];
+  trials: ExperimentTrial[];
+}
+
+// Named art direction injected into both the engineering and image prompts
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  // Phrase the prompt engineer uses to describe the visuals
+  engineeringVisuals: string;
+  // Lines of the image prompt's [STYLE MODIFIERS] block
+  styleModifiers: string[];
+  builtIn?: boolean;
+}
+
+export type LayoutTemplateId = 'vertical-poster' | 'landscape-banner' | 'square-card' | 'art-print' | 'postcard';
+
+// Rectangle in fractions (0-1) of the canvas width/height
+export interface LayoutZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // How the prompts refer to this area, e.g. "top 25%"
+  label: string;
+}
+
+// Where the diorama and the text go. Drives the engineering prompt, the image
+// prompt and client-side typography, so all three agree on the composition.
+export interface LayoutTemplate {
+  id: LayoutTemplateId;
+  name: string;
+  description: string;
+  subjectZone: LayoutZone;
+  // null when the layout carries no text in the image
+  titleZone: LayoutZone | null;
+  subtitleZone: LayoutZone | null;
+  compositionRules: string[];
+}
+
+// 'model' lets the image model paint the title; 'composite' renders a text-free
+// image and overlays the title/subtitle client-side
+export type TextRenderMode = 'model' | 'composite';
+
+export interface EngineerPromptOptions {
+  style?: StylePreset;
+  layout?: LayoutTemplate;
+  language?: LanguageSettings;
+  // Classified intent and the search decision derived from it
+  liveData?: { intent: IntentClassification; search: boolean };
+  // Defaults to the built-in templates
+  templates?: PromptTemplateSet;
+  // Overrides the provider's text model
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageGenerationOptions {
+  textRenderMode?: TextRenderMode;
+  style?: StylePreset;
+  layout?: LayoutTemplate;
+  templates?: PromptTemplateSet;
+  // Overrides the provider's image model
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Model ids behind each stage, recorded in exported posters
+export interface ProviderModels {
+  text: string;
+  image: string;
+  intent?: string;
+}
+
+// Backend for the two pipeline stages: prompt engineering and image generation
+export interface GenerationProvider {
+  id: ProviderId;
+  label: string;
+  models: ProviderModels;
+  // Decides whether the input asks for live data (weather, prices, scores, news)
+  classifyIntent: (inputText: string, options?: { signal?: AbortSignal }) => Promise<IntentClassification>;
+  engineerPrompt: (
+    inputText: string,
+    references: ReferenceImage[],
+    userLocale?: string,
+    options?: EngineerPromptOptions
+  ) => Promise<EngineeredPrompt>;
+  generatePosterImage: (
+    visualPrompt: string,
+    aspectRatio: AspectRatio,
+    imageSize: ImageSize,
+    references: ReferenceImage[],
+    options?: ImageGenerationOptions
+  ) => Promise<string>;
+  // Image-to-image edit of an existing poster
+  refinePosterImage: (
+    imageBase64: string,
+    instruction: string,
+    aspectRatio: AspectRatio,
+    imageSize: ImageSize,
+    options?: ImageGenerationOptions
+  ) => Promise<string>;
+  // Edit of the white region of a black/white mask; returns the model's full image,
+  // which the caller blends back through the mask
+  inpaintPosterImage: (
+    imageBase64: string,
+    maskBase64: string,
+    instruction: string,
+    aspectRatio: AspectRatio,
+    imageSize: ImageSize,
+    options?: ImageGenerationOptions
+  ) => Promise<string>;
 }
 
 // Global definition for the AI Studio helper environment
@@ -0,0 +1,32 @@
+// Helpers for threading AbortSignal through async work (fetches, retry sleeps)
+
+export const createAbortError = (): Error => {
+  const error = new Error("The operation was cancelled.");
+  error.name = "AbortError";
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  !!error && typeof error === "object" && (error as { name?: string }).name === "AbortError";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// setTimeout-based sleep that rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
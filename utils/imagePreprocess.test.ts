@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { readExifOrientation, cropToPixels, fitWithin, dataUrlByteSize } from "./imagePreprocess";
+
+// Minimal JPEG: SOI, an APP1 "Exif" segment with one IFD0 entry, then SOS
+const jpegWithOrientation = (orientation: number, littleEndian: boolean) => {
+  const tiff = new DataView(new ArrayBuffer(26));
+  tiff.setUint16(0, littleEndian ? 0x4949 : 0x4D4D);
+  tiff.setUint16(2, 42, littleEndian);
+  tiff.setUint32(4, 8, littleEndian);
+  tiff.setUint16(8, 1, littleEndian);
+  tiff.setUint16(10, 0x0112, littleEndian);
+  tiff.setUint16(12, 3, littleEndian);
+  tiff.setUint32(14, 1, littleEndian);
+  tiff.setUint16(18, orientation, littleEndian);
+
+  const bytes = new Uint8Array(2 + 4 + 6 + tiff.byteLength + 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, 0xFFD8);
+  view.setUint16(2, 0xFFE1);
+  view.setUint16(4, 2 + 6 + tiff.byteLength);
+  bytes.set([0x45, 0x78, 0x69, 0x66, 0, 0], 6);
+  bytes.set(new Uint8Array(tiff.buffer), 12);
+  view.setUint16(bytes.length - 2, 0xFFDA);
+  return bytes.buffer;
+};
+
+describe("readExifOrientation", () => {
+  it("reads the orientation tag in both byte orders", () => {
+    expect(readExifOrientation(jpegWithOrientation(6, true))).toBe(6);
+    expect(readExifOrientation(jpegWithOrientation(8, false))).toBe(8);
+  });
+
+  it("defaults to upright for non-JPEGs and truncated metadata", () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4E, 0x47]).buffer)).toBe(1);
+    expect(readExifOrientation(jpegWithOrientation(6, true).slice(0, 20))).toBe(1);
+  });
+});
+
+describe("sizing", () => {
+  it("converts a fractional crop to clamped pixels", () => {
+    expect(cropToPixels({ x: 0.5, y: 0.25, width: 0.8, height: 0.5 }, 1000, 800)).toEqual({ x: 500, y: 200, width: 500, height: 400 });
+    expect(cropToPixels(undefined, 1000, 800)).toEqual({ x: 0, y: 0, width: 1000, height: 800 });
+  });
+
+  it("downscales to the max dimension without upscaling", () => {
+    expect(fitWithin(4032, 3024, 1536)).toEqual({ width: 1536, height: 1152 });
+    expect(fitWithin(640, 480, 1536)).toEqual({ width: 640, height: 480 });
+  });
+
+  it("computes the decoded size of a base64 data URL", () => {
+    expect(dataUrlByteSize("data:image/webp;base64,QUJD")).toBe(3);
+    expect(dataUrlByteSize("data:image/webp;base64,QUI=")).toBe(2);
+  });
+});
@@ -0,0 +1,193 @@
+import { CropRect, ReferencePreprocessing } from '../types';
+import { loadImage } from './typography';
+
+// ============================================================================
+// REFERENCE IMAGE PREPROCESSING
+// Dropped/pasted photos are decoded upright, optionally cropped, downscaled
+// and re-encoded under a byte budget before they are sent to the models.
+// ============================================================================
+
+export type ReferenceEncoding = 'image/webp' | 'image/jpeg';
+
+export interface PreprocessOptions {
+  // Longest side of the uploaded image, in pixels
+  maxDimension: number;
+  mimeType: ReferenceEncoding;
+  // Starting encoder quality (0-1); lowered step by step to meet the budget
+  quality: number;
+  maxBytes: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 1536,
+  mimeType: 'image/webp',
+  quality: 0.85,
+  maxBytes: 600 * 1024,
+};
+
+const MIN_QUALITY = 0.5;
+const MAX_ENCODE_ATTEMPTS = 8;
+// EXIF lives in the APP1 segment, which is at most 64 KB and sits near the start
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+// ============================================================================
+// EXIF ORIENTATION
+// ============================================================================
+
+const readTiffOrientation = (view: DataView, tiffStart: number): number => {
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  const entryCount = view.getUint16(ifdStart, littleEndian);
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdStart + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) === 0x0112) {
+      const value = view.getUint16(entry + 8, littleEndian);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+};
+
+// Orientation tag (1-8) of a JPEG; 1 for other formats or when the tag is missing/corrupt
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== 0xFFD8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1;
+      // APP1 segment starting with "Exif\0\0"
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+        return readTiffOrientation(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (e) {
+    // Truncated or malformed metadata reads past the buffer
+    if (!(e instanceof RangeError)) throw e;
+  }
+  return 1;
+};
+
+// ============================================================================
+// SIZING
+// ============================================================================
+
+export const cropToPixels = (crop: CropRect | undefined, width: number, height: number) => {
+  if (!crop) return { x: 0, y: 0, width, height };
+  const x = Math.round(Math.min(Math.max(crop.x, 0), 1) * width);
+  const y = Math.round(Math.min(Math.max(crop.y, 0), 1) * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(Math.round(crop.width * width), width - x)),
+    height: Math.max(1, Math.min(Math.round(crop.height * height), height - y)),
+  };
+};
+
+// Output size for a region, never upscaled
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+// Decoded size of a base64 data URL's payload
+export const dataUrlByteSize = (dataUrl: string): number => {
+  const payload = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = payload.endsWith('==') ? 2 : payload.endsWith('=') ? 1 : 0;
+  return Math.floor(payload.length * 3 / 4) - padding;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+export const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error("Failed to read image."));
+    reader.readAsDataURL(blob);
+  });
+
+// Upright pixels: both decoders apply the EXIF orientation
+const decodeUpright = async (source: Blob): Promise<{ image: CanvasImageSource; width: number; height: number; release: () => void }> => {
+  if (typeof createImageBitmap === 'function') {
+    const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+    return { image: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+  }
+  const img = await loadImage(await readAsDataUrl(source));
+  return { image: img, width: img.naturalWidth, height: img.naturalHeight, release: () => {} };
+};
+
+// Falls back to JPEG where the browser cannot encode WebP (it silently returns PNG)
+const encodeCanvas = (canvas: HTMLCanvasElement, mimeType: ReferenceEncoding, quality: number): { dataUrl: string; mimeType: ReferenceEncoding } => {
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+  if (dataUrl.startsWith(`data:${mimeType}`)) return { dataUrl, mimeType };
+  return { dataUrl: canvas.toDataURL('image/jpeg', quality), mimeType: 'image/jpeg' };
+};
+
+// Decodes, crops, downscales and re-encodes `source`. Quality is lowered first
+// and then the image is shrunk until it fits `maxBytes` (or attempts run out).
+export const preprocessReference = async (
+  source: Blob,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS,
+  crop?: CropRect
+): Promise<{ dataUrl: string; preprocessing: ReferencePreprocessing }> => {
+  const orientation = readExifOrientation(await source.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  const decoded = await decodeUpright(source);
+
+  try {
+    const region = cropToPixels(crop, decoded.width, decoded.height);
+    let size = fitWithin(region.width, region.height, options.maxDimension);
+    let quality = options.quality;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+    for (let attempt = 1; ; attempt++) {
+      canvas.width = size.width;
+      canvas.height = size.height;
+      // JPEG has no alpha; transparent areas would otherwise turn black
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, size.width, size.height);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(decoded.image, region.x, region.y, region.width, region.height, 0, 0, size.width, size.height);
+
+      const encoded = encodeCanvas(canvas, options.mimeType, quality);
+      const bytes = dataUrlByteSize(encoded.dataUrl);
+      if (bytes <= options.maxBytes || attempt >= MAX_ENCODE_ATTEMPTS) {
+        return {
+          dataUrl: encoded.dataUrl,
+          preprocessing: {
+            originalBytes: source.size,
+            bytes,
+            width: size.width,
+            height: size.height,
+            mimeType: encoded.mimeType,
+            orientation,
+            crop,
+          },
+        };
+      }
+
+      if (quality - 0.1 >= MIN_QUALITY) {
+        quality = Math.round((quality - 0.1) * 100) / 100;
+      } else {
+        size = fitWithin(size.width, size.height, Math.floor(Math.max(size.width, size.height) * 0.8));
+      }
+    }
+  } finally {
+    decoded.release();
+  }
+};
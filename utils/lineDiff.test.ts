@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import { diffLines } from "./lineDiff";
+
+describe("diffLines", () => {
+  it("marks added and removed lines", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { kind: "same", text: "a" },
+      { kind: "removed", text: "b" },
+      { kind: "same", text: "c" },
+      { kind: "added", text: "d" },
+    ]);
+  });
+});
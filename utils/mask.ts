@@ -0,0 +1,71 @@
+import { loadImage } from './typography';
+
+// ============================================================================
+// INPAINTING MASKS
+// Masks are painted as opaque strokes on a transparent canvas at the image's
+// native resolution: alpha > 0 means "edit here".
+// ============================================================================
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return { canvas, ctx };
+};
+
+// True when at least one pixel of the mask is painted
+export const hasMaskedPixels = (mask: HTMLCanvasElement): boolean => {
+  const ctx = mask.getContext('2d');
+  if (!ctx) return false;
+  const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+// Black/white PNG for the model: white = region to change, black = keep
+export const toModelMask = async (maskDataUrl: string): Promise<string> => {
+  const mask = await loadImage(maskDataUrl);
+  const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+  const { canvas: white, ctx: whiteCtx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+
+  whiteCtx.drawImage(mask, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#ffffff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(white, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Composites the edited image onto the original through the mask's alpha.
+// Pixels outside the mask are copied from the original untouched; the edited
+// image is scaled to the original's size if the model changed the resolution.
+export const blendMaskedRegion = async (
+  originalDataUrl: string,
+  editedDataUrl: string,
+  maskDataUrl: string
+): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([
+    loadImage(originalDataUrl),
+    loadImage(editedDataUrl),
+    loadImage(maskDataUrl),
+  ]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const { canvas: region, ctx: regionCtx } = createCanvas(width, height);
+  regionCtx.drawImage(edited, 0, 0, width, height);
+  regionCtx.globalCompositeOperation = 'destination-in';
+  regionCtx.drawImage(mask, 0, 0, width, height);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(region, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { crc32, readPngText, writePngText } from "./pngMetadata";
+
+// 1x1 transparent PNG
+const PIXEL = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
+  c => c.charCodeAt(0)
+);
+
+describe("crc32", () => {
+  it("matches the CRC of a known chunk", () => {
+    expect(crc32(new TextEncoder().encode("IEND"))).toBe(0xae426082);
+  });
+});
+
+describe("PNG text chunks", () => {
+  it("round-trips Latin-1 and UTF-8 values without touching the image data", () => {
+    const png = writePngText(PIXEL, { Title: "Café", Description: "今天上海天气 25°C" });
+
+    expect(readPngText(png)).toEqual({ Title: "Café", Description: "今天上海天气 25°C" });
+    expect(png.subarray(png.length - PIXEL.length + 33)).toEqual(PIXEL.subarray(33));
+  });
+
+  it("replaces existing entries with the same keyword", () => {
+    const png = writePngText(writePngText(PIXEL, { Title: "Old", Software: "Test" }), { Title: "New" });
+
+    expect(readPngText(png)).toEqual({ Title: "New", Software: "Test" });
+  });
+
+  it("reads text chunks larger than the call stack allows as arguments", () => {
+    const long = "a".repeat(500_000);
+    expect(readPngText(writePngText(PIXEL, { Comment: long })).Comment).toBe(long);
+  });
+
+  it("rejects files that are not PNGs", () => {
+    expect(() => readPngText(new TextEncoder().encode("{}"))).toThrow("Not a PNG file.");
+  });
+});
@@ -0,0 +1,131 @@
+// ============================================================================
+// PNG TEXT CHUNKS
+// Reads and writes tEXt / iTXt metadata without decoding the image. Latin-1
+// values are stored as tEXt so any viewer shows them; everything else (e.g. a
+// Chinese title) goes into an uncompressed UTF-8 iTXt chunk.
+// ============================================================================
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isPng = (bytes: Uint8Array): boolean =>
+  bytes.length > PNG_SIGNATURE.length && PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  // The whole chunk: length, type, data and CRC
+  raw: Uint8Array;
+}
+
+const readChunks = (png: Uint8Array): PngChunk[] => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > png.length) throw new Error("PNG file is truncated.");
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length), raw: png.subarray(offset, end) });
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return chunks;
+};
+
+const encodeChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const concat = (parts: (Uint8Array | number[])[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const encodeLatin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+// In slices: spreading a whole chunk as call arguments overflows the stack on large texts
+const decodeLatin1 = (bytes: Uint8Array) => {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return text;
+};
+
+// Printable Latin-1 plus newline, as the spec allows in tEXt
+const isLatin1Text = (text: string) => /^[\n\x20-\x7e\xa0-\xff]*$/.test(text);
+
+const encodeTextChunk = (keyword: string, text: string): Uint8Array => {
+  if (!/^[\x20-\x7e\xa1-\xff]{1,79}$/.test(keyword)) throw new Error(`Invalid PNG keyword: ${keyword}`);
+  if (isLatin1Text(text)) return encodeChunk("tEXt", concat([encodeLatin1(keyword), [0], encodeLatin1(text)]));
+  // keyword, null, compression flag + method (none), empty language tag and translated keyword
+  return encodeChunk("iTXt", concat([encodeLatin1(keyword), [0, 0, 0, 0, 0], new TextEncoder().encode(text)]));
+};
+
+const decodeTextChunk = (chunk: PngChunk): [string, string] | null => {
+  const separator = chunk.data.indexOf(0);
+  if (separator <= 0) return null;
+  const keyword = decodeLatin1(chunk.data.subarray(0, separator));
+  if (chunk.type === "tEXt") return [keyword, decodeLatin1(chunk.data.subarray(separator + 1))];
+
+  // Compressed iTXt would need an async inflate; this app never writes it
+  if (chunk.data[separator + 1] !== 0) return null;
+  const languageEnd = chunk.data.indexOf(0, separator + 3);
+  const translatedEnd = languageEnd === -1 ? -1 : chunk.data.indexOf(0, languageEnd + 1);
+  if (translatedEnd === -1) return null;
+  return [keyword, new TextDecoder().decode(chunk.data.subarray(translatedEnd + 1))];
+};
+
+// Uncompressed tEXt and iTXt entries by keyword; later chunks win
+export const readPngText = (png: Uint8Array): Record<string, string> => {
+  if (!isPng(png)) throw new Error("Not a PNG file.");
+  const entries: Record<string, string> = {};
+  readChunks(png)
+    .filter(chunk => chunk.type === "tEXt" || chunk.type === "iTXt")
+    .forEach(chunk => {
+      const entry = decodeTextChunk(chunk);
+      if (entry) entries[entry[0]] = entry[1];
+    });
+  return entries;
+};
+
+// Returns a copy of `png` with the entries inserted right after IHDR. Existing
+// text chunks with the same keywords are dropped; image data is copied as-is.
+export const writePngText = (png: Uint8Array, entries: Record<string, string>): Uint8Array => {
+  if (!isPng(png)) throw new Error("Not a PNG file.");
+  const [header, ...rest] = readChunks(png);
+  if (header?.type !== "IHDR") throw new Error("PNG file has no IHDR chunk.");
+  const kept = rest.filter(chunk => {
+    if (chunk.type !== "tEXt" && chunk.type !== "iTXt") return true;
+    const entry = decodeTextChunk(chunk);
+    return !entry || !(entry[0] in entries);
+  });
+  return concat([
+    PNG_SIGNATURE,
+    header.raw,
+    ...Object.entries(entries).map(([keyword, text]) => encodeTextChunk(keyword, text)),
+    ...kept.map(chunk => chunk.raw),
+  ]);
+};
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { validatePromptEdits } from './promptValidation';
+
+const PROMPT = { posterTitle: 'Tiny Harbor', posterSubtitle: 'Dawn', visualPrompt: 'A miniature harbor at dawn, tilt-shift' };
+
+describe('validatePromptEdits', () => {
+  it('checks edited fields against the limits', () => {
+    expect(validatePromptEdits({ ...PROMPT, posterTitle: ' ' }, PROMPT)).toEqual({ posterTitle: 'Title is required.' });
+    expect(validatePromptEdits({ ...PROMPT, visualPrompt: 'too short' }, PROMPT)).toEqual({
+      visualPrompt: 'Visual description must be at least 20 characters.',
+    });
+  });
+
+  it('accepts a title edit when the generated prompt is over the limit', () => {
+    const generated = { ...PROMPT, visualPrompt: 'x'.repeat(6000) };
+    expect(validatePromptEdits({ ...generated, posterTitle: 'Harbor' }, generated)).toEqual({});
+    expect(validatePromptEdits({ ...generated, visualPrompt: 'y'.repeat(6000) }, generated).visualPrompt).toBeDefined();
+  });
+});
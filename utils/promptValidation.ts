@@ -0,0 +1,40 @@
+import { EngineeredPrompt } from '../types';
+
+export type EditablePromptField = 'posterTitle' | 'posterSubtitle' | 'visualPrompt';
+
+export type PromptValidationErrors = Partial<Record<EditablePromptField, string>>;
+
+const LIMITS: Record<EditablePromptField, { min: number; max: number; label: string }> = {
+  posterTitle: { min: 1, max: 80, label: 'Title' },
+  posterSubtitle: { min: 0, max: 160, label: 'Subtitle' },
+  visualPrompt: { min: 20, max: 4000, label: 'Visual description' },
+};
+
+// Validates user edits before they are sent to the image model.
+// Fields left as they were in `base` are the model's text, not edits, and are not checked.
+export const validatePromptEdits = (
+  prompt: Pick<EngineeredPrompt, EditablePromptField>,
+  base?: Pick<EngineeredPrompt, EditablePromptField>
+): PromptValidationErrors => {
+  const errors: PromptValidationErrors = {};
+  (Object.keys(LIMITS) as EditablePromptField[]).forEach((field) => {
+    if (base && prompt[field].trim() === base[field].trim()) return;
+    const { min, max, label } = LIMITS[field];
+    const value = prompt[field].trim();
+    if (value.length < min) {
+      errors[field] = min === 1 ? `${label} is required.` : `${label} must be at least ${min} characters.`;
+    } else if (value.length > max) {
+      errors[field] = `${label} must be at most ${max} characters.`;
+    }
+  });
+  return errors;
+};
+
+export const isSamePromptText = (a: EngineeredPrompt | null, b: EngineeredPrompt | null): boolean => {
+  if (!a || !b) return a === b;
+  return a.posterTitle === b.posterTitle &&
+         a.posterSubtitle === b.posterSubtitle &&
+         a.visualPrompt === b.visualPrompt &&
+         (a.secondaryTitle ?? '') === (b.secondaryTitle ?? '') &&
+         (a.secondarySubtitle ?? '') === (b.secondarySubtitle ?? '');
+};
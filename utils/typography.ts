@@ -0,0 +1,267 @@
+import { LayoutTemplate, LayoutZone } from '../types';
+
+// ============================================================================
+// CLIENT-SIDE TYPOGRAPHY
+// Draws posterTitle / posterSubtitle onto a text-free render, so titles are
+// always spelled correctly regardless of script.
+// ============================================================================
+
+export type TextScript = 'latin' | 'han' | 'kana' | 'hangul';
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TypographySettings {
+  fonts: Record<TextScript, string>;
+  // Font sizes as a fraction of the canvas height
+  titleSize: number;
+  subtitleSize: number;
+  titleWeight: number;
+  subtitleWeight: number;
+  titleColor: string;
+  subtitleColor: string;
+  strokeColor: string;
+  // Stroke width as a fraction of the font size; 0 disables the stroke
+  strokeWidth: number;
+  shadow: boolean;
+  align: TextAlign;
+}
+
+export const FONT_OPTIONS: Record<TextScript, { label: string; family: string }[]> = {
+  latin: [
+    { label: 'Inter', family: "'Inter', sans-serif" },
+    { label: 'Playfair Display', family: "'Playfair Display', serif" },
+    { label: 'Fredoka', family: "'Fredoka', sans-serif" },
+    { label: 'Georgia', family: 'Georgia, serif' },
+  ],
+  han: [
+    { label: 'Noto Sans SC', family: "'Noto Sans SC', sans-serif" },
+    { label: 'Noto Serif SC', family: "'Noto Serif SC', serif" },
+    { label: 'ZCOOL XiaoWei', family: "'ZCOOL XiaoWei', serif" },
+    { label: 'Ma Shan Zheng (Calligraphy)', family: "'Ma Shan Zheng', cursive" },
+  ],
+  kana: [
+    { label: 'Noto Sans JP', family: "'Noto Sans JP', sans-serif" },
+    { label: 'Noto Serif JP', family: "'Noto Serif JP', serif" },
+    { label: 'Zen Maru Gothic', family: "'Zen Maru Gothic', sans-serif" },
+  ],
+  hangul: [
+    { label: 'Noto Sans KR', family: "'Noto Sans KR', sans-serif" },
+    { label: 'Noto Serif KR', family: "'Noto Serif KR', serif" },
+  ],
+};
+
+export const SCRIPT_LABELS: Record<TextScript, string> = {
+  latin: 'Latin',
+  han: 'Chinese',
+  kana: 'Japanese',
+  hangul: 'Korean',
+};
+
+export const DEFAULT_TYPOGRAPHY: TypographySettings = {
+  fonts: {
+    latin: FONT_OPTIONS.latin[1].family,
+    han: FONT_OPTIONS.han[1].family,
+    kana: FONT_OPTIONS.kana[0].family,
+    hangul: FONT_OPTIONS.hangul[0].family,
+  },
+  titleSize: 0.07,
+  subtitleSize: 0.028,
+  titleWeight: 700,
+  subtitleWeight: 400,
+  titleColor: '#ffffff',
+  subtitleColor: '#f1f5f9',
+  strokeColor: '#1e293b',
+  strokeWidth: 0.06,
+  shadow: true,
+  align: 'center',
+};
+
+// Picks the script that decides the font. Kana wins over Han so Japanese
+// titles with kanji still get a Japanese face.
+export const detectScript = (text: string): TextScript => {
+  if (/[\u3040-\u30ff]/.test(text)) return 'kana';
+  if (/[\uac00-\ud7af\u1100-\u11ff]/.test(text)) return 'hangul';
+  if (/[\u4e00-\u9fff\u3400-\u4dbf]/.test(text)) return 'han';
+  return 'latin';
+};
+
+const isCjk = (script: TextScript) => script !== 'latin';
+
+const fontSpec = (weight: number, sizePx: number, family: string) => `${weight} ${Math.round(sizePx)}px ${family}`;
+
+// Word wrap for Latin, per-character wrap for CJK (no spaces between words)
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, script: TextScript): string[] => {
+  const tokens = isCjk(script) ? Array.from(text) : text.split(/(\s+)/);
+  const lines: string[] = [];
+  let current = '';
+
+  tokens.forEach((token) => {
+    const candidate = current + token;
+    if (current && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(current.trim());
+      current = token.trimStart();
+    } else {
+      current = candidate;
+    }
+  });
+  if (current.trim()) lines.push(current.trim());
+  return lines;
+};
+
+const drawTextBlock = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  zone: LayoutZone,
+  sizePx: number,
+  weight: number,
+  color: string,
+  settings: TypographySettings
+) => {
+  if (!text.trim()) return;
+  const { width, height } = ctx.canvas;
+  const script = detectScript(text);
+  const left = zone.x * width;
+  const zoneWidth = zone.width * width;
+  const margin = zoneWidth * 0.07;
+  const maxWidth = zoneWidth - margin * 2;
+  const centerY = (zone.y + zone.height / 2) * height;
+
+  ctx.font = fontSpec(weight, sizePx, settings.fonts[script]);
+  ctx.textAlign = settings.align;
+  ctx.textBaseline = 'middle';
+
+  const lines = wrapLines(ctx, text, maxWidth, script);
+  const lineHeight = sizePx * 1.2;
+  const startY = centerY - ((lines.length - 1) * lineHeight) / 2;
+  const x = settings.align === 'left' ? left + margin : settings.align === 'right' ? left + zoneWidth - margin : left + zoneWidth / 2;
+
+  lines.forEach((line, i) => {
+    const y = startY + i * lineHeight;
+
+    ctx.save();
+    if (settings.shadow) {
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+      ctx.shadowBlur = sizePx * 0.25;
+      ctx.shadowOffsetY = sizePx * 0.06;
+    }
+    if (settings.strokeWidth > 0) {
+      ctx.lineJoin = 'round';
+      ctx.lineWidth = sizePx * settings.strokeWidth;
+      ctx.strokeStyle = settings.strokeColor;
+      ctx.strokeText(line, x, y);
+      // Shadow once is enough; don't double it under the fill
+      ctx.shadowColor = 'transparent';
+    }
+    ctx.fillStyle = color;
+    ctx.fillText(line, x, y);
+    ctx.restore();
+  });
+};
+
+export type TextZones = Pick<LayoutTemplate, 'titleZone' | 'subtitleZone'>;
+
+// Classic poster bands, used when no layout is given
+const DEFAULT_TEXT_ZONES: TextZones = {
+  titleZone: { x: 0, y: 0, width: 1, height: 0.25, label: 'top 25%' },
+  subtitleZone: { x: 0, y: 0.75, width: 1, height: 0.25, label: 'bottom 25%' },
+};
+
+// Bilingual posters: the title/subtitle again in the second language
+export interface SecondaryText {
+  title: string;
+  subtitle: string;
+}
+
+// Splits a zone horizontally: the first `ratio` of its height, then the rest
+const splitZone = (zone: LayoutZone, ratio: number): [LayoutZone, LayoutZone] => [
+  { ...zone, height: zone.height * ratio },
+  { ...zone, y: zone.y + zone.height * ratio, height: zone.height * (1 - ratio) },
+];
+
+// Title and subtitle are centred in the layout's text zones; a missing zone draws nothing.
+// Secondary-language lines share the zone, below the primary text at a smaller size.
+export const drawTypography = (
+  ctx: CanvasRenderingContext2D,
+  title: string,
+  subtitle: string,
+  settings: TypographySettings,
+  zones: TextZones = DEFAULT_TEXT_ZONES,
+  secondary?: SecondaryText
+) => {
+  const { height } = ctx.canvas;
+  const titleSize = height * settings.titleSize;
+  const subtitleSize = height * settings.subtitleSize;
+  if (zones.titleZone) {
+    if (secondary?.title.trim()) {
+      const [primaryZone, secondaryZone] = splitZone(zones.titleZone, 0.62);
+      drawTextBlock(ctx, title, primaryZone, titleSize, settings.titleWeight, settings.titleColor, settings);
+      drawTextBlock(ctx, secondary.title, secondaryZone, titleSize * 0.5, settings.titleWeight, settings.titleColor, settings);
+    } else {
+      drawTextBlock(ctx, title, zones.titleZone, titleSize, settings.titleWeight, settings.titleColor, settings);
+    }
+  }
+  if (zones.subtitleZone) {
+    if (secondary?.subtitle.trim()) {
+      const [primaryZone, secondaryZone] = splitZone(zones.subtitleZone, 0.5);
+      drawTextBlock(ctx, subtitle, primaryZone, subtitleSize, settings.subtitleWeight, settings.subtitleColor, settings);
+      drawTextBlock(ctx, secondary.subtitle, secondaryZone, subtitleSize * 0.85, settings.subtitleWeight, settings.subtitleColor, settings);
+    } else {
+      drawTextBlock(ctx, subtitle, zones.subtitleZone, subtitleSize, settings.subtitleWeight, settings.subtitleColor, settings);
+    }
+  }
+};
+
+// Canvas text silently falls back to a default face if the webfont isn't loaded yet
+export const ensureFontsLoaded = async (title: string, subtitle: string, settings: TypographySettings, secondary?: SecondaryText) => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  const texts: [number, string][] = [
+    [settings.titleWeight, title],
+    [settings.subtitleWeight, subtitle],
+    ...(secondary ? [[settings.titleWeight, secondary.title], [settings.subtitleWeight, secondary.subtitle]] as [number, string][] : []),
+  ];
+  try {
+    await Promise.all(texts.map(([weight, text]) => document.fonts.load(fontSpec(weight, 32, settings.fonts[detectScript(text)]), text)));
+  } catch (e) {
+    console.warn("Font loading failed; falling back to system fonts", e);
+  }
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for compositing."));
+    img.src = src;
+  });
+
+// Renders the image plus typography onto `canvas` at the image's native resolution
+export const renderPoster = async (
+  canvas: HTMLCanvasElement,
+  imageDataUrl: string,
+  title: string,
+  subtitle: string,
+  settings: TypographySettings,
+  zones?: TextZones,
+  secondary?: SecondaryText
+) => {
+  const [img] = await Promise.all([loadImage(imageDataUrl), ensureFontsLoaded(title, subtitle, settings, secondary)]);
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  ctx.drawImage(img, 0, 0);
+  drawTypography(ctx, title, subtitle, settings, zones, secondary);
+};
+
+// Flattened PNG export of the composited poster
+export const composePoster = async (
+  imageDataUrl: string,
+  title: string,
+  subtitle: string,
+  settings: TypographySettings,
+  zones?: TextZones,
+  secondary?: SecondaryText
+): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  await renderPoster(canvas, imageDataUrl, title, subtitle, settings, zones, secondary);
+  return canvas.toDataURL('image/png');
+};
@@ -4,15 +4,24 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Local API server (npm run server). It holds GEMINI_API_KEY and proxies the
+    // app's Gemini calls, so the key is never part of the bundle. It refuses
+    // requests not addressed to localhost, which is why the dev server binds there.
+    const proxy = {
+      '/api': `http://127.0.0.1:${env.API_PORT || 3001}`,
+    };
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host: 'localhost',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {